@@ -0,0 +1,16 @@
+CREATE TABLE "chat_message_prompts" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "chat_message_prompts_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"chat_message_id" integer NOT NULL,
+	"swipe_idx" integer DEFAULT 0 NOT NULL,
+	"prompt" text,
+	"messages" json,
+	"meta" json DEFAULT '{}'::json NOT NULL,
+	"connection" json DEFAULT '{}'::json NOT NULL,
+	"sampling" json DEFAULT '{}'::json NOT NULL,
+	"timings" json DEFAULT '{}'::json NOT NULL,
+	"is_aborted" boolean DEFAULT false NOT NULL,
+	"created_at" date DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_message_prompts" ADD CONSTRAINT "chat_message_prompts_chat_message_id_chat_messages_id_fk" FOREIGN KEY ("chat_message_id") REFERENCES "public"."chat_messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "chat_message_prompts_unique" ON "chat_message_prompts" USING btree ("chat_message_id","swipe_idx");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "lore_entry_embeddings" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "lore_entry_embeddings_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"lorebook_id" integer NOT NULL,
+	"entry_type" text NOT NULL,
+	"entry_id" integer NOT NULL,
+	"model" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"embedding" json NOT NULL,
+	"created_at" date DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lorebooks" ADD COLUMN "matching_strategy" text DEFAULT 'keyword' NOT NULL;--> statement-breakpoint
+ALTER TABLE "lorebooks" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+ALTER TABLE "lorebooks" ADD COLUMN "vector_threshold" real DEFAULT 0.75 NOT NULL;--> statement-breakpoint
+ALTER TABLE "lorebooks" ADD COLUMN "vector_max_results" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "lore_entry_embeddings" ADD CONSTRAINT "lore_entry_embeddings_lorebook_id_lorebooks_id_fk" FOREIGN KEY ("lorebook_id") REFERENCES "public"."lorebooks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "lore_entry_embeddings_unique" ON "lore_entry_embeddings" USING btree ("entry_type","entry_id","model");
\ No newline at end of file
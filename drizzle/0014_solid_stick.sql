@@ -0,0 +1,4 @@
+ALTER TABLE "chats" ADD COLUMN "parent_chat_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "forked_from_message_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_parent_chat_id_chats_id_fk" FOREIGN KEY ("parent_chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_forked_from_message_id_chat_messages_id_fk" FOREIGN KEY ("forked_from_message_id") REFERENCES "public"."chat_messages"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "chat_summaries" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "chat_summaries_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"chat_id" integer NOT NULL,
+	"start_message_id" integer NOT NULL,
+	"end_message_id" integer NOT NULL,
+	"message_count" integer DEFAULT 0 NOT NULL,
+	"content" text NOT NULL,
+	"created_at" date DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_summaries" ADD CONSTRAINT "chat_summaries_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "instruct_templates" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "instruct_templates_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"key" text NOT NULL,
+	"is_immutable" boolean DEFAULT false NOT NULL,
+	"name" text NOT NULL,
+	"bos" text DEFAULT '' NOT NULL,
+	"eos" text DEFAULT '' NOT NULL,
+	"system_prefix" text DEFAULT '' NOT NULL,
+	"system_suffix" text DEFAULT '' NOT NULL,
+	"user_prefix" text DEFAULT '' NOT NULL,
+	"user_suffix" text DEFAULT '' NOT NULL,
+	"assistant_prefix" text DEFAULT '' NOT NULL,
+	"assistant_suffix" text DEFAULT '' NOT NULL,
+	"first_assistant_prefix" text,
+	"last_assistant_prefix" text,
+	"system_as_user" boolean DEFAULT false NOT NULL,
+	"stop_sequences" json DEFAULT '[]'::json NOT NULL,
+	CONSTRAINT "instruct_templates_key_unique" UNIQUE("key")
+);
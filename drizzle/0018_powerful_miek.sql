@@ -0,0 +1,6 @@
+ALTER TABLE "characters" ADD COLUMN "system_prompt" text;--> statement-breakpoint
+ALTER TABLE "characters" ADD COLUMN "depth_prompt" text;--> statement-breakpoint
+ALTER TABLE "characters" ADD COLUMN "depth_prompt_depth" integer DEFAULT 4 NOT NULL;--> statement-breakpoint
+ALTER TABLE "characters" ADD COLUMN "depth_prompt_role" text DEFAULT 'system' NOT NULL;--> statement-breakpoint
+UPDATE "characters" SET "system_prompt" = "metadata"->>'systemPrompt' WHERE coalesce("metadata"->>'systemPrompt', '') <> '';--> statement-breakpoint
+UPDATE "characters" SET "depth_prompt" = "extensions"->'depth_prompt'->>'prompt', "depth_prompt_depth" = coalesce(("extensions"->'depth_prompt'->>'depth')::numeric::integer, 4), "depth_prompt_role" = coalesce("extensions"->'depth_prompt'->>'role', 'system') WHERE coalesce("extensions"->'depth_prompt'->>'prompt', '') <> '';
@@ -0,0 +1,5 @@
+ALTER TABLE "chats" ADD COLUMN "authors_note" text;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "authors_note_depth" integer DEFAULT 4 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "authors_note_role" text DEFAULT 'system' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "authors_note_frequency" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "injections" json DEFAULT '[]'::json NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+ALTER TABLE "chat_characters" ADD COLUMN "connection_id" integer;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD COLUMN "sampling_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD COLUMN "context_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD COLUMN "prompt_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "connection_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "sampling_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "context_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "prompt_config_id" integer;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD CONSTRAINT "chat_characters_connection_id_connections_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD CONSTRAINT "chat_characters_sampling_config_id_sampling_configs_id_fk" FOREIGN KEY ("sampling_config_id") REFERENCES "public"."sampling_configs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD CONSTRAINT "chat_characters_context_config_id_context_configs_id_fk" FOREIGN KEY ("context_config_id") REFERENCES "public"."context_configs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_characters" ADD CONSTRAINT "chat_characters_prompt_config_id_prompt_configs_id_fk" FOREIGN KEY ("prompt_config_id") REFERENCES "public"."prompt_configs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_connection_id_connections_id_fk" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_sampling_config_id_sampling_configs_id_fk" FOREIGN KEY ("sampling_config_id") REFERENCES "public"."sampling_configs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_context_config_id_context_configs_id_fk" FOREIGN KEY ("context_config_id") REFERENCES "public"."context_configs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_prompt_config_id_prompt_configs_id_fk" FOREIGN KEY ("prompt_config_id") REFERENCES "public"."prompt_configs"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
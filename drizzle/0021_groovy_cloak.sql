@@ -0,0 +1 @@
+ALTER TABLE "chat_characters" ADD COLUMN "talkativeness" real DEFAULT 0.5 NOT NULL;
\ No newline at end of file
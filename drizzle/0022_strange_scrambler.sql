@@ -0,0 +1,3 @@
+ALTER TABLE "chats" ADD COLUMN "auto_play_delay" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "auto_play_max_turns" integer DEFAULT 20 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "auto_play_token_budget" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
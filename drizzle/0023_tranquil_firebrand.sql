@@ -0,0 +1 @@
+CREATE INDEX "chat_messages_content_search_idx" ON "chat_messages" USING gin (to_tsvector('english', "content"));
\ No newline at end of file
@@ -0,0 +1,24 @@
+ALTER TABLE "connections" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "context_configs" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "instruct_templates" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "prompt_configs" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "sampling_configs" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "tags" ADD COLUMN "user_id" integer;--> statement-breakpoint
+-- Existing rows belong to the first account, like the rest of the migrated data
+UPDATE "connections" SET "user_id" = (SELECT min("id") FROM "users");--> statement-breakpoint
+UPDATE "tags" SET "user_id" = (SELECT min("id") FROM "users");--> statement-breakpoint
+UPDATE "context_configs" SET "user_id" = (SELECT min("id") FROM "users") WHERE "is_immutable" = false;--> statement-breakpoint
+UPDATE "instruct_templates" SET "user_id" = (SELECT min("id") FROM "users") WHERE "is_immutable" = false;--> statement-breakpoint
+UPDATE "prompt_configs" SET "user_id" = (SELECT min("id") FROM "users") WHERE "is_immutable" = false;--> statement-breakpoint
+UPDATE "sampling_configs" SET "user_id" = (SELECT min("id") FROM "users") WHERE "is_immutable" = false;--> statement-breakpoint
+-- Without any account there is no one to own them
+DELETE FROM "connections" WHERE "user_id" IS NULL;--> statement-breakpoint
+DELETE FROM "tags" WHERE "user_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "connections" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "tags" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "connections" ADD CONSTRAINT "connections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "context_configs" ADD CONSTRAINT "context_configs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "instruct_templates" ADD CONSTRAINT "instruct_templates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prompt_configs" ADD CONSTRAINT "prompt_configs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sampling_configs" ADD CONSTRAINT "sampling_configs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
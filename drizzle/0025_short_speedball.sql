@@ -0,0 +1,8 @@
+-- Custom SQL migration file, put your code below! --
+-- Render system-role messages (depth prompts, author's notes) in context templates that only handle user and assistant messages
+UPDATE "context_configs" SET "template" = overlay("template" placing '{{#if (eq role "system")}}
+{{#systemBlock}}
+{{{message}}}
+{{/systemBlock}}
+{{/if}}
+' from strpos("template", '{{#each chatMessages}}') - 1 + strpos(substr("template", strpos("template", '{{#each chatMessages}}')), '{{/each}}') for 0) WHERE "is_immutable" = false AND "template" LIKE '%{{#each chatMessages}}%(eq role "user")%{{/each}}%' AND "template" NOT LIKE '%(eq role "system")%';
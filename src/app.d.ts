@@ -15,10 +15,13 @@ declare global {
 		interface Locals {
 			latestReleaseTag?: string
 			isNewerReleaseAvailable?: boolean
+			user?: { id: number; username: string }
+			sessionToken?: string
 		}
 		interface PageData {
 			latestReleaseTag?: string
 			isNewerReleaseAvailable?: boolean
+			user?: { id: number; username: string }
 		}
 		// interface PageState {}
 		// interface Platform {}
@@ -61,7 +64,7 @@ declare global {
 
 	interface UserCtx {
 		user:
-			| (SelectUser & {
+			| (Omit<SelectUser, "passwordHash"> & {
 					activeConnection: SelectConnection | null
 					activeSamplingConfig: SelectSamplingConfig | null
 					activeContextConfig: SelectContextConfig | null
@@ -97,6 +100,8 @@ declare global {
 	type InsertContextConfig = typeof schema.contextConfigs.$inferInsert
 	type SelectPromptConfig = typeof schema.promptConfigs.$inferSelect
 	type InsertPromptConfig = typeof schema.promptConfigs.$inferInsert
+	type SelectInstructTemplate = typeof schema.instructTemplates.$inferSelect
+	type InsertInstructTemplate = typeof schema.instructTemplates.$inferInsert
 	type SelectLorebook = typeof schema.lorebooks.$inferSelect
 	type InsertLorebook = typeof schema.lorebooks.$inferInsert
 	type SelectWorldLoreEntry = typeof schema.worldLoreEntries.$inferSelect
@@ -119,6 +124,14 @@ declare global {
 	type InsertChat = typeof schema.chats.$inferInsert
 	type SelectChatMessage = typeof schema.chatMessages.$inferSelect
 	type InsertChatMessage = typeof schema.chatMessages.$inferInsert
+	type SelectChatMessagePrompt = typeof schema.chatMessagePrompts.$inferSelect
+	type InsertChatMessagePrompt = typeof schema.chatMessagePrompts.$inferInsert
+	type SelectChatSummary = typeof schema.chatSummaries.$inferSelect
+	type InsertChatSummary = typeof schema.chatSummaries.$inferInsert
+	type SelectLoreEntryEmbedding =
+		typeof schema.loreEntryEmbeddings.$inferSelect
+	type InsertLoreEntryEmbedding =
+		typeof schema.loreEntryEmbeddings.$inferInsert
 	type SelectChatPersona = typeof schema.chatPersonas.$inferSelect
 	type InsertChatPersona = typeof schema.chatPersonas.$inferInsert
 	type SelectChatCharacter = typeof schema.chatCharacters.$inferSelect
@@ -214,6 +227,44 @@ declare global {
 				id: number
 			}
 		}
+		namespace InstructTemplatesList {
+			interface Call {}
+			interface Response {
+				instructTemplatesList: Partial<SelectInstructTemplate>[]
+			}
+		}
+		namespace InstructTemplate {
+			interface Call {
+				id: number
+			}
+			interface Response {
+				instructTemplate: SelectInstructTemplate
+			}
+		}
+		namespace CreateInstructTemplate {
+			interface Call {
+				instructTemplate: Omit<InsertInstructTemplate, "key">
+			}
+			interface Response {
+				instructTemplate: SelectInstructTemplate
+			}
+		}
+		namespace UpdateInstructTemplate {
+			interface Call {
+				instructTemplate: InsertInstructTemplate & { id: number }
+			}
+			interface Response {
+				instructTemplate: SelectInstructTemplate
+			}
+		}
+		namespace DeleteInstructTemplate {
+			interface Call {
+				id: number
+			}
+			interface Response {
+				id: number
+			}
+		}
 		// PERSONAS
 		namespace PersonaList {
 			interface Call {}
@@ -636,6 +687,7 @@ declare global {
 				id: number
 				limit?: number
 				offset?: number
+				aroundMessageId?: number // Load enough history to include this message
 			}
 			interface Response {
 				chat: SelectChat & {
@@ -660,6 +712,61 @@ declare global {
 				chatMessage: SelectChatMessage
 			}
 		}
+		namespace SearchChatMessages {
+			interface Call {
+				query: string
+				chatId?: number
+				characterId?: number
+				personaId?: number
+				role?: "user" | "assistant"
+				from?: string // YYYY-MM-DD, inclusive
+				to?: string // YYYY-MM-DD, inclusive
+				limit?: number
+				offset?: number
+			}
+			interface Result {
+				id: number
+				chatId: number
+				chatName: string | null
+				characterId: number | null
+				personaId: number | null
+				role: string | null
+				createdAt: string
+				snippet: { text: string; isMatch: boolean }[]
+			}
+			interface Response {
+				query: string
+				results: Result[]
+				offset: number
+				hasMore: boolean
+				error?: string
+			}
+		}
+		namespace ChatExport {
+			interface Call {
+				chatId: number
+				format: string // ChatExportFormats
+				excludeHidden?: boolean
+			}
+			interface Response {
+				chatId: number
+				format: string
+				fileName: string
+				mimeType: string
+				file: string // File contents as text
+			}
+		}
+		namespace ChatMessagePromptInspect {
+			interface Call {
+				chatMessageId: number
+				swipeIdx?: number // Defaults to the message's current swipe
+			}
+			interface Response {
+				chatMessageId: number
+				swipeIdx: number
+				chatMessagePrompt: SelectChatMessagePrompt | null
+			}
+		}
 		// PROMPT CONFIGS
 		namespace PromptConfigsList {
 			interface Call {}
@@ -704,7 +811,7 @@ declare global {
 				id: number
 			}
 			interface Response {
-				user: SelectUser
+				user: Omit<SelectUser, "passwordHash">
 			}
 		}
 		namespace SendPersonaMessage {
@@ -725,6 +832,16 @@ declare global {
 				id: number
 			}
 		}
+		namespace ForkChat {
+			interface Call {
+				chatId: number
+				chatMessageId: number // Last message copied into the fork
+				name?: string
+			}
+			interface Response {
+				chat: SelectChat
+			}
+		}
 		namespace DeleteChatMessage {
 			interface Call {
 				id: number
@@ -750,6 +867,61 @@ declare global {
 				error?: string
 			}
 		}
+		namespace ContinueChatMessage {
+			interface Call {
+				id: number
+			}
+		}
+		namespace ImpersonatePersona {
+			interface Call {
+				chatId: number
+			}
+			interface Response {
+				chatId: number
+				content: string // The draft so far, not saved to the chat
+				isGenerating: boolean
+				error?: string
+			}
+		}
+		namespace AbortImpersonatePersona {
+			interface Call {
+				chatId: number
+			}
+		}
+		// Start, pause and stop all answer with the autoPlay event
+		namespace AutoPlay {
+			interface State {
+				status: "playing" | "paused"
+				turns: number
+				maxTurns: number
+				tokens: number // Used by the replies so far
+				tokenBudget: number // 0 for no limit
+				delay: number // Seconds between turns
+			}
+			interface Call {
+				chatId: number
+			}
+			interface Response {
+				chatId: number
+				autoPlay: State | null // Null when it isn't running
+				reason?: string // Why it paused or stopped
+			}
+		}
+		namespace StartAutoPlay {
+			interface Call {
+				chatId: number
+			}
+		}
+		namespace PauseAutoPlay {
+			interface Call {
+				chatId: number
+			}
+		}
+		namespace StopAutoPlay {
+			interface Call {
+				chatId: number
+			}
+		}
 		namespace PromptTokenCount {
 			interface Call {
 				chatId: number
@@ -1067,7 +1239,7 @@ declare global {
 		// Character Card Import
 		namespace CharacterCardImport {
 			interface Call {
-				file: string // base64 or data URL
+				file: string // base64 or data URL of a JSON, PNG or CHARX card
 			}
 			interface Response {
 				character: SelectCharacter
@@ -1075,6 +1247,21 @@ declare global {
 			}
 		}
 
+		// Export Character Card
+		namespace CharacterCardExport {
+			interface Call {
+				id: number
+				format: string // CharacterCardExportFormats
+			}
+			interface Response {
+				characterId: number
+				format: string
+				fileName: string
+				mimeType: string
+				file: string // base64
+			}
+		}
+
 		// Import Lorebook
 		namespace LorebookImport {
 			interface Call {
@@ -1088,6 +1275,29 @@ declare global {
 					characterLoreEntries: SelectCharacterLoreEntry[]
 					historyEntries: SelectHistoryEntry[]
 				}
+				report: Report
+			}
+			// What was imported, and anything that couldn't be represented
+			interface Report {
+				format: "sillytavern" | "character_book"
+				worldLoreEntries: number
+				characterLoreEntries: number
+				historyEntries: number
+				bindings: number
+				issues: { message: string; entries: string[] }[]
+			}
+		}
+		// Export Lorebook
+		namespace LorebookExport {
+			interface Call {
+				id: number
+				format: string // LorebookExportFormats
+			}
+			interface Response {
+				lorebookId: number
+				format: string
+				fileName: string
+				data: Record<string, any>
 			}
 		}
 		// Toggle Chat Character Active
@@ -1115,6 +1325,58 @@ declare global {
 				visibility: string
 			}
 		}
+		namespace UpdateChatCharacterTalkativeness {
+			interface Call {
+				chatId: number
+				characterId: number
+				talkativeness: number // 0-1
+			}
+			interface Response {
+				chatId: number
+				characterId: number
+				talkativeness: number
+			}
+		}
+		namespace UpdateChatCharacterConfigs {
+			interface Call {
+				chatId: number
+				characterId: number
+				connectionId: number | null
+				samplingConfigId: number | null
+				contextConfigId: number | null
+				promptConfigId: number | null
+			}
+			interface Response {
+				chatCharacter: SelectChatCharacter
+			}
+		}
+		namespace ChatConfigs {
+			type Source = "character" | "chat" | "user"
+			interface ResolvedConfigs {
+				connection: {
+					id: number
+					name: string
+					model: string | null
+				} | null
+				sampling: { id: number; name: string } | null
+				contextConfig: { id: number; name: string } | null
+				promptConfig: { id: number; name: string } | null
+				sources: {
+					connection: Source | null
+					sampling: Source | null
+					contextConfig: Source | null
+					promptConfig: Source | null
+				}
+			}
+			interface Call {
+				chatId: number
+			}
+			interface Response {
+				chatId: number
+				chat: ResolvedConfigs // Without character overrides
+				characters: ({ characterId: number } & ResolvedConfigs)[]
+			}
+		}
 		namespace SetTheme {
 			interface Call {
 				theme: string
@@ -1188,7 +1450,7 @@ declare global {
 			interface Call {}
 			interface Response {
 				user:
-					| (SelectUser & {
+					| (Omit<SelectUser, "passwordHash"> & {
 							activeConnection: SelectConnection | null
 							activeSamplingConfig: SelectSamplingConfig | null
 							activeContextConfig: SelectContextConfig | null
@@ -1229,6 +1491,12 @@ declare global {
 		spec_version: string
 	}
 
+	export type CompiledPromptLoreSource = {
+		included: number
+		total: number
+		includedIds: number[]
+	}
+
 	export type CompiledPrompt = {
 		prompt?: string
 		messages?: ChatCompletionMessageParam[]
@@ -1237,6 +1505,17 @@ declare global {
 				total: number
 				limit: number
 			}
+			promptFormat?: string
+			templateName?: string | null
+			timestamp?: string
+			truncationReason?: string | null
+			currentTurnCharacterId?: number
+			// How tokenCounts.limit was resolved, see resolveContextBudget
+			contextBudget?: {
+				tokenCounter: string
+				configuredLimit: number | null
+				modelLimit: number | null
+			} | null
 			chatMessages: {
 				included: number
 				total: number
@@ -1260,6 +1539,12 @@ declare global {
 					description: boolean
 				}>
 				scenario: null | "character" | "chat"
+				lorebooks?: {
+					worldLore: CompiledPromptLoreSource
+					characterLore: CompiledPromptLoreSource
+					history: CompiledPromptLoreSource
+				}
+				summaries?: CompiledPromptLoreSource
 			}
 		}
 	}
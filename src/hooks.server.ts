@@ -1,7 +1,11 @@
 import { dev } from "$app/environment"
 import { loadSocketsServer } from "$lib/server/sockets/loadSockets.server"
 import { appVersion } from "$lib/shared/constants/version"
-import type { Handle } from "@sveltejs/kit"
+import {
+	SESSION_COOKIE_NAME,
+	validateSessionToken
+} from "$lib/server/utils/auth"
+import { redirect, type Handle } from "@sveltejs/kit"
 
 loadSocketsServer()
 declare module "@sveltejs/kit" {
@@ -67,6 +71,15 @@ async function checkForUpdates() {
 	}
 }
 
+// Routes reachable without a session
+const PUBLIC_PATHS = ["/login"]
+
+function isPublicPath(pathname: string) {
+	return PUBLIC_PATHS.some(
+		(p) => pathname === p || pathname.startsWith(p + "/")
+	)
+}
+
 let latestReleaseTag: string | undefined = undefined
 let isNewerReleaseAvailable: boolean | undefined = undefined
 let hasCheckedForUpdates = false
@@ -86,5 +99,34 @@ export const handle: Handle = async ({ event, resolve }) => {
 	}
 	event.locals.latestReleaseTag = latestReleaseTag
 	event.locals.isNewerReleaseAvailable = isNewerReleaseAvailable
+
+	// Session
+	const token = event.cookies.get(SESSION_COOKIE_NAME)
+	const session = token ? await validateSessionToken(token) : null
+	if (session) {
+		event.locals.user = session.user
+		event.locals.sessionToken = token
+		// Keep the cookie expiry in step with the session
+		event.cookies.set(SESSION_COOKIE_NAME, token!, {
+			path: "/",
+			httpOnly: true,
+			sameSite: "lax",
+			secure: event.url.protocol === "https:",
+			expires: session.expiresAt
+		})
+	} else if (token) {
+		event.cookies.delete(SESSION_COOKIE_NAME, { path: "/" })
+	}
+
+	if (!session && !isPublicPath(event.url.pathname)) {
+		if (
+			event.url.pathname.startsWith("/api/") ||
+			event.url.pathname.startsWith("/images/")
+		) {
+			return new Response("Unauthorized", { status: 401 })
+		}
+		redirect(303, "/login")
+	}
+
 	return resolve(event)
 }
@@ -10,7 +10,8 @@ export async function loadSocketsClient({ domain }: { domain: string }) {
 
 	const io = await skio.setup(host, {
 		cors: { origin: "*", credentials: false },
-		maxHttpBufferSize: 1e8
+		maxHttpBufferSize: 1e8,
+		auth: { token: res.data.token }
 	})
 
 	if (typeof io.to !== "function") {
@@ -0,0 +1,35 @@
+import { toaster } from "./toaster"
+
+/**
+ * Toast the result of a lorebook import, with a warning for anything that couldn't be represented
+ */
+export function toastLorebookImportReport(
+	report: Sockets.LorebookImport.Report | undefined
+) {
+	if (!report) {
+		toaster.success({ title: "Lorebook Imported" })
+		return
+	}
+	const counts = [
+		`${report.worldLoreEntries} world`,
+		`${report.characterLoreEntries} character`,
+		`${report.historyEntries} history`
+	].join(", ")
+	toaster.success({
+		title: "Lorebook Imported",
+		description: `Imported ${counts} entries.`
+	})
+	if (report.issues.length) {
+		const lines = report.issues.map((issue) =>
+			issue.entries.length
+				? `${issue.message} (${issue.entries.length}): ${issue.entries.slice(0, 5).join(", ")}${issue.entries.length > 5 ? ", ..." : ""}`
+				: issue.message
+		)
+		console.warn("Lorebook import issues:", report.issues)
+		toaster.warning({
+			title: "Some lorebook data couldn't be fully represented",
+			description: lines.join("\n"),
+			duration: 15000
+		})
+	}
+}
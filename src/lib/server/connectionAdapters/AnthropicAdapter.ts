@@ -0,0 +1,338 @@
+import axios from "axios"
+import {
+	BaseConnectionAdapter,
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
+} from "./BaseConnectionAdapter"
+import type { ContextBudget } from "../utils/contextBudget"
+import { StopStrings } from "../utils/StopStrings"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
+import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
+import {
+	getApiErrorMessage,
+	streamServerSentEvents,
+	toChatTurns,
+	type ChatTurn
+} from "./chatApiUtils"
+
+const ANTHROPIC_VERSION = "2023-06-01"
+
+export type AnthropicMessage = ChatTurn
+
+// POST /v1/messages
+export interface MessagesRequest {
+	model: string
+	messages: AnthropicMessage[]
+	max_tokens: number
+	system?: string
+	stop_sequences?: string[]
+	stream?: boolean
+	temperature?: number
+	top_p?: number
+	top_k?: number
+}
+
+export interface MessagesResponse {
+	id: string
+	type: "message"
+	role: "assistant"
+	content: Array<{ type: "text"; text: string } | { type: string }>
+	model: string
+	stop_reason: string | null
+	stop_sequence: string | null
+	usage: { input_tokens: number; output_tokens: number }
+}
+
+// GET /v1/models
+export interface ModelsResponse {
+	data: Array<{
+		id: string
+		display_name: string
+		created_at: string
+		type: "model"
+	}>
+	has_more: boolean
+	first_id: string | null
+	last_id: string | null
+}
+
+function getBaseUrl(connection: SelectConnection) {
+	return (connection.baseUrl || connectionDefaults.baseUrl).replace(/\/$/, "")
+}
+
+function getHeaders(connection: SelectConnection) {
+	return {
+		"x-api-key": connection.extraJson?.apiKey || "",
+		"anthropic-version": ANTHROPIC_VERSION,
+		"content-type": "application/json"
+	}
+}
+
+function getErrorMessage(e: any): string {
+	return getApiErrorMessage("Anthropic", e)
+}
+
+class AnthropicAdapter extends BaseConnectionAdapter {
+	private abortController: AbortController | null = null
+
+	constructor({
+		connection,
+		sampling,
+		contextConfig,
+		promptConfig,
+		chat,
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
+	}: {
+		connection: SelectConnection
+		sampling: SelectSamplingConfig
+		contextConfig: SelectContextConfig
+		promptConfig: SelectPromptConfig
+		chat: SelectChat & {
+			chatCharacters?: (SelectChatCharacter & {
+				character: SelectCharacter
+			})[]
+			chatPersonas?: (SelectChatPersona & { persona: SelectPersona })[]
+			chatMessages: SelectChatMessage[]
+		}
+		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
+	}) {
+		super({
+			connection,
+			sampling,
+			contextConfig,
+			promptConfig,
+			chat,
+			currentCharacterId,
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
+		})
+	}
+
+	compilePrompt(args: {}) {
+		return super.compilePrompt({ useChatFormat: true, ...args })
+	}
+
+	mapSamplingConfig(): Record<string, any> {
+		const result: Record<string, any> = {}
+		for (const [key, value] of Object.entries(this.sampling)) {
+			if (key.endsWith("Enabled")) continue
+			const enabledKey = key + "Enabled"
+			if ((this.sampling as any)[enabledKey] === false) continue
+			// Unknown parameters are rejected by the API
+			if (samplingKeyMap[key] && value !== null && value !== undefined) {
+				result[samplingKeyMap[key]] = value
+			}
+		}
+		// Anthropic only accepts temperatures between 0 and 1
+		if (typeof result.temperature === "number") {
+			result.temperature = Math.min(Math.max(result.temperature, 0), 1)
+		}
+		return result
+	}
+
+	async generate(): Promise<{
+		completionResult:
+			string | ((cb: (chunk: string) => void) => Promise<void>)
+		compiledPrompt: CompiledPrompt
+		isAborted: boolean
+	}> {
+		const stream = this.connection.extraJson?.stream || false
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+		const { system, turns: messages } = toChatTurns(
+			compiledPrompt.messages ||
+				(compiledPrompt.prompt
+					? [{ role: "user", content: compiledPrompt.prompt }]
+					: [])
+		)
+		const last = messages[messages.length - 1]
+		if (last.role === "assistant") {
+			// Prefilled assistant turns may not end with whitespace
+			last.content = last.content.trimEnd()
+		}
+
+		const req: MessagesRequest = {
+			model: this.connection.model || "",
+			messages,
+			max_tokens: 2048,
+			...this.mapSamplingConfig(),
+			...(system ? { system } : {}),
+			stop_sequences: StopStrings.get({
+				format: PromptFormats.CLAUDE,
+				userId: this.connection.userId,
+				characters:
+					this.chat.chatCharacters?.map((cc: any) => cc.character) ||
+					[],
+				personas:
+					this.chat.chatPersonas?.map((cp: any) => cp.persona) || [],
+				currentCharacterId: this.currentCharacterId,
+				currentPersonaId: this.impersonatePersonaId
+			}).filter((s) => s.trim())
+		}
+
+		const url = getBaseUrl(this.connection) + "/messages"
+		const headers = getHeaders(this.connection)
+		this.abortController = new AbortController()
+		const signal = this.abortController.signal
+
+		if (this.isAborting) {
+			return {
+				completionResult: "",
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+
+		if (stream) {
+			return {
+				completionResult: streamServerSentEvents({
+					apiName: "Anthropic",
+					request: () =>
+						axios.post(
+							url,
+							{ ...req, stream: true },
+							{ headers, responseType: "stream", signal }
+						),
+					getText: (data) => {
+						if (data.type === "error") {
+							throw new Error(data.error?.message)
+						}
+						return data.type === "content_block_delta" &&
+							data.delta?.type === "text_delta"
+							? data.delta.text || ""
+							: ""
+					},
+					isAborting: () => this.isAborting
+				}),
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		}
+
+		try {
+			const response = await axios.post<MessagesResponse>(url, req, {
+				headers,
+				signal
+			})
+			return {
+				completionResult: getText(response.data),
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		} catch (e: any) {
+			if (this.isAborting || axios.isCancel(e)) {
+				return {
+					completionResult: "",
+					compiledPrompt,
+					isAborted: true
+				}
+			}
+			console.error("[AnthropicAdapter] Error from /v1/messages:", e)
+			return {
+				completionResult: "FAILURE: " + getErrorMessage(e),
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+	}
+
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const { system, turns: anthropicMessages } = toChatTurns(messages)
+		const req: MessagesRequest = {
+			model: this.connection.model || "",
+			messages: anthropicMessages,
+			max_tokens: options.maxTokens || 2048,
+			...(system ? { system } : {})
+		}
+		try {
+			const response = await axios.post<MessagesResponse>(
+				getBaseUrl(this.connection) + "/messages",
+				req,
+				{ headers: getHeaders(this.connection) }
+			)
+			return getText(response.data)
+		} catch (e: any) {
+			throw new Error(getErrorMessage(e))
+		}
+	}
+
+	abort() {
+		super.abort()
+		this.abortController?.abort()
+	}
+}
+
+function getText(response: MessagesResponse): string {
+	return (response?.content || [])
+		.map((block) => ("text" in block ? block.text : ""))
+		.join("")
+}
+
+const connectionDefaults = {
+	type: CONNECTION_TYPE.ANTHROPIC,
+	baseUrl: "https://api.anthropic.com/v1/",
+	promptFormat: PromptFormats.CLAUDE,
+	tokenCounter: TokenCounterOptions.ANTHROPIC_CLAUDE,
+	extraJson: {
+		stream: true,
+		apiKey: ""
+	}
+}
+
+const samplingKeyMap: Record<string, string> = {
+	temperature: "temperature",
+	topP: "top_p",
+	topK: "top_k",
+	responseTokens: "max_tokens"
+}
+
+async function listModels(
+	connection: SelectConnection
+): Promise<{ models: any[]; error?: string }> {
+	try {
+		const res = await axios.get<ModelsResponse>(
+			getBaseUrl(connection) + "/models",
+			{ headers: getHeaders(connection), params: { limit: 1000 } }
+		)
+		if (res && Array.isArray(res.data?.data)) {
+			return { models: res.data.data }
+		} else {
+			return {
+				models: [],
+				error: "Unexpected response format from Anthropic API"
+			}
+		}
+	} catch (e: any) {
+		console.error("Anthropic listModels error:", e)
+		return { models: [], error: getErrorMessage(e) }
+	}
+}
+
+async function testConnection(
+	connection: SelectConnection
+): Promise<{ ok: boolean; error?: string }> {
+	// Listing models checks both the URL and the API key
+	const { error } = await listModels(connection)
+	return error ? { ok: false, error } : { ok: true }
+}
+
+const exports: AdapterExports = {
+	Adapter: AnthropicAdapter,
+	listModels,
+	testConnection,
+	connectionDefaults,
+	samplingKeyMap
+}
+
+export default exports
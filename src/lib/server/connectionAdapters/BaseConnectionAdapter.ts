@@ -1,5 +1,8 @@
 import { PromptBuilder } from "../utils/promptBuilder"
-import type { TokenCounters } from "../utils/TokenCounterManager"
+import { PromptBlockFormatter } from "../utils/PromptBlockFormatter"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import type { ContextBudget } from "../utils/contextBudget"
+import { ChatTemplates, type ChatTemplate } from "../utils/ChatTemplates"
 
 export interface BasePromptChat extends SelectChat {
 	chatCharacters?: (SelectChatCharacter & {
@@ -9,6 +12,7 @@ export interface BasePromptChat extends SelectChat {
 		persona: SelectPersona & { lorebook?: SelectLorebook }
 	})[]
 	chatMessages: SelectChatMessage[]
+	chatSummaries?: SelectChatSummary[]
 	lorebook: SelectLorebook & {
 		lorebookBindings: (SelectLorebookBinding & {
 			character?: SelectCharacter
@@ -25,9 +29,9 @@ export interface BaseConnectionAdapterParams {
 	promptConfig: SelectPromptConfig
 	chat: BaseChat
 	currentCharacterId: number
-	tokenCounter: TokenCounters
-	tokenLimit: number
-	contextThresholdPercent: number
+	contextBudget: ContextBudget // See resolveContextBudget
+	continueFrom?: string // Reply text to continue, see continueChatMessage
+	impersonatePersonaId?: number // The persona to write for, see impersonatePersona
 }
 
 // Types for abstract functions
@@ -37,6 +41,21 @@ export type ListModelsFn = (
 export type TestConnectionFn = (
 	connection: SelectConnection
 ) => Promise<{ ok: boolean; error?: string }>
+export type EmbedFn = (input: string[], model?: string) => Promise<number[][]>
+export type CompletionMessage = {
+	role: "system" | "user" | "assistant"
+	content: string
+}
+export type CompleteOptions = {
+	maxTokens?: number
+}
+export type GetModelContextLengthFn = (
+	connection: SelectConnection
+) => Promise<number | null>
+export type CountTokensFn = (
+	connection: SelectConnection,
+	text: string
+) => Promise<number>
 
 export abstract class BaseConnectionAdapter {
 	connection: SelectConnection
@@ -45,8 +64,11 @@ export abstract class BaseConnectionAdapter {
 	promptConfig: SelectPromptConfig
 	chat: BaseChat
 	currentCharacterId: number
+	impersonatePersonaId?: number
 	isAborting = false
 	promptBuilder: PromptBuilder
+	contextBudget: ContextBudget
+	chatTemplate: ChatTemplate | null = null // Set by the Auto prompt format
 
 	constructor({
 		connection,
@@ -55,9 +77,9 @@ export abstract class BaseConnectionAdapter {
 		promptConfig,
 		chat,
 		currentCharacterId,
-		tokenCounter,
-		tokenLimit,
-		contextThresholdPercent
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
 	}: BaseConnectionAdapterParams) {
 		this.connection = connection
 		this.sampling = sampling
@@ -65,6 +87,8 @@ export abstract class BaseConnectionAdapter {
 		this.promptConfig = promptConfig
 		this.chat = chat
 		this.currentCharacterId = currentCharacterId
+		this.impersonatePersonaId = impersonatePersonaId
+		this.contextBudget = contextBudget
 		this.promptBuilder = new PromptBuilder({
 			connection: this.connection,
 			sampling: this.sampling,
@@ -72,15 +96,126 @@ export abstract class BaseConnectionAdapter {
 			promptConfig: this.promptConfig,
 			chat: this.chat,
 			currentCharacterId: this.currentCharacterId,
-			tokenCounter,
-			tokenLimit,
-			contextThresholdPercent
+			tokenCounter: contextBudget.tokenCounter,
+			tokenLimit: contextBudget.tokenLimit,
+			contextThresholdPercent: contextBudget.contextThresholdPercent,
+			contextBudget,
+			embed: this.embed
+				? (input, model) => this.embed!(input, model)
+				: undefined,
+			continueFrom,
+			impersonatePersonaId
 		})
 	}
 
-	async compilePrompt(args: {}): Promise<CompiledPrompt> {
-		this.promptBuilder.tokenLimit = await this.getContextTokenLimit()
-		return await this.promptBuilder.compilePrompt(args)
+	/**
+	 * Compute embeddings for the given texts (used for vector lore matching).
+	 * Adapters without an embeddings endpoint leave this undefined.
+	 */
+	embed?(input: string[], model?: string): Promise<number[][]>
+
+	/**
+	 * Generate a single non-streamed reply outside of the chat prompt (used for chat summaries).
+	 * Throws on failure. Adapters that can't do this leave it undefined.
+	 */
+	complete?(
+		messages: CompletionMessage[],
+		options?: CompleteOptions
+	): Promise<string>
+
+	/**
+	 * Fetch the loaded model's Jinja chat template from the backend (used by the Auto prompt format).
+	 * Adapters whose backend doesn't report one leave this undefined.
+	 */
+	getChatTemplate?(): Promise<ChatTemplate | null>
+
+	/**
+	 * Render role messages to a text prompt with the model's own chat template.
+	 * Adapters whose backend can render the template itself override this.
+	 */
+	protected async applyChatTemplate(
+		messages: CompletionMessage[]
+	): Promise<string> {
+		this.chatTemplate = await ChatTemplates.resolve(
+			this.connection,
+			this.getChatTemplate ? () => this.getChatTemplate!() : undefined
+		)
+		if (!this.chatTemplate) {
+			throw new Error(
+				"The backend didn't report a chat template for this model. Paste the model's tokenizer_config.json into the connection or choose another prompt format."
+			)
+		}
+		return ChatTemplates.render(this.chatTemplate, messages)
+	}
+
+	// A trailing assistant message is a reply to continue, not a finished turn
+	private async renderAutoPrompt(
+		messages: CompletionMessage[]
+	): Promise<string> {
+		const last = messages[messages.length - 1]
+		if (last?.role !== "assistant") {
+			return await this.applyChatTemplate(messages)
+		}
+		return (
+			(await this.applyChatTemplate(messages.slice(0, -1))) + last.content
+		)
+	}
+
+	/**
+	 * Render completion messages with the connection's prompt format, for text completion backends
+	 */
+	protected async renderCompletionPrompt(
+		messages: CompletionMessage[]
+	): Promise<string> {
+		const format = this.connection.promptFormat || PromptFormats.VICUNA
+		const userId = this.connection.userId
+		if (format === PromptFormats.AUTO) {
+			return await this.renderAutoPrompt(messages)
+		}
+		return PromptBlockFormatter.withBos(
+			format,
+			messages
+				.map((m) =>
+					PromptBlockFormatter.makeBlock({
+						format,
+						userId,
+						role: m.role,
+						content: m.content
+					})
+				)
+				.join("") +
+				PromptBlockFormatter.makeBlock({
+					format,
+					userId,
+					role: "assistant",
+					content: "",
+					includeClose: false
+				}),
+			userId
+		)
+	}
+
+	async compilePrompt(args: {
+		useChatFormat?: boolean
+	}): Promise<CompiledPrompt> {
+		if (
+			this.connection.promptFormat !== PromptFormats.AUTO ||
+			args.useChatFormat
+		) {
+			return await this.promptBuilder.compilePrompt(args)
+		}
+		// Build role messages, then render them with the model's template
+		const compiledPrompt = await this.promptBuilder.compilePrompt({
+			...args,
+			useChatFormat: true
+		})
+		const { messages, ...rest } = compiledPrompt
+		return {
+			...rest,
+			prompt: await this.renderAutoPrompt(
+				(messages || []) as CompletionMessage[]
+			)
+		}
 	}
 
 	abstract generate(): Promise<{
@@ -94,18 +229,14 @@ export abstract class BaseConnectionAdapter {
 	abort() {
 		this.isAborting = true
 	}
-
-	async getContextTokenLimit(): Promise<number> {
-		return this.sampling.contextTokensEnabled
-			? this.sampling.contextTokens || 4096
-			: 4096
-	}
 }
 
 export interface AdapterExports {
 	Adapter: new (args: BaseConnectionAdapterParams) => BaseConnectionAdapter
 	listModels: ListModelsFn
 	testConnection: TestConnectionFn
+	getModelContextLength?: GetModelContextLengthFn
+	countTokens?: CountTokensFn // Used by the "backend" token counter
 	connectionDefaults: Record<string, any>
 	samplingKeyMap: Record<string, string>
 }
@@ -0,0 +1,411 @@
+import axios from "axios"
+import {
+	BaseConnectionAdapter,
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
+} from "./BaseConnectionAdapter"
+import type { ContextBudget } from "../utils/contextBudget"
+import { StopStrings } from "../utils/StopStrings"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
+import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
+import {
+	getApiErrorMessage,
+	streamServerSentEvents,
+	toChatTurns
+} from "./chatApiUtils"
+
+// Gemini rejects requests with more stop sequences than this
+const MAX_STOP_SEQUENCES = 5
+
+export type GeminiContent = {
+	role: "user" | "model"
+	parts: { text: string }[]
+}
+
+// POST /models/{model}:generateContent and :streamGenerateContent
+export interface GenerateContentRequest {
+	contents: GeminiContent[]
+	systemInstruction?: { parts: { text: string }[] }
+	generationConfig?: {
+		temperature?: number
+		topP?: number
+		topK?: number
+		maxOutputTokens?: number
+		stopSequences?: string[]
+		[key: string]: any
+	}
+}
+
+export interface GenerateContentResponse {
+	candidates?: Array<{
+		content?: { role?: string; parts?: { text?: string }[] }
+		finishReason?: string
+	}>
+	promptFeedback?: { blockReason?: string }
+	usageMetadata?: Record<string, number>
+}
+
+// GET /models
+export interface GeminiModel {
+	name: string // "models/gemini-..."
+	displayName?: string
+	description?: string
+	inputTokenLimit?: number
+	outputTokenLimit?: number
+	supportedGenerationMethods?: string[]
+}
+
+export interface ListModelsResponse {
+	models?: GeminiModel[]
+	nextPageToken?: string
+}
+
+// Chat messages as Gemini contents, with the system prompt as the system instruction
+export function toGeminiContents(
+	messages: { role: string; content?: unknown }[]
+): { systemInstruction: string; contents: GeminiContent[] } {
+	const { system, turns } = toChatTurns(messages)
+	return {
+		systemInstruction: system,
+		contents: turns.map((turn) => ({
+			role: turn.role === "assistant" ? "model" : "user",
+			parts: [{ text: turn.content }]
+		}))
+	}
+}
+
+function getBaseUrl(connection: SelectConnection) {
+	return (connection.baseUrl || connectionDefaults.baseUrl).replace(/\/$/, "")
+}
+
+function getHeaders(connection: SelectConnection) {
+	return {
+		"x-goog-api-key": connection.extraJson?.apiKey || "",
+		"content-type": "application/json"
+	}
+}
+
+// Models are listed as "models/<id>" but may be stored either way
+function getModelId(model: string) {
+	return model.replace(/^models\//, "")
+}
+
+function getErrorMessage(e: any): string {
+	return getApiErrorMessage("Gemini", e)
+}
+
+function getText(response: GenerateContentResponse): string {
+	return (response?.candidates?.[0]?.content?.parts || [])
+		.map((part) => part.text || "")
+		.join("")
+}
+
+class GeminiAdapter extends BaseConnectionAdapter {
+	private abortController: AbortController | null = null
+
+	constructor({
+		connection,
+		sampling,
+		contextConfig,
+		promptConfig,
+		chat,
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
+	}: {
+		connection: SelectConnection
+		sampling: SelectSamplingConfig
+		contextConfig: SelectContextConfig
+		promptConfig: SelectPromptConfig
+		chat: SelectChat & {
+			chatCharacters?: (SelectChatCharacter & {
+				character: SelectCharacter
+			})[]
+			chatPersonas?: (SelectChatPersona & { persona: SelectPersona })[]
+			chatMessages: SelectChatMessage[]
+		}
+		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
+	}) {
+		super({
+			connection,
+			sampling,
+			contextConfig,
+			promptConfig,
+			chat,
+			currentCharacterId,
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
+		})
+	}
+
+	compilePrompt(args: {}) {
+		return super.compilePrompt({ useChatFormat: true, ...args })
+	}
+
+	mapSamplingConfig(): Record<string, any> {
+		const result: Record<string, any> = {}
+		for (const [key, value] of Object.entries(this.sampling)) {
+			if (key.endsWith("Enabled")) continue
+			const enabledKey = key + "Enabled"
+			if ((this.sampling as any)[enabledKey] === false) continue
+			if (samplingKeyMap[key] && value !== null && value !== undefined) {
+				result[samplingKeyMap[key]] = value
+			}
+		}
+		return result
+	}
+
+	private getModelUrl(method: string) {
+		const model = getModelId(this.connection.model || "")
+		return `${getBaseUrl(this.connection)}/models/${model}:${method}`
+	}
+
+	async generate(): Promise<{
+		completionResult:
+			string | ((cb: (chunk: string) => void) => Promise<void>)
+		compiledPrompt: CompiledPrompt
+		isAborted: boolean
+	}> {
+		const stream = this.connection.extraJson?.stream || false
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+		const { systemInstruction, contents } = toGeminiContents(
+			compiledPrompt.messages ||
+				(compiledPrompt.prompt
+					? [{ role: "user", content: compiledPrompt.prompt }]
+					: [])
+		)
+
+		// Character and persona names are appended last, keep those
+		const stopSequences = StopStrings.get({
+			format: PromptFormats.OPENAI,
+			userId: this.connection.userId,
+			characters:
+				this.chat.chatCharacters?.map((cc: any) => cc.character) || [],
+			personas:
+				this.chat.chatPersonas?.map((cp: any) => cp.persona) || [],
+			currentCharacterId: this.currentCharacterId,
+			currentPersonaId: this.impersonatePersonaId
+		})
+			.filter((s) => s.trim())
+			.slice(-MAX_STOP_SEQUENCES)
+
+		const req: GenerateContentRequest = {
+			contents,
+			...(systemInstruction
+				? {
+						systemInstruction: {
+							parts: [{ text: systemInstruction }]
+						}
+					}
+				: {}),
+			generationConfig: {
+				...this.mapSamplingConfig(),
+				stopSequences
+			}
+		}
+
+		const headers = getHeaders(this.connection)
+		this.abortController = new AbortController()
+		const signal = this.abortController.signal
+
+		if (this.isAborting) {
+			return {
+				completionResult: "",
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+
+		if (stream) {
+			return {
+				completionResult: streamServerSentEvents({
+					apiName: "Gemini",
+					request: () =>
+						axios.post(
+							this.getModelUrl("streamGenerateContent"),
+							req,
+							{
+								headers,
+								params: { alt: "sse" },
+								responseType: "stream",
+								signal
+							}
+						),
+					getText: (data) => {
+						if (data.error) {
+							throw new Error(data.error.message)
+						}
+						const blockReason = data.promptFeedback?.blockReason
+						if (blockReason) {
+							throw new Error(`Prompt blocked: ${blockReason}`)
+						}
+						return getText(data)
+					},
+					isAborting: () => this.isAborting
+				}),
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		}
+
+		try {
+			const response = await axios.post<GenerateContentResponse>(
+				this.getModelUrl("generateContent"),
+				req,
+				{ headers, signal }
+			)
+			const blockReason = response.data?.promptFeedback?.blockReason
+			if (blockReason) {
+				throw new Error(`Prompt blocked: ${blockReason}`)
+			}
+			return {
+				completionResult: getText(response.data),
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		} catch (e: any) {
+			if (this.isAborting || axios.isCancel(e)) {
+				return {
+					completionResult: "",
+					compiledPrompt,
+					isAborted: true
+				}
+			}
+			console.error("[GeminiAdapter] Error from generateContent:", e)
+			return {
+				completionResult: "FAILURE: " + getErrorMessage(e),
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+	}
+
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const { systemInstruction, contents } = toGeminiContents(messages)
+		const req: GenerateContentRequest = {
+			contents,
+			...(systemInstruction
+				? {
+						systemInstruction: {
+							parts: [{ text: systemInstruction }]
+						}
+					}
+				: {}),
+			generationConfig: options.maxTokens
+				? { maxOutputTokens: options.maxTokens }
+				: {}
+		}
+		try {
+			const response = await axios.post<GenerateContentResponse>(
+				this.getModelUrl("generateContent"),
+				req,
+				{ headers: getHeaders(this.connection) }
+			)
+			return getText(response.data)
+		} catch (e: any) {
+			throw new Error(getErrorMessage(e))
+		}
+	}
+
+	abort() {
+		super.abort()
+		this.abortController?.abort()
+	}
+}
+
+const connectionDefaults = {
+	type: CONNECTION_TYPE.GEMINI,
+	baseUrl: "https://generativelanguage.googleapis.com/v1beta/",
+	promptFormat: PromptFormats.OPENAI,
+	tokenCounter: TokenCounterOptions.GEMINI,
+	extraJson: {
+		stream: true,
+		apiKey: ""
+	}
+}
+
+// Keys of generationConfig
+const samplingKeyMap: Record<string, string> = {
+	temperature: "temperature",
+	topP: "topP",
+	topK: "topK",
+	responseTokens: "maxOutputTokens"
+}
+
+async function listModels(
+	connection: SelectConnection
+): Promise<{ models: any[]; error?: string }> {
+	try {
+		const models: GeminiModel[] = []
+		let pageToken: string | undefined
+		do {
+			const res = await axios.get<ListModelsResponse>(
+				getBaseUrl(connection) + "/models",
+				{
+					headers: getHeaders(connection),
+					params: { pageSize: 1000, pageToken }
+				}
+			)
+			if (!res || !Array.isArray(res.data?.models)) {
+				return {
+					models: [],
+					error: "Unexpected response format from Gemini API"
+				}
+			}
+			models.push(...res.data.models)
+			pageToken = res.data.nextPageToken
+		} while (pageToken)
+		return {
+			models: models
+				.filter(
+					(m) =>
+						!m.supportedGenerationMethods ||
+						m.supportedGenerationMethods.includes("generateContent")
+				)
+				.map((m) => ({ ...m, id: getModelId(m.name) }))
+		}
+	} catch (e: any) {
+		console.error("Gemini listModels error:", e)
+		return { models: [], error: getErrorMessage(e) }
+	}
+}
+
+async function testConnection(
+	connection: SelectConnection
+): Promise<{ ok: boolean; error?: string }> {
+	// Listing models checks both the URL and the API key
+	const { error } = await listModels(connection)
+	return error ? { ok: false, error } : { ok: true }
+}
+
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	if (!connection.model) return null
+	const res = await axios.get<GeminiModel>(
+		`${getBaseUrl(connection)}/models/${getModelId(connection.model)}`,
+		{ headers: getHeaders(connection) }
+	)
+	return res.data?.inputTokenLimit || null
+}
+
+const exports: AdapterExports = {
+	Adapter: GeminiAdapter,
+	listModels,
+	testConnection,
+	getModelContextLength,
+	connectionDefaults,
+	samplingKeyMap
+}
+
+export default exports
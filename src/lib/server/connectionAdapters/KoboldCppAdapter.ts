@@ -0,0 +1,414 @@
+import axios from "axios"
+import { Readable } from "stream"
+import {
+	BaseConnectionAdapter,
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
+} from "./BaseConnectionAdapter"
+import type { ContextBudget } from "../utils/contextBudget"
+import { StopStrings } from "../utils/StopStrings"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
+import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
+import { Samplers } from "$lib/shared/constants/Samplers"
+
+// POST /api/v1/generate and /api/extra/generate/stream
+export interface GenerateRequest {
+	prompt: string
+	max_context_length?: number
+	max_length?: number
+	temperature?: number
+	top_p?: number
+	top_k?: number
+	top_a?: number
+	typical?: number
+	tfs?: number
+	min_p?: number
+	rep_pen?: number
+	rep_pen_range?: number
+	rep_pen_slope?: number
+	presence_penalty?: number
+	sampler_order?: number[]
+	sampler_seed?: number
+	dynatemp_range?: number
+	dynatemp_exponent?: number
+	mirostat?: 0 | 1 | 2
+	mirostat_tau?: number
+	mirostat_eta?: number
+	dry_multiplier?: number
+	dry_base?: number
+	dry_allowed_length?: number
+	dry_sequence_breakers?: string[]
+	xtc_threshold?: number
+	xtc_probability?: number
+	stop_sequence?: string[]
+	trim_stop?: boolean
+	genkey?: string
+	[key: string]: any
+}
+
+export interface GenerateResponse {
+	results: { text: string; finish_reason?: string }[]
+}
+
+// Kobold's sampler ids, sampler_order lists all of them
+const KOBOLD_SAMPLER_IDS: Record<string, number> = {
+	[Samplers.TOP_K]: 0,
+	[Samplers.TOP_A]: 1,
+	[Samplers.TFS]: 2,
+	[Samplers.TYPICAL_P]: 3,
+	[Samplers.TOP_P]: 4,
+	[Samplers.TEMPERATURE]: 5,
+	[Samplers.REPETITION_PENALTY]: 6
+}
+
+function getBaseUrl(connection: SelectConnection) {
+	return (connection.baseUrl || connectionDefaults.baseUrl).replace(/\/$/, "")
+}
+
+/**
+ * Sampler order may be stored as sampler names or as Kobold's numeric ids.
+ * Kobold expects every sampler, missing ones keep their default position at the end.
+ */
+function toKoboldSamplerOrder(order: unknown): number[] | undefined {
+	if (!Array.isArray(order) || !order.length) return undefined
+	const ids = order
+		.map((s) => (typeof s === "number" ? s : KOBOLD_SAMPLER_IDS[s]))
+		.filter((id) => id !== undefined)
+	if (!ids.length) return undefined
+	for (const id of Object.values(KOBOLD_SAMPLER_IDS)) {
+		if (!ids.includes(id)) ids.push(id)
+	}
+	return ids
+}
+
+class KoboldCppAdapter extends BaseConnectionAdapter {
+	// Identifies our generation so /api/extra/abort doesn't stop someone else's
+	private genkey = `SP${Date.now()}${Math.floor(Math.random() * 1e6)}`
+
+	constructor({
+		connection,
+		sampling,
+		contextConfig,
+		promptConfig,
+		chat,
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
+	}: {
+		connection: SelectConnection
+		sampling: SelectSamplingConfig
+		contextConfig: SelectContextConfig
+		promptConfig: SelectPromptConfig
+		chat: SelectChat & {
+			chatCharacters?: (SelectChatCharacter & {
+				character: SelectCharacter
+			})[]
+			chatPersonas?: (SelectChatPersona & { persona: SelectPersona })[]
+			chatMessages: SelectChatMessage[]
+		}
+		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
+	}) {
+		super({
+			connection,
+			sampling,
+			contextConfig,
+			promptConfig,
+			chat,
+			currentCharacterId,
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
+		})
+	}
+
+	mapSamplingConfig(): Record<string, any> {
+		const result: Record<string, any> = {}
+		for (const [key, value] of Object.entries(this.sampling)) {
+			if (key.endsWith("Enabled")) continue
+			const enabledKey = key + "Enabled"
+			if ((this.sampling as any)[enabledKey] === false) continue
+			if (samplingKeyMap[key] && value !== null && value !== undefined) {
+				result[samplingKeyMap[key]] = value
+			}
+		}
+		if ("sampler_order" in result) {
+			result.sampler_order = toKoboldSamplerOrder(result.sampler_order)
+		}
+		// -1 means random in our config, Kobold only accepts it as "unset"
+		if (result.sampler_seed < 0) delete result.sampler_seed
+		return result
+	}
+
+	private buildRequest(prompt: string): GenerateRequest {
+		return {
+			prompt,
+			max_context_length: this.contextBudget.tokenLimit,
+			...this.mapSamplingConfig(),
+			stop_sequence: StopStrings.get({
+				format: this.connection.promptFormat || PromptFormats.VICUNA,
+				userId: this.connection.userId,
+				characters:
+					this.chat.chatCharacters?.map((cc: any) => cc.character) ||
+					[],
+				personas:
+					this.chat.chatPersonas?.map((cp: any) => cp.persona) || [],
+				currentCharacterId: this.currentCharacterId,
+				currentPersonaId: this.impersonatePersonaId,
+				chatTemplate: this.chatTemplate
+			}),
+			trim_stop: true,
+			genkey: this.genkey
+		}
+	}
+
+	async generate(): Promise<{
+		completionResult:
+			string | ((cb: (chunk: string) => void) => Promise<void>)
+		compiledPrompt: CompiledPrompt
+		isAborted: boolean
+	}> {
+		const stream = this.connection.extraJson?.stream || false
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+		let prompt: string
+		if (typeof compiledPrompt.prompt === "string") {
+			prompt = compiledPrompt.prompt
+		} else if (Array.isArray(compiledPrompt.messages)) {
+			prompt = compiledPrompt.messages.map((m) => m.content).join("\n")
+		} else {
+			throw new Error(
+				"CompiledPrompt must have either 'prompt' or 'messages'."
+			)
+		}
+		const req = this.buildRequest(prompt)
+		const baseUrl = getBaseUrl(this.connection)
+
+		if (this.isAborting) {
+			return {
+				completionResult: "",
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+
+		if (stream) {
+			return {
+				completionResult: async (cb: (chunk: string) => void) => {
+					try {
+						const response = await axios.post(
+							baseUrl + "/api/extra/generate/stream",
+							req,
+							{ responseType: "stream" }
+						)
+						let buffer = ""
+						for await (const chunk of Readable.from(
+							response.data
+						)) {
+							// The server stops the stream after /api/extra/abort
+							buffer += chunk.toString()
+							const lines = buffer.split(/\r?\n/)
+							buffer = lines.pop() || ""
+							for (const line of lines) {
+								const trimmed = line.trim()
+								if (!trimmed.startsWith("data:")) continue
+								try {
+									const data = JSON.parse(
+										trimmed.slice(5).trim()
+									)
+									if (
+										typeof data.token === "string" &&
+										data.token.length > 0
+									) {
+										cb(data.token)
+									}
+								} catch (err) {
+									// ignore JSON parse errors
+								}
+							}
+						}
+					} catch (e: any) {
+						cb("FAILURE: " + (e.message || String(e)))
+					}
+				},
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		}
+
+		try {
+			const response = await axios.post<GenerateResponse>(
+				baseUrl + "/api/v1/generate",
+				req
+			)
+			return {
+				completionResult: response.data?.results?.[0]?.text || "",
+				compiledPrompt,
+				isAborted: this.isAborting
+			}
+		} catch (e: any) {
+			return {
+				completionResult: "FAILURE: " + (e.message || String(e)),
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+	}
+
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const req: GenerateRequest = {
+			...this.mapSamplingConfig(),
+			prompt: await this.renderCompletionPrompt(messages),
+			max_context_length: this.contextBudget.tokenLimit,
+			// Only the format's own stops, names are expected in the reply
+			stop_sequence: StopStrings.get({
+				format: this.connection.promptFormat || PromptFormats.VICUNA,
+				userId: this.connection.userId,
+				characters: [],
+				personas: [],
+				currentCharacterId: this.currentCharacterId,
+				chatTemplate: this.chatTemplate
+			}),
+			trim_stop: true,
+			...(options.maxTokens ? { max_length: options.maxTokens } : {})
+		}
+		const res = await axios.post<GenerateResponse>(
+			getBaseUrl(this.connection) + "/api/v1/generate",
+			req
+		)
+		return res.data?.results?.[0]?.text || ""
+	}
+
+	abort() {
+		super.abort()
+		axios
+			.post(getBaseUrl(this.connection) + "/api/extra/abort", {
+				genkey: this.genkey
+			})
+			.catch((e) => console.warn("KoboldCpp abort failed:", e.message))
+	}
+}
+
+const connectionDefaults = {
+	type: CONNECTION_TYPE.KOBOLDCPP,
+	baseUrl: "http://localhost:5001/",
+	promptFormat: PromptFormats.VICUNA,
+	tokenCounter: TokenCounterOptions.BACKEND,
+	extraJson: {
+		stream: true
+	}
+}
+
+const samplingKeyMap: Record<string, string> = {
+	temperature: "temperature",
+	topP: "top_p",
+	topK: "top_k",
+	topA: "top_a",
+	typicalP: "typical",
+	tfs: "tfs",
+	minP: "min_p",
+	repetitionPenalty: "rep_pen",
+	repetitionPenaltyRange: "rep_pen_range",
+	presencePenalty: "presence_penalty",
+	samplerOrder: "sampler_order",
+	dynatempRange: "dynatemp_range",
+	dynatempExponent: "dynatemp_exponent",
+	mirostat: "mirostat",
+	mirostatTau: "mirostat_tau",
+	mirostatEta: "mirostat_eta",
+	dryMultiplier: "dry_multiplier",
+	dryBase: "dry_base",
+	dryAllowedLength: "dry_allowed_length",
+	drySequenceBreakers: "dry_sequence_breakers",
+	xtcThreshold: "xtc_threshold",
+	xtcProbability: "xtc_probability",
+	responseTokens: "max_length",
+	seed: "sampler_seed"
+}
+
+async function testConnection(
+	connection: SelectConnection
+): Promise<{ ok: boolean; error?: string }> {
+	try {
+		const res = await axios.get<{ result?: string; version?: string }>(
+			getBaseUrl(connection) + "/api/extra/version"
+		)
+		if (res && typeof res.data === "object" && res.data.result) {
+			return { ok: true }
+		} else {
+			return {
+				ok: false,
+				error: "Unexpected response from KoboldCpp server"
+			}
+		}
+	} catch (e: any) {
+		return { ok: false, error: e.message || String(e) }
+	}
+}
+
+async function listModels(
+	connection: SelectConnection
+): Promise<{ models: any[]; error?: string }> {
+	try {
+		// KoboldCpp serves a single model, reported as "koboldcpp/<name>"
+		const res = await axios.get<{ result?: string }>(
+			getBaseUrl(connection) + "/api/v1/model"
+		)
+		if (res && typeof res.data === "object" && res.data.result) {
+			return {
+				models: [{ model: res.data.result, name: res.data.result }],
+				error: undefined
+			}
+		} else {
+			return {
+				models: [],
+				error: "No model loaded or unexpected response from KoboldCpp server"
+			}
+		}
+	} catch (e: any) {
+		return { models: [], error: e.message || String(e) }
+	}
+}
+
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	// The context size KoboldCpp was launched with
+	const res = await axios.get<{ value?: number }>(
+		getBaseUrl(connection) + "/api/extra/true_max_context_length"
+	)
+	return res.data?.value || null
+}
+
+async function countTokens(
+	connection: SelectConnection,
+	text: string
+): Promise<number> {
+	const res = await axios.post<{ value: number }>(
+		getBaseUrl(connection) + "/api/extra/tokencount",
+		{ prompt: text }
+	)
+	if (typeof res.data?.value !== "number") {
+		throw new Error("Unexpected response from KoboldCpp tokencount")
+	}
+	return res.data.value
+}
+
+const exports: AdapterExports = {
+	Adapter: KoboldCppAdapter,
+	testConnection,
+	listModels,
+	getModelContextLength,
+	countTokens,
+	connectionDefaults,
+	samplingKeyMap
+}
+
+export default exports
@@ -4,9 +4,12 @@ import { StopStrings } from "../utils/StopStrings"
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
 import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
 import { TokenCounters } from "../utils/TokenCounterManager"
+import type { ContextBudget } from "../utils/contextBudget"
 import {
 	BaseConnectionAdapter,
-	type AdapterExports
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
 } from "./BaseConnectionAdapter"
 import {
 	type BaseLoadModelOpts,
@@ -30,7 +33,10 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 		contextConfig,
 		promptConfig,
 		chat,
-		currentCharacterId
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
 	}: {
 		connection: SelectConnection
 		sampling: SelectSamplingConfig
@@ -44,6 +50,9 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 			chatMessages: SelectChatMessage[]
 		}
 		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
 	}) {
 		super({
 			connection,
@@ -52,16 +61,15 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 			promptConfig,
 			chat,
 			currentCharacterId,
-			tokenCounter: new TokenCounters(
-				connection.tokenCounter || TokenCounterOptions.ESTIMATE
-			),
-			tokenLimit: 0, // This is set dynamically based on the LM Studio API
-			contextThresholdPercent: 0.9
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
 		})
 	}
 
 	mapSamplingConfig(): Record<string, any> {
 		const result: Record<string, any> = {}
+		const rawFields: { key: string; value: any }[] = []
 		for (const [key, value] of Object.entries(this.sampling)) {
 			if (key.endsWith("Enabled")) continue
 			const enabledKey = key + "Enabled"
@@ -72,12 +80,38 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 				if (value === undefined) continue
 				// If you expect only primitives, skip objects:
 				if (typeof value === "object" && value !== null) continue
+				if (samplingKeyMap[key].startsWith(RAW_CONFIG_PREFIX)) {
+					rawFields.push({
+						key: samplingKeyMap[key],
+						value: this.mapRawSamplingValue(key, value)
+					})
+					continue
+				}
 				result[samplingKeyMap[key]] = value
 			}
 		}
+		if (rawFields.length) {
+			result.raw = { fields: rawFields }
+		}
 		return result
 	}
 
+	// LM Studio's raw config takes checkbox values, and mirostat as one object
+	private mapRawSamplingValue(key: string, value: any): any {
+		if (key === "mirostat") {
+			return {
+				version: value,
+				learningRate: this.sampling.mirostatEtaEnabled
+					? (this.sampling.mirostatEta ?? 0.1)
+					: 0.1,
+				targetEntropy: this.sampling.mirostatTauEnabled
+					? (this.sampling.mirostatTau ?? 5)
+					: 5
+			}
+		}
+		return { checked: true, value }
+	}
+
 	// --- LM Studio client instance ---
 	getClient() {
 		if (!this._client) {
@@ -167,15 +201,21 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 		if (typeof modelName !== "string")
 			throw new Error("LMStudioAdapter: model must be a string")
 
+		// Use PromptBuilder for prompt construction
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+
 		// Prepare stop strings for LM Studio
 		const promptFormat = this.connection.promptFormat || "chatml"
 		const stopStrings = StopStrings.get({
 			format: promptFormat,
+			userId: this.connection.userId,
 			characters: this.chat.chatCharacters?.map(
 				(cc: any) => cc.character
 			),
 			personas: this.chat.chatPersonas?.map((cp: any) => cp.persona),
-			currentCharacterId: this.currentCharacterId
+			currentCharacterId: this.currentCharacterId,
+			currentPersonaId: this.impersonatePersonaId,
+			chatTemplate: this.chatTemplate
 		})
 		const characterName =
 			this.chat.chatCharacters?.[0]?.character?.nickname ||
@@ -190,9 +230,6 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 			Handlebars.compile(str)(stopContext)
 		)
 
-		// Use PromptBuilder for prompt construction
-		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
-
 		const useChat = this.connection.extraJson?.useChat ?? true
 		let prompt: string = ""
 		let messages: any[] | undefined = undefined
@@ -311,23 +348,32 @@ class LMStudioAdapter extends BaseConnectionAdapter {
 		}
 	}
 
-	async getContextTokenLimit(): Promise<number> {
-		const limit = await super.getContextTokenLimit()
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const modelClient = await this.getModelClient()
+		const result = await modelClient.respond(messages, {
+			...this.mapSamplingConfig(),
+			maxTokens: options.maxTokens ?? false
+		})
+		return result.content || ""
+	}
 
-		const models = await this.getClient().system.listDownloadedModels()
-		const modelName = this.connection.model
-		const modelInfo = models.find((m) => m.modelKey === modelName)
-		if (!modelInfo) {
-			console.warn(
-				`LM Studio getContextTokenLimit: Model "${modelName}" not found in downloaded models`
-			)
-		} else if (modelInfo.maxContextLength < limit) {
-			console.warn(
-				`LM Studio getContextTokenLimit: The configured context limit ${limit} exceeds the model's maximum context length of ${modelInfo.maxContextLength}. This may cause the model to crash.`
-			)
-		}
+	// LM Studio applies the loaded model's template itself
+	protected async applyChatTemplate(
+		messages: CompletionMessage[]
+	): Promise<string> {
+		const modelClient = await this.getModelClient()
+		return await modelClient.applyPromptTemplate(messages)
+	}
 
-		return limit
+	async embed(input: string[], model?: string): Promise<number[][]> {
+		const name = model || this.connection.model
+		if (!name) throw new Error("Embedding model name required")
+		const embeddingModel = await this.getClient().embedding.model(name)
+		const res = await embeddingModel.embed(input)
+		return res.map((r) => r.embedding)
 	}
 }
 
@@ -344,6 +390,7 @@ const connectionDefaults = {
 }
 
 // --- SamplingConfig mapping ---
+const RAW_CONFIG_PREFIX = "llm.prediction."
 const samplingKeyMap: Record<string, string> = {
 	temperature: "temperature",
 	topP: "topPSampling",
@@ -353,7 +400,12 @@ const samplingKeyMap: Record<string, string> = {
 	xtcProbability: "xtcProbability",
 	xtcThreshold: "xtcThreshold",
 	responseTokens: "maxTokens",
-	stopStrings: "stopStrings"
+	stopStrings: "stopStrings",
+	// The SDK has no options for these yet, they go through its raw prediction config.
+	// DRY, top-a, dynamic temperature and sampler order aren't supported by LM Studio.
+	typicalP: "llm.prediction.llama.locallyTypicalSampling",
+	tfs: "llm.prediction.llama.tailFreeSampling",
+	mirostat: "llm.prediction.llama.mirostatSampling"
 }
 
 async function testConnection(
@@ -431,10 +483,26 @@ async function listModels(
 	}
 }
 
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	const client = new LMStudioClient({ baseUrl: connection.baseUrl || "" })
+	const models = await client.system.listDownloadedModels()
+	const modelInfo = models.find((m) => m.modelKey === connection.model)
+	if (!modelInfo) {
+		console.warn(
+			`LM Studio getModelContextLength: Model "${connection.model}" not found in downloaded models`
+		)
+		return null
+	}
+	return modelInfo.maxContextLength
+}
+
 const exports: AdapterExports = {
 	Adapter: LMStudioAdapter,
 	testConnection,
 	listModels,
+	getModelContextLength,
 	connectionDefaults,
 	samplingKeyMap
 }
@@ -3,14 +3,18 @@ import _ from "lodash"
 import { StopStrings } from "../utils/StopStrings"
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
 import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
-import { TokenCounters } from "../utils/TokenCounterManager"
+import type { ContextBudget } from "../utils/contextBudget"
+import type { ChatTemplate } from "../utils/ChatTemplates"
 import {
 	BaseConnectionAdapter,
-	type AdapterExports
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
 } from "./BaseConnectionAdapter"
 import axios from "axios"
 import { Readable } from "stream"
 import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
+import { Samplers } from "$lib/shared/constants/Samplers"
 
 // GET /health
 export type HealthResponse =
@@ -158,6 +162,8 @@ export interface PropsResponse {
 	total_slots: number
 	model_path: string
 	chat_template: string
+	bos_token?: string
+	eos_token?: string
 	modalities: Record<string, boolean>
 	build_info: string
 }
@@ -222,6 +228,18 @@ export interface LoraAdapter {
 }
 export type LoraAdaptersResponse = LoraAdapter[]
 
+// llama-server's names for the `samplers` option, samplers it doesn't have are left out
+const LLAMACPP_SAMPLER_NAMES: Record<string, string> = {
+	[Samplers.REPETITION_PENALTY]: "penalties",
+	[Samplers.DRY]: "dry",
+	[Samplers.TOP_K]: "top_k",
+	[Samplers.TYPICAL_P]: "typ_p",
+	[Samplers.TOP_P]: "top_p",
+	[Samplers.MIN_P]: "min_p",
+	[Samplers.XTC]: "xtc",
+	[Samplers.TEMPERATURE]: "temperature"
+}
+
 class LlamaCppAdapter extends BaseConnectionAdapter {
 	constructor({
 		connection,
@@ -229,7 +247,10 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 		contextConfig,
 		promptConfig,
 		chat,
-		currentCharacterId
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
 	}: {
 		connection: SelectConnection
 		sampling: SelectSamplingConfig
@@ -243,6 +264,9 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 			chatMessages: SelectChatMessage[]
 		}
 		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
 	}) {
 		super({
 			connection,
@@ -256,14 +280,9 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 				chatMessages: chat.chatMessages || []
 			},
 			currentCharacterId,
-			tokenCounter: new TokenCounters(
-				connection.tokenCounter || TokenCounterOptions.ESTIMATE
-			),
-			tokenLimit:
-				typeof sampling.contextTokens === "number"
-					? sampling.contextTokens
-					: 2048,
-			contextThresholdPercent: 0.9
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
 		})
 	}
 
@@ -277,6 +296,11 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 				result[samplingKeyMap[key]] = value
 			}
 		}
+		if (Array.isArray(result.samplers)) {
+			result.samplers = result.samplers
+				.map((s: string) => LLAMACPP_SAMPLER_NAMES[s])
+				.filter(Boolean)
+		}
 		return result
 	}
 
@@ -288,13 +312,18 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 		isAborted: boolean
 	}> {
 		const stream = this.connection.extraJson?.stream || false
+		// Compiled first, the Auto format's stop strings come from the chat template
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
 		// Prepare stop strings
 		const stopStrings = StopStrings.get({
 			format: this.connection.promptFormat || "chatml",
+			userId: this.connection.userId,
 			characters:
 				this.chat.chatCharacters?.map((cc) => cc.character) || [],
 			personas: this.chat.chatPersonas?.map((cp) => cp.persona) || [],
-			currentCharacterId: this.currentCharacterId
+			currentCharacterId: this.currentCharacterId,
+			currentPersonaId: this.impersonatePersonaId,
+			chatTemplate: this.chatTemplate
 		})
 		const characterName =
 			this.chat.chatCharacters?.[0]?.character?.nickname ||
@@ -309,7 +338,6 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 			Handlebars.compile(str)(stopContext)
 		)
 
-		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
 		let prompt: string
 		if (
 			"prompt" in compiledPrompt &&
@@ -434,6 +462,61 @@ class LlamaCppAdapter extends BaseConnectionAdapter {
 			}
 		}
 	}
+
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const baseUrl =
+			this.connection.baseUrl?.replace(/\/$/, "") ||
+			"http://localhost:8080"
+		const req: CompletionRequest = {
+			...this.mapSamplingConfig(),
+			prompt: await this.renderCompletionPrompt(messages),
+			stream: false,
+			// Only the format's own stops, names are expected in the reply
+			stop: StopStrings.get({
+				format: this.connection.promptFormat || "chatml",
+				userId: this.connection.userId,
+				characters: [],
+				personas: [],
+				currentCharacterId: this.currentCharacterId,
+				chatTemplate: this.chatTemplate
+			}),
+			...(options.maxTokens ? { n_predict: options.maxTokens } : {})
+		}
+		const res = await axios.post<CompletionResponse>(
+			baseUrl + "/completion",
+			req
+		)
+		return res.data?.content || ""
+	}
+
+	// The template embedded in the GGUF, or the one llama-server was started with
+	async getChatTemplate(): Promise<ChatTemplate | null> {
+		const baseUrl =
+			this.connection.baseUrl?.replace(/\/$/, "") ||
+			"http://localhost:8080"
+		const res = await axios.get<PropsResponse>(baseUrl + "/props")
+		if (!res.data?.chat_template) return null
+		return {
+			template: res.data.chat_template,
+			bosToken: res.data.bos_token,
+			eosToken: res.data.eos_token
+		}
+	}
+
+	// Requires llama-server to be started with --embeddings
+	async embed(input: string[], model?: string): Promise<number[][]> {
+		const baseUrl =
+			this.connection.baseUrl?.replace(/\/$/, "") ||
+			"http://localhost:8080"
+		const res = await axios.post<{ data: { embedding: number[] }[] }>(
+			baseUrl + "/v1/embeddings",
+			{ input, model: model || this.connection.model || undefined }
+		)
+		return res.data.data.map((d) => d.embedding)
+	}
 }
 
 const connectionDefaults = {
@@ -452,6 +535,20 @@ const samplingKeyMap: Record<string, string> = {
 	topK: "top_k",
 	repetitionPenalty: "repeat_penalty",
 	minP: "min_p",
+	typicalP: "typical_p",
+	repetitionPenaltyRange: "repeat_last_n",
+	mirostat: "mirostat",
+	mirostatTau: "mirostat_tau",
+	mirostatEta: "mirostat_eta",
+	dryMultiplier: "dry_multiplier",
+	dryBase: "dry_base",
+	dryAllowedLength: "dry_allowed_length",
+	drySequenceBreakers: "dry_sequence_breakers",
+	xtcThreshold: "xtc_threshold",
+	xtcProbability: "xtc_probability",
+	dynatempRange: "dynatemp_range",
+	dynatempExponent: "dynatemp_exponent",
+	samplerOrder: "samplers",
 	responseTokens: "n_predict",
 	seed: "seed"
 }
@@ -505,10 +602,23 @@ async function listModels(
 	}
 }
 
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	const baseUrl =
+		connection.baseUrl?.replace(/\/$/, "") || "http://localhost:8080"
+	// n_ctx is the context size llama-server was started with
+	const res = await axios.get<{
+		default_generation_settings?: { n_ctx?: number }
+	}>(baseUrl + "/props")
+	return res.data?.default_generation_settings?.n_ctx || null
+}
+
 const exports: AdapterExports = {
 	Adapter: LlamaCppAdapter,
 	testConnection,
 	listModels,
+	getModelContextLength,
 	connectionDefaults,
 	samplingKeyMap
 }
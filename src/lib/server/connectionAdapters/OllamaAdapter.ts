@@ -4,17 +4,19 @@ import { StopStrings } from "../utils/StopStrings"
 import { Ollama, type ChatRequest, type GenerateRequest } from "ollama"
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
 import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
-import { TokenCounters } from "../utils/TokenCounterManager"
+import type { ContextBudget } from "../utils/contextBudget"
+import type { ChatTemplate } from "../utils/ChatTemplates"
 import {
 	BaseConnectionAdapter,
 	type AdapterExports,
-	type BaseChat
+	type BaseChat,
+	type CompleteOptions,
+	type CompletionMessage
 } from "./BaseConnectionAdapter"
 import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
 
 class OllamaAdapter extends BaseConnectionAdapter {
 	private _client?: Ollama
-	private _tokenCounter?: TokenCounters
 
 	constructor({
 		connection,
@@ -22,7 +24,10 @@ class OllamaAdapter extends BaseConnectionAdapter {
 		contextConfig,
 		promptConfig,
 		chat,
-		currentCharacterId
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
 	}: {
 		connection: SelectConnection
 		sampling: SelectSamplingConfig
@@ -30,6 +35,9 @@ class OllamaAdapter extends BaseConnectionAdapter {
 		promptConfig: SelectPromptConfig
 		chat: BaseChat
 		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
 	}) {
 		super({
 			connection,
@@ -38,14 +46,9 @@ class OllamaAdapter extends BaseConnectionAdapter {
 			promptConfig,
 			chat,
 			currentCharacterId,
-			tokenCounter: new TokenCounters(
-				connection.tokenCounter || TokenCounterOptions.ESTIMATE
-			),
-			tokenLimit:
-				typeof sampling.contextTokens === "number"
-					? sampling.contextTokens
-					: 2048,
-			contextThresholdPercent: 0.9
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
 		})
 	}
 
@@ -60,6 +63,12 @@ class OllamaAdapter extends BaseConnectionAdapter {
 				result[samplingKeyMap[key]] = value
 			}
 		}
+		// Only override Ollama's default context when the user set one, capped
+		// to what the model supports. Sending the model's full context would make
+		// Ollama allocate it on every request.
+		if (this.contextBudget.configuredLimit) {
+			result.num_ctx = this.contextBudget.tokenLimit
+		}
 		return result
 	}
 
@@ -72,12 +81,7 @@ class OllamaAdapter extends BaseConnectionAdapter {
 	}
 
 	getTokenCounter() {
-		if (!this._tokenCounter) {
-			this._tokenCounter = new TokenCounters(
-				this.connection.tokenCounter || TokenCounterOptions.ESTIMATE
-			)
-		}
-		return this._tokenCounter
+		return this.contextBudget.tokenCounter
 	}
 
 	static mapRole(role: string): string {
@@ -86,9 +90,23 @@ class OllamaAdapter extends BaseConnectionAdapter {
 		return "user"
 	}
 
+	async getChatTemplate(): Promise<ChatTemplate | null> {
+		if (!this.connection.model) return null
+		const res = await this.getClient().show({
+			model: this.connection.model
+		})
+		// `template` is Ollama's Go template, the original Jinja one is in the GGUF metadata
+		const modelInfo: Record<string, any> =
+			res.model_info instanceof Map
+				? Object.fromEntries(res.model_info)
+				: res.model_info || {}
+		const template = modelInfo["tokenizer.chat_template"]
+		return typeof template === "string" && template ? { template } : null
+	}
+
 	compilePrompt(args: {}) {
 		return super.compilePrompt({
-			useChatFormat: !!this.connection.extraJson?.useChat,
+			useChatFormat: this.connection.extraJson?.useChat ?? true,
 			...args
 		})
 	}
@@ -108,13 +126,19 @@ class OllamaAdapter extends BaseConnectionAdapter {
 		if (typeof model !== "string")
 			throw new Error("OllamaAdapter: model must be a string")
 
+		// Compiled first, the Auto format's stop strings come from the chat template
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+
 		// Prepare stop strings for Ollama
 		const stopStrings = StopStrings.get({
 			format: this.connection.promptFormat || "chatml",
+			userId: this.connection.userId,
 			characters:
 				this.chat.chatCharacters?.map((cc) => cc.character) || [],
 			personas: this.chat.chatPersonas?.map((cp) => cp.persona) || [],
-			currentCharacterId: this.currentCharacterId
+			currentCharacterId: this.currentCharacterId,
+			currentPersonaId: this.impersonatePersonaId,
+			chatTemplate: this.chatTemplate
 		})
 		const characterName =
 			this.chat.chatCharacters?.[0]?.character?.nickname ||
@@ -129,11 +153,8 @@ class OllamaAdapter extends BaseConnectionAdapter {
 			Handlebars.compile(str)(stopContext)
 		)
 
-		// Use PromptBuilder for prompt construction
-
-		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
-
-		const useChat = this.connection.extraJson?.useChat || true
+		// Text mode (useChat off) is what the Auto prompt format renders for
+		const useChat = this.connection.extraJson?.useChat ?? true
 		let req: GenerateRequest | ChatRequest
 
 		if (useChat) {
@@ -282,6 +303,32 @@ class OllamaAdapter extends BaseConnectionAdapter {
 			}
 		}
 	}
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const result = await this.getClient().chat({
+			model: this.connection.model || "",
+			messages,
+			stream: false,
+			think: false,
+			keep_alive: this.connection.extraJson?.keepAlive || "300ms",
+			options: {
+				...this.mapSamplingConfig(),
+				...(options.maxTokens ? { num_predict: options.maxTokens } : {})
+			}
+		})
+		return result.message?.content || ""
+	}
+
+	async embed(input: string[], model?: string): Promise<number[][]> {
+		const res = await this.getClient().embed({
+			model: model || this.connection.model || "",
+			input
+		})
+		return res.embeddings
+	}
+
 	// --- Abort in-flight Ollama request ---
 	abort() {
 		this.isAborting = true
@@ -312,6 +359,7 @@ const samplingKeyMap: Record<string, string> = {
 	topP: "top_p",
 	topK: "top_k",
 	repetitionPenalty: "repetition_penalty",
+	repetitionPenaltyRange: "repeat_last_n",
 	minP: "min_p",
 	tfs: "tfs",
 	typicalP: "typical_p",
@@ -411,10 +459,30 @@ async function testConnection(
 	}
 }
 
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	if (!connection.model) return null
+	const ollama = new Ollama({
+		host: connection.baseUrl ?? undefined
+	})
+	const res = await ollama.show({ model: connection.model })
+	// model_info is keyed by architecture, e.g. "llama.context_length"
+	const modelInfo: Record<string, any> =
+		res.model_info instanceof Map
+			? Object.fromEntries(res.model_info)
+			: res.model_info || {}
+	const key = Object.keys(modelInfo).find((k) =>
+		k.endsWith(".context_length")
+	)
+	return key && typeof modelInfo[key] === "number" ? modelInfo[key] : null
+}
+
 const exports: AdapterExports = {
 	Adapter: OllamaAdapter,
 	listModels,
 	testConnection,
+	getModelContextLength,
 	connectionDefaults,
 	samplingKeyMap
 }
@@ -1,9 +1,11 @@
 import {
 	BaseConnectionAdapter,
-	type AdapterExports
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
 } from "./BaseConnectionAdapter"
 import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
-import { TokenCounters } from "../utils/TokenCounterManager"
+import type { ContextBudget } from "../utils/contextBudget"
 import { OpenAI } from "openai"
 import { StopStrings } from "../utils/StopStrings"
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
@@ -20,7 +22,10 @@ export class OpenAIChatAdapter extends BaseConnectionAdapter {
 		contextConfig,
 		promptConfig,
 		chat,
-		currentCharacterId
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
 	}: {
 		connection: SelectConnection
 		sampling: SelectSamplingConfig
@@ -34,6 +39,9 @@ export class OpenAIChatAdapter extends BaseConnectionAdapter {
 			chatMessages: SelectChatMessage[]
 		}
 		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
 	}) {
 		super({
 			connection,
@@ -42,14 +50,9 @@ export class OpenAIChatAdapter extends BaseConnectionAdapter {
 			promptConfig,
 			chat,
 			currentCharacterId,
-			tokenCounter: new TokenCounters(
-				connection.tokenCounter || TokenCounterOptions.ESTIMATE
-			),
-			tokenLimit:
-				typeof sampling.contextTokens === "number"
-					? sampling.contextTokens
-					: 4096,
-			contextThresholdPercent: 0.9
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
 		})
 	}
 
@@ -99,9 +102,11 @@ export class OpenAIChatAdapter extends BaseConnectionAdapter {
 		params["stop"] =
 			StopStrings.get({
 				format: promptFormat,
+				userId: this.connection.userId,
 				characters: this.chat.chatCharacters?.map((cc) => cc.character),
 				personas: this.chat.chatPersonas?.map((cp) => cp.persona),
-				currentCharacterId: this.currentCharacterId
+				currentCharacterId: this.currentCharacterId,
+				currentPersonaId: this.impersonatePersonaId
 			}) || []
 
 		const openaiClient = new OpenAI({
@@ -182,6 +187,34 @@ export class OpenAIChatAdapter extends BaseConnectionAdapter {
 		return result
 	}
 
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const openaiClient = new OpenAI({
+			apiKey: this.connection.extraJson?.apiKey,
+			baseURL: this.connection.baseUrl || connectionDefaults.baseUrl
+		})
+		const response = await openaiClient.chat.completions.create({
+			model: this.connection.model || "gpt-3.5-turbo",
+			messages,
+			max_tokens: options.maxTokens
+		})
+		return response.choices?.[0]?.message?.content || ""
+	}
+
+	async embed(input: string[], model?: string): Promise<number[][]> {
+		const openaiClient = new OpenAI({
+			apiKey: this.connection.extraJson?.apiKey,
+			baseURL: this.connection.baseUrl || connectionDefaults.baseUrl
+		})
+		const res = await openaiClient.embeddings.create({
+			model: model || "text-embedding-3-small",
+			input
+		})
+		return res.data.map((d) => d.embedding)
+	}
+
 	abort() {
 		this.isAborting = true
 		// TODO: OpenAI does not support aborting requests directly.
@@ -0,0 +1,356 @@
+import {
+	BaseConnectionAdapter,
+	type AdapterExports,
+	type CompleteOptions,
+	type CompletionMessage
+} from "./BaseConnectionAdapter"
+import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
+import type { ContextBudget } from "../utils/contextBudget"
+import { OpenAI } from "openai"
+import type {
+	CompletionCreateParamsNonStreaming,
+	CompletionCreateParamsStreaming
+} from "openai/resources/completions"
+import { StopStrings } from "../utils/StopStrings"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
+
+// Keys only sent when extraJson.extendedSamplers is on, strict OpenAI servers reject them
+const EXTENDED_SAMPLER_KEYS = new Set([
+	"top_k",
+	"min_p",
+	"typical_p",
+	"tfs",
+	"top_a",
+	"repetition_penalty",
+	"mirostat_mode",
+	"mirostat_tau",
+	"mirostat_eta",
+	"dry_multiplier",
+	"dry_base",
+	"dry_allowed_length",
+	"dry_sequence_breakers",
+	"xtc_threshold",
+	"xtc_probability",
+	"dynatemp_range",
+	"dynatemp_exponent"
+])
+
+function getClient(connection: SelectConnection) {
+	return new OpenAI({
+		// The SDK requires a key, local servers usually ignore it
+		apiKey: connection.extraJson?.apiKey || "none",
+		baseURL: connection.baseUrl || connectionDefaults.baseUrl
+	})
+}
+
+class OpenAICompletionAdapter extends BaseConnectionAdapter {
+	private abortController: AbortController | null = null
+
+	constructor({
+		connection,
+		sampling,
+		contextConfig,
+		promptConfig,
+		chat,
+		currentCharacterId,
+		contextBudget,
+		continueFrom,
+		impersonatePersonaId
+	}: {
+		connection: SelectConnection
+		sampling: SelectSamplingConfig
+		contextConfig: SelectContextConfig
+		promptConfig: SelectPromptConfig
+		chat: SelectChat & {
+			chatCharacters?: (SelectChatCharacter & {
+				character: SelectCharacter
+			})[]
+			chatPersonas?: (SelectChatPersona & { persona: SelectPersona })[]
+			chatMessages: SelectChatMessage[]
+		}
+		currentCharacterId: number
+		contextBudget: ContextBudget
+		continueFrom?: string
+		impersonatePersonaId?: number
+	}) {
+		super({
+			connection,
+			sampling,
+			contextConfig,
+			promptConfig,
+			chat,
+			currentCharacterId,
+			contextBudget,
+			continueFrom,
+			impersonatePersonaId
+		})
+	}
+
+	mapSamplingConfig(): Record<string, any> {
+		const extended = this.connection.extraJson?.extendedSamplers ?? true
+		const result: Record<string, any> = {}
+		for (const [key, value] of Object.entries(this.sampling)) {
+			if (key.endsWith("Enabled")) continue
+			const enabledKey = key + "Enabled"
+			if ((this.sampling as any)[enabledKey] === false) continue
+			const param = samplingKeyMap[key]
+			if (!param || value === null || value === undefined) continue
+			if (!extended && EXTENDED_SAMPLER_KEYS.has(param)) continue
+			result[param] = value
+		}
+		// -1 means random in our config
+		if (result.seed < 0) delete result.seed
+		return result
+	}
+
+	/**
+	 * Extra body parameters from the connection, sent as is (e.g. backend specific samplers)
+	 */
+	private getExtraBody(): Record<string, any> {
+		const extraBody = this.connection.extraJson?.extraBody
+		return extraBody && typeof extraBody === "object" ? extraBody : {}
+	}
+
+	async generate(): Promise<{
+		completionResult:
+			string | ((cb: (chunk: string) => void) => Promise<void>)
+		compiledPrompt: CompiledPrompt
+		isAborted: boolean
+	}> {
+		const stream = this.connection.extraJson?.stream || false
+		const compiledPrompt: CompiledPrompt = await this.compilePrompt({})
+		let prompt: string
+		if (typeof compiledPrompt.prompt === "string") {
+			prompt = compiledPrompt.prompt
+		} else if (Array.isArray(compiledPrompt.messages)) {
+			prompt = compiledPrompt.messages.map((m) => m.content).join("\n")
+		} else {
+			throw new Error(
+				"CompiledPrompt must have either 'prompt' or 'messages'."
+			)
+		}
+
+		const params: Record<string, any> = {
+			model: this.connection.model || "",
+			prompt,
+			max_tokens: 2048,
+			...this.mapSamplingConfig(),
+			stop: StopStrings.get({
+				format: this.connection.promptFormat || PromptFormats.VICUNA,
+				userId: this.connection.userId,
+				characters:
+					this.chat.chatCharacters?.map((cc: any) => cc.character) ||
+					[],
+				personas:
+					this.chat.chatPersonas?.map((cp: any) => cp.persona) || [],
+				currentCharacterId: this.currentCharacterId,
+				currentPersonaId: this.impersonatePersonaId,
+				chatTemplate: this.chatTemplate
+			}),
+			...this.getExtraBody()
+		}
+
+		const client = getClient(this.connection)
+		this.abortController = new AbortController()
+		const signal = this.abortController.signal
+
+		if (this.isAborting) {
+			return {
+				completionResult: "",
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+
+		try {
+			if (stream) {
+				return {
+					completionResult: async (cb: (chunk: string) => void) => {
+						try {
+							const streamResp = await client.completions.create(
+								{
+									...params,
+									stream: true
+								} as CompletionCreateParamsStreaming,
+								{ signal }
+							)
+							for await (const part of streamResp) {
+								if (this.isAborting) break
+								const text = part.choices?.[0]?.text
+								if (text) cb(text)
+							}
+						} catch (err: any) {
+							if (this.isAborting) return
+							console.error(
+								"[OpenAICompletionAdapter] Stream error:",
+								err
+							)
+							cb("FAILURE: " + getErrorMessage(err))
+						}
+					},
+					compiledPrompt,
+					isAborted: this.isAborting
+				}
+			} else {
+				const response = await client.completions.create(
+					{
+						...params,
+						stream: false
+					} as CompletionCreateParamsNonStreaming,
+					{ signal }
+				)
+				return {
+					completionResult: response.choices?.[0]?.text || "",
+					compiledPrompt,
+					isAborted: this.isAborting
+				}
+			}
+		} catch (err: any) {
+			if (this.isAborting) {
+				return {
+					completionResult: "",
+					compiledPrompt,
+					isAborted: true
+				}
+			}
+			console.error(
+				"[OpenAICompletionAdapter] Error from completions.create:",
+				err
+			)
+			return {
+				completionResult: "FAILURE: " + getErrorMessage(err),
+				compiledPrompt,
+				isAborted: true
+			}
+		}
+	}
+
+	async complete(
+		messages: CompletionMessage[],
+		options: CompleteOptions = {}
+	): Promise<string> {
+		const response = await getClient(this.connection).completions.create({
+			...(this.mapSamplingConfig() as any),
+			model: this.connection.model || "",
+			prompt: await this.renderCompletionPrompt(messages),
+			// Only the format's own stops, names are expected in the reply
+			stop: StopStrings.get({
+				format: this.connection.promptFormat || PromptFormats.VICUNA,
+				userId: this.connection.userId,
+				characters: [],
+				personas: [],
+				currentCharacterId: this.currentCharacterId,
+				chatTemplate: this.chatTemplate
+			}),
+			...this.getExtraBody(),
+			...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+			stream: false
+		})
+		return response.choices?.[0]?.text || ""
+	}
+
+	abort() {
+		super.abort()
+		this.abortController?.abort()
+	}
+}
+
+function getErrorMessage(err: any): string {
+	let errorMsg = "Completions API error."
+	if (err?.status || err?.code) {
+		errorMsg += ` Status: ${err.status || err.code}.`
+	}
+	const message = err?.error?.message || err?.message
+	if (message) {
+		errorMsg += ` Message: ${message}`
+	}
+	return errorMsg
+}
+
+const connectionDefaults = {
+	type: CONNECTION_TYPE.OPENAI_COMPLETION,
+	baseUrl: "http://localhost:5000/v1/",
+	promptFormat: PromptFormats.CHATML,
+	tokenCounter: TokenCounterOptions.ESTIMATE,
+	extraJson: {
+		stream: true,
+		apiKey: "",
+		extendedSamplers: true,
+		extraBody: {}
+	}
+}
+
+// Extended sampler names follow vLLM/TabbyAPI/Aphrodite
+const samplingKeyMap: Record<string, string> = {
+	temperature: "temperature",
+	topP: "top_p",
+	topK: "top_k",
+	minP: "min_p",
+	typicalP: "typical_p",
+	tfs: "tfs",
+	topA: "top_a",
+	frequencyPenalty: "frequency_penalty",
+	presencePenalty: "presence_penalty",
+	repetitionPenalty: "repetition_penalty",
+	mirostat: "mirostat_mode",
+	mirostatTau: "mirostat_tau",
+	mirostatEta: "mirostat_eta",
+	dryMultiplier: "dry_multiplier",
+	dryBase: "dry_base",
+	dryAllowedLength: "dry_allowed_length",
+	drySequenceBreakers: "dry_sequence_breakers",
+	xtcThreshold: "xtc_threshold",
+	xtcProbability: "xtc_probability",
+	dynatempRange: "dynatemp_range",
+	dynatempExponent: "dynatemp_exponent",
+	responseTokens: "max_tokens",
+	seed: "seed"
+}
+
+async function listModels(
+	connection: SelectConnection
+): Promise<{ models: any[]; error?: string }> {
+	try {
+		const res = await getClient(connection).models.list()
+		if (res && Array.isArray(res.data)) {
+			return { models: res.data }
+		} else {
+			return {
+				models: [],
+				error: "Unexpected response format from completions API"
+			}
+		}
+	} catch (e: any) {
+		console.error("OpenAI completions listModels error:", e)
+		return { models: [], error: e.message || String(e) }
+	}
+}
+
+async function testConnection(
+	connection: SelectConnection
+): Promise<{ ok: boolean; error?: string }> {
+	// Listing models checks both the URL and the API key
+	const { error } = await listModels(connection)
+	return error ? { ok: false, error } : { ok: true }
+}
+
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	// vLLM and Aphrodite report max_model_len on their model list
+	const res = await getClient(connection).models.list()
+	const model: any = res.data.find((m) => m.id === connection.model)
+	return model?.max_model_len || null
+}
+
+const exports: AdapterExports = {
+	Adapter: OpenAICompletionAdapter,
+	listModels,
+	testConnection,
+	getModelContextLength,
+	connectionDefaults,
+	samplingKeyMap
+}
+
+export default exports
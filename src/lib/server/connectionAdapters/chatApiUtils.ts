@@ -0,0 +1,106 @@
+import axios from "axios"
+import { Readable } from "stream"
+
+// Helpers shared by the adapters for hosted chat APIs (Anthropic, Gemini)
+
+// These APIs require the first turn to come from the user
+const CONVERSATION_START = "[Start]"
+
+export type ChatTurn = {
+	role: "user" | "assistant"
+	content: string
+}
+
+/**
+ * Split chat messages into a system prompt and strictly alternating
+ * user/assistant turns starting with the user.
+ */
+export function toChatTurns(messages: { role: string; content?: unknown }[]): {
+	system: string
+	turns: ChatTurn[]
+} {
+	const systemParts: string[] = []
+	const turns: ChatTurn[] = []
+	for (const message of messages) {
+		const content =
+			typeof message.content === "string" ? message.content.trim() : ""
+		if (!content) continue
+		// Leading system messages become the system prompt, later ones are sent as user turns
+		if (message.role === "system" && !turns.length) {
+			systemParts.push(content)
+			continue
+		}
+		const role = message.role === "assistant" ? "assistant" : "user"
+		const previous = turns[turns.length - 1]
+		// Consecutive turns of the same role (e.g. group chats) are merged
+		if (previous?.role === role) {
+			previous.content += "\n\n" + content
+		} else {
+			turns.push({ role, content })
+		}
+	}
+	if (turns[0]?.role !== "user") {
+		turns.unshift({ role: "user", content: CONVERSATION_START })
+	}
+	return { system: systemParts.join("\n\n"), turns }
+}
+
+export function getApiErrorMessage(apiName: string, e: any): string {
+	let errorMsg = `${apiName} API error.`
+	if (e?.response?.status) {
+		errorMsg += ` Status: ${e.response.status}.`
+	}
+	// Streamed requests don't parse the error body
+	const message = e?.response?.data?.error?.message || e?.message
+	if (message) {
+		errorMsg += ` Message: ${message}`
+	}
+	return errorMsg
+}
+
+/**
+ * Stream a completion from a server-sent events response. Each `data:` payload
+ * is passed to getText, which may throw for error events. Failures are reported
+ * through the callback like the other adapters do.
+ */
+export function streamServerSentEvents({
+	apiName,
+	request,
+	getText,
+	isAborting
+}: {
+	apiName: string
+	request: () => Promise<{ data: any }>
+	getText: (data: any) => string
+	isAborting: () => boolean
+}) {
+	return async (cb: (chunk: string) => void) => {
+		try {
+			const response = await request()
+			let buffer = ""
+			for await (const chunk of Readable.from(response.data)) {
+				if (isAborting()) break
+				buffer += chunk.toString()
+				const lines = buffer.split(/\r?\n/)
+				buffer = lines.pop() || ""
+				for (const line of lines) {
+					const trimmed = line.trim()
+					// Event names are repeated in the data
+					if (!trimmed.startsWith("data:")) continue
+					let data: any
+					try {
+						data = JSON.parse(trimmed.slice(5).trim())
+					} catch (err) {
+						continue
+					}
+					const text = getText(data)
+					if (text) cb(text)
+				}
+			}
+		} catch (e: any) {
+			if (isAborting() || axios.isCancel(e)) return
+			console.error(`[${apiName}Adapter] Stream error:`, e)
+			cb("FAILURE: " + getApiErrorMessage(apiName, e))
+		}
+	}
+}
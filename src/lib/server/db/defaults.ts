@@ -1,6 +1,7 @@
 import { eq, sql } from "drizzle-orm"
 import { db } from "."
 import * as schema from "./schema"
+import { PromptFormats } from "../../shared/constants/PromptFormats"
 
 export async function sync() {
 	console.log("Syncing database defaults...")
@@ -102,6 +103,13 @@ Story history:
 \`\`\`
 {{/if}}
 
+{{#if summary}}
+Summary of earlier events:
+"""
+{{{summary}}}
+"""
+{{/if}}
+
 {{#if exampleDialogue}}
 Example dialogue:
 """
@@ -121,6 +129,11 @@ Example dialogue:
 {{{name}}}: {{{message}}}
 {{/userBlock}}
 {{/if}}
+{{#if (eq role "system")}}
+{{#systemBlock}}
+{{{message}}}
+{{/systemBlock}}
+{{/if}}
 {{/each}}
 
 {{#if postHistoryInstructions}}
@@ -264,6 +277,218 @@ Example dialogue:
 
 		await Promise.all(promptConfigQueries)
 
+		// Instruct Templates
+
+		const existingInstructTemplates =
+			await db.query.instructTemplates.findMany()
+
+		const roleStopSequences = [
+			"system:",
+			"System:",
+			"user:",
+			"User:",
+			"assistant:",
+			"Assistant:"
+		]
+
+		const defaultInstructTemplates: Partial<SelectInstructTemplate>[] = [
+			{
+				id: 1,
+				key: PromptFormats.VICUNA,
+				name: "Vicuna (Default)",
+				isImmutable: true,
+				systemPrefix: "### System:\n",
+				systemSuffix: "\n",
+				userPrefix: "### User:\n",
+				userSuffix: "\n",
+				assistantPrefix: "### Assistant:\n",
+				assistantSuffix: "\n",
+				stopSequences: ["</s>", ...roleStopSequences]
+			},
+			{
+				id: 2,
+				key: PromptFormats.CHATML,
+				name: "ChatML",
+				isImmutable: true,
+				systemPrefix: "<|im_start|>system\n",
+				systemSuffix: "<|im_end|>\n",
+				userPrefix: "<|im_start|>user\n",
+				userSuffix: "<|im_end|>\n",
+				assistantPrefix: "<|im_start|>assistant\n",
+				assistantSuffix: "<|im_end|>\n",
+				stopSequences: ["<|im_end|>", ...roleStopSequences]
+			},
+			{
+				id: 3,
+				key: PromptFormats.BASIC,
+				name: "Basic / Legacy",
+				isImmutable: true,
+				systemPrefix: "*** system\n",
+				systemSuffix: "\n\n",
+				userPrefix: "*** user\n",
+				userSuffix: "\n\n",
+				assistantPrefix: "*** assistant\n",
+				assistantSuffix: "\n\n",
+				stopSequences: roleStopSequences
+			},
+			{
+				id: 4,
+				key: PromptFormats.OPENAI,
+				name: "OpenAI",
+				isImmutable: true,
+				systemPrefix: "<|system|>\n",
+				systemSuffix: "\n",
+				userPrefix: "<|user|>\n",
+				userSuffix: "\n",
+				assistantPrefix: "<|assistant|>\n",
+				assistantSuffix: "\n",
+				stopSequences: roleStopSequences
+			},
+			{
+				id: 5,
+				key: PromptFormats.LLAMA2_INST,
+				name: "LLaMA2/Mistral Instruct",
+				isImmutable: true,
+				systemPrefix: "<s>[INST] <<SYS>>\n",
+				systemSuffix: "\n<</SYS>> [/INST]></s>\n",
+				userPrefix: "<s>\n",
+				userSuffix: "\n</s>\n",
+				assistantPrefix: "<s>\n",
+				assistantSuffix: "\n</s>\n",
+				stopSequences: ["</s>", "User:", "Assistant:", "System:"]
+			},
+			{
+				id: 6,
+				key: PromptFormats.CLAUDE,
+				name: "Claude (Human/Assistant)",
+				isImmutable: true,
+				systemPrefix: "\nAssistant: ",
+				systemSuffix: "\n",
+				userPrefix: "Human: ",
+				userSuffix: "\n",
+				assistantPrefix: "\nAssistant: ",
+				assistantSuffix: "\n",
+				stopSequences: roleStopSequences
+			},
+			{
+				id: 7,
+				key: PromptFormats.INSTRUCT,
+				name: "Instruct (Alpaca)",
+				isImmutable: true,
+				systemPrefix: "### Instruction:\n",
+				systemSuffix: "\n### Response:\n",
+				userPrefix: "### Instruction:\n",
+				userSuffix: "\n### Response:\n",
+				assistantPrefix: "### Instruction:\n",
+				assistantSuffix: "\n### Response:\n",
+				stopSequences: roleStopSequences
+			},
+			{
+				id: 8,
+				key: PromptFormats.TEKKEN,
+				name: "Mistral V7 Tekken",
+				isImmutable: true,
+				eos: "</s>",
+				systemPrefix: "[SYSTEM_PROMPT]",
+				systemSuffix: "[/SYSTEM_PROMPT]",
+				userPrefix: "[INST]",
+				userSuffix: "[/INST]",
+				stopSequences: []
+			},
+			{
+				id: 9,
+				key: PromptFormats.LLAMA3,
+				name: "Llama 3",
+				isImmutable: true,
+				systemPrefix: "<|start_header_id|>system<|end_header_id|>\n\n",
+				systemSuffix: "<|eot_id|>",
+				userPrefix: "<|start_header_id|>user<|end_header_id|>\n\n",
+				userSuffix: "<|eot_id|>",
+				assistantPrefix:
+					"<|start_header_id|>assistant<|end_header_id|>\n\n",
+				assistantSuffix: "<|eot_id|>",
+				stopSequences: ["<|eot_id|>", "<|end_of_text|>"]
+			},
+			{
+				id: 10,
+				key: PromptFormats.GEMMA,
+				name: "Gemma",
+				isImmutable: true,
+				systemAsUser: true,
+				userPrefix: "<start_of_turn>user\n",
+				userSuffix: "<end_of_turn>\n",
+				assistantPrefix: "<start_of_turn>model\n",
+				assistantSuffix: "<end_of_turn>\n",
+				stopSequences: ["<end_of_turn>"]
+			},
+			{
+				id: 11,
+				key: PromptFormats.PHI3,
+				name: "Phi-3",
+				isImmutable: true,
+				systemPrefix: "<|system|>\n",
+				systemSuffix: "<|end|>\n",
+				userPrefix: "<|user|>\n",
+				userSuffix: "<|end|>\n",
+				assistantPrefix: "<|assistant|>\n",
+				assistantSuffix: "<|end|>\n",
+				stopSequences: ["<|end|>", "<|endoftext|>"]
+			},
+			{
+				id: 12,
+				key: PromptFormats.COMMAND_R,
+				name: "Command-R",
+				isImmutable: true,
+				systemPrefix: "<|START_OF_TURN_TOKEN|><|SYSTEM_TOKEN|>",
+				systemSuffix: "<|END_OF_TURN_TOKEN|>",
+				userPrefix: "<|START_OF_TURN_TOKEN|><|USER_TOKEN|>",
+				userSuffix: "<|END_OF_TURN_TOKEN|>",
+				assistantPrefix: "<|START_OF_TURN_TOKEN|><|CHATBOT_TOKEN|>",
+				assistantSuffix: "<|END_OF_TURN_TOKEN|>",
+				stopSequences: ["<|END_OF_TURN_TOKEN|>"]
+			},
+			{
+				id: 13,
+				key: PromptFormats.DEEPSEEK,
+				name: "DeepSeek",
+				isImmutable: true,
+				eos: "<｜end▁of▁sentence｜>",
+				systemSuffix: "\n\n",
+				userPrefix: "<｜User｜>",
+				assistantPrefix: "<｜Assistant｜>",
+				stopSequences: ["<｜User｜>"]
+			}
+		]
+
+		const instructTemplateQueries: Promise<any>[] = []
+
+		defaultInstructTemplates.forEach((data) => {
+			const found = existingInstructTemplates.find(
+				(c) => c.id === data.id
+			)
+
+			if (!found) {
+				instructTemplateQueries.push(
+					db
+						.insert(schema.instructTemplates)
+						.values(data as InsertInstructTemplate)
+				)
+			} else {
+				instructTemplateQueries.push(
+					db
+						.update(schema.instructTemplates)
+						.set({
+							...data,
+							// @ts-ignore
+							id: undefined
+						})
+						.where(eq(schema.instructTemplates.id, found.id))
+				)
+			}
+		})
+
+		await Promise.all(instructTemplateQueries)
+
 		// Users
 
 		const existingUsers = await db.query.users.findMany()
@@ -325,6 +550,7 @@ Example dialogue:
 		"connections",
 		"context_configs",
 		"history_entries",
+		"instruct_templates",
 		"lorebooks",
 		"lorebook_bindings",
 		"world_lore_entries",
@@ -6,42 +6,54 @@ import {
 	real,
 	boolean,
 	uniqueIndex,
+	index,
 	json,
-	date
+	date,
+	timestamp,
+	type AnyPgColumn
 } from "drizzle-orm/pg-core"
 import { GroupReplyStrategies } from "../../shared/constants/GroupReplyStrategies"
 import { ChatCharacterVisibility } from "../../shared/constants/ChatCharacterVisibility"
+import { LoreMatchingStrategies } from "../../shared/constants/LoreMatchingStrategies"
+import { Samplers } from "../../shared/constants/Samplers"
 
-export const users = pgTable("users", {
-	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
-	username: text("username").notNull(),
-	activeConnectionId: integer("active_connection_id").references(
-		() => connections.id,
-		{
-			onDelete: "set null"
-		}
-	),
-	activeSamplingConfigId: integer("active_sampling_id").references(
-		() => samplingConfigs.id,
-		{
-			onDelete: "set null"
-		}
-	),
-	activeContextConfigId: integer("active_context_config_id").references(
-		() => contextConfigs.id,
-		{
-			onDelete: "set null"
-		}
-	),
-	activePromptConfigId: integer("active_prompt_config_id").references(
-		() => promptConfigs.id,
-		{
-			onDelete: "set null"
-		}
-	),
-	theme: text("theme").notNull().default("hamlindigo"),
-	darkMode: boolean("dark_mode").notNull().default(true)
-})
+export const users = pgTable(
+	"users",
+	{
+		id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+		username: text("username").notNull(),
+		passwordHash: text("password_hash"), // scrypt hash, null until the account has been claimed
+		activeConnectionId: integer("active_connection_id").references(
+			() => connections.id,
+			{
+				onDelete: "set null"
+			}
+		),
+		activeSamplingConfigId: integer("active_sampling_id").references(
+			() => samplingConfigs.id,
+			{
+				onDelete: "set null"
+			}
+		),
+		activeContextConfigId: integer("active_context_config_id").references(
+			() => contextConfigs.id,
+			{
+				onDelete: "set null"
+			}
+		),
+		activePromptConfigId: integer("active_prompt_config_id").references(
+			() => promptConfigs.id,
+			{
+				onDelete: "set null"
+			}
+		),
+		theme: text("theme").notNull().default("hamlindigo"),
+		darkMode: boolean("dark_mode").notNull().default(true)
+	},
+	(table) => ({
+		uniqueUsername: uniqueIndex("users_username_unique").on(table.username)
+	})
+)
 
 export const userRelations = relations(users, ({ many, one }) => ({
 	lorebooks: many(lorebooks),
@@ -63,12 +75,33 @@ export const userRelations = relations(users, ({ many, one }) => ({
 		fields: [users.activePromptConfigId],
 		references: [promptConfigs.id]
 	}),
-	personas: many(personas)
+	personas: many(personas),
+	sessions: many(sessions)
+}))
+
+// Login sessions, the id is a sha256 hash of the cookie token
+export const sessions = pgTable("sessions", {
+	id: text("id").primaryKey(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	expiresAt: timestamp("expires_at", { mode: "date" }).notNull(),
+	createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow()
+})
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+	user: one(users, {
+		fields: [sessions.userId],
+		references: [users.id]
+	})
 }))
 
 export const samplingConfigs = pgTable("sampling_configs", {
 	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
 	name: text("name").notNull(), // Name for this sampling config (for selection)
+	userId: integer("user_id").references((): AnyPgColumn => users.id, {
+		onDelete: "cascade"
+	}), // Null for the built-in configs shared by everyone
 	isImmutable: boolean("is_immutable").notNull().default(false), // Is this the built-in config? Then we don't want to allow mutation/deletion
 
 	// Tuned defaults for roleplay:
@@ -114,7 +147,78 @@ export const samplingConfigs = pgTable("sampling_configs", {
 		.default(false), // Allow for context window expansion
 
 	seed: integer("seed").default(-1), // -1 for random, can be used for deterministic sampling
-	seedEnabled: boolean("seed_enabled").notNull().default(false)
+	seedEnabled: boolean("seed_enabled").notNull().default(false),
+
+	// Extended samplers, mostly for local backends. Adapters drop the ones their backend doesn't support
+	minP: real("min_p").default(0.05), // Drops tokens far less likely than the top choice
+	minPEnabled: boolean("min_p_enabled").notNull().default(false),
+
+	typicalP: real("typical_p").default(1),
+	typicalPEnabled: boolean("typical_p_enabled").notNull().default(false),
+
+	tfs: real("tfs").default(1), // Tail free sampling, 1 = off
+	tfsEnabled: boolean("tfs_enabled").notNull().default(false),
+
+	topA: real("top_a").default(0),
+	topAEnabled: boolean("top_a_enabled").notNull().default(false),
+
+	repetitionPenaltyRange: integer("repetition_penalty_range").default(64), // How many recent tokens the repetition penalty looks at
+	repetitionPenaltyRangeEnabled: boolean("repetition_penalty_range_enabled")
+		.notNull()
+		.default(false),
+
+	mirostat: integer("mirostat").default(0), // 0 = off, 1 = Mirostat, 2 = Mirostat 2.0
+	mirostatEnabled: boolean("mirostat_enabled").notNull().default(false),
+	mirostatTau: real("mirostat_tau").default(5),
+	mirostatTauEnabled: boolean("mirostat_tau_enabled")
+		.notNull()
+		.default(false),
+	mirostatEta: real("mirostat_eta").default(0.1),
+	mirostatEtaEnabled: boolean("mirostat_eta_enabled")
+		.notNull()
+		.default(false),
+
+	dryMultiplier: real("dry_multiplier").default(0.8), // Penalizes repeating sequences, 0 = off
+	dryMultiplierEnabled: boolean("dry_multiplier_enabled")
+		.notNull()
+		.default(false),
+	dryBase: real("dry_base").default(1.75),
+	dryBaseEnabled: boolean("dry_base_enabled").notNull().default(false),
+	dryAllowedLength: integer("dry_allowed_length").default(2),
+	dryAllowedLengthEnabled: boolean("dry_allowed_length_enabled")
+		.notNull()
+		.default(false),
+	drySequenceBreakers: json("dry_sequence_breakers")
+		.$type<string[]>()
+		.default(["\n", ":", '"', "*"]),
+	drySequenceBreakersEnabled: boolean("dry_sequence_breakers_enabled")
+		.notNull()
+		.default(false),
+
+	xtcThreshold: real("xtc_threshold").default(0.1), // Removes the most likely tokens above the threshold
+	xtcThresholdEnabled: boolean("xtc_threshold_enabled")
+		.notNull()
+		.default(false),
+	xtcProbability: real("xtc_probability").default(0.5),
+	xtcProbabilityEnabled: boolean("xtc_probability_enabled")
+		.notNull()
+		.default(false),
+
+	dynatempRange: real("dynatemp_range").default(0), // Temperature varies by +/- this range, 0 = off
+	dynatempRangeEnabled: boolean("dynatemp_range_enabled")
+		.notNull()
+		.default(false),
+	dynatempExponent: real("dynatemp_exponent").default(1),
+	dynatempExponentEnabled: boolean("dynatemp_exponent_enabled")
+		.notNull()
+		.default(false),
+
+	samplerOrder: json("sampler_order")
+		.$type<string[]>()
+		.default(Samplers.defaultOrder), // See Samplers
+	samplerOrderEnabled: boolean("sampler_order_enabled")
+		.notNull()
+		.default(false)
 })
 
 export const samplingRelations = relations(samplingConfigs, () => ({}))
@@ -122,6 +226,9 @@ export const samplingRelations = relations(samplingConfigs, () => ({}))
 export const connections = pgTable("connections", {
 	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
 	name: text("name").notNull(), // Connection name (e.g., ollama, llama, chatgpt)
+	userId: integer("user_id")
+		.notNull()
+		.references((): AnyPgColumn => users.id, { onDelete: "cascade" }),
 	type: text("type").notNull(), // Connection type/category (e.g., ollama, chatgpt, etc)
 	baseUrl: text("base_url"), // Base URL or endpoint for API
 	model: text("model"), // Model name or identifier
@@ -138,6 +245,9 @@ export const connectionsRelations = relations(connections, () => ({}))
 
 export const contextConfigs = pgTable("context_configs", {
 	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+	userId: integer("user_id").references((): AnyPgColumn => users.id, {
+		onDelete: "cascade"
+	}), // Null for the built-in configs shared by everyone
 	isImmutable: boolean("is_immutable").notNull().default(false),
 	name: text("name").notNull(),
 	template: text("template") // Sillytavern storyString
@@ -147,6 +257,9 @@ export const contextConfigsRelations = relations(contextConfigs, () => ({}))
 
 export const promptConfigs = pgTable("prompt_configs", {
 	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+	userId: integer("user_id").references((): AnyPgColumn => users.id, {
+		onDelete: "cascade"
+	}), // Null for the built-in configs shared by everyone
 	isImmutable: boolean("is_immutable").notNull().default(false),
 	name: text("name").notNull(),
 	systemPrompt: text("system_prompt").notNull() // Maps to sillytavern sysPrompt.content
@@ -154,6 +267,36 @@ export const promptConfigs = pgTable("prompt_configs", {
 
 export const promptConfigsRelations = relations(promptConfigs, () => ({}))
 
+export const instructTemplates = pgTable("instruct_templates", {
+	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+	key: text("key").notNull().unique(), // Referenced by connections.promptFormat
+	userId: integer("user_id").references((): AnyPgColumn => users.id, {
+		onDelete: "cascade"
+	}), // Null for the built-in templates shared by everyone
+	isImmutable: boolean("is_immutable").notNull().default(false),
+	name: text("name").notNull(),
+	bos: text("bos").notNull().default(""), // Prepended once to text completion prompts
+	eos: text("eos").notNull().default(""), // Appended to finished assistant turns, also a stop sequence
+	systemPrefix: text("system_prefix").notNull().default(""),
+	systemSuffix: text("system_suffix").notNull().default(""),
+	userPrefix: text("user_prefix").notNull().default(""),
+	userSuffix: text("user_suffix").notNull().default(""),
+	assistantPrefix: text("assistant_prefix").notNull().default(""),
+	assistantSuffix: text("assistant_suffix").notNull().default(""),
+	firstAssistantPrefix: text("first_assistant_prefix"), // Falls back to assistantPrefix
+	lastAssistantPrefix: text("last_assistant_prefix"), // The open turn being generated, falls back to assistantPrefix
+	systemAsUser: boolean("system_as_user").notNull().default(false), // For models without a system role
+	stopSequences: json("stop_sequences")
+		.$type<string[]>()
+		.notNull()
+		.default([])
+})
+
+export const instructTemplatesRelations = relations(
+	instructTemplates,
+	() => ({})
+)
+
 export const lorebooks = pgTable(
 	"lorebooks",
 	{
@@ -167,6 +310,12 @@ export const lorebooks = pgTable(
 		userId: integer("user_id")
 			.notNull()
 			.references(() => users.id, { onDelete: "cascade" }), // FK to users.id
+		matchingStrategy: text("matching_strategy")
+			.notNull()
+			.default(LoreMatchingStrategies.KEYWORD), // See LoreMatchingStrategies
+		embeddingModel: text("embedding_model"), // Defaults to the connection's model
+		vectorThreshold: real("vector_threshold").notNull().default(0.75), // Minimum cosine similarity
+		vectorMaxResults: integer("vector_max_results").notNull().default(5), // Per lore type
 		createdAt: date("created_at")
 			.notNull()
 			.default(sql`(CURRENT_TIMESTAMP)`),
@@ -187,7 +336,8 @@ export const lorebooksRelations = relations(lorebooks, ({ many, one }) => ({
 		references: [users.id]
 	}),
 	lorebookBindings: many(lorebookBindings),
-	lorebookTags: many(lorebookTags)
+	lorebookTags: many(lorebookTags),
+	loreEntryEmbeddings: many(loreEntryEmbeddings)
 }))
 
 export const lorebookBindings = pgTable(
@@ -353,7 +503,10 @@ export const historyEntriesRelations = relations(historyEntries, ({ one }) => ({
 
 export const tags = pgTable("tags", {
 	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
-	name: text("name").notNull(), // Tag name (unique)
+	name: text("name").notNull(), // Tag name (unique per user)
+	userId: integer("user_id")
+		.notNull()
+		.references((): AnyPgColumn => users.id, { onDelete: "cascade" }),
 	description: text("description"),
 	colorPreset: text("color_preset")
 		.notNull()
@@ -478,6 +631,13 @@ export const characters = pgTable("characters", {
 	>(),
 	groupOnlyGreetings: json("group_only_greetings").$type<string[]>(), // JSON array of greetings for group chats
 	postHistoryInstructions: text("post_history_instructions"), // Instructions for post-history processing
+	systemPrompt: text("system_prompt"), // Replaces the prompt config's system prompt, {{original}} inserts it
+	depthPrompt: text("depth_prompt"), // Inserted into the chat history, see depthPromptDepth
+	depthPromptDepth: integer("depth_prompt_depth").notNull().default(4), // Messages from the end of history
+	depthPromptRole: text("depth_prompt_role")
+		.notNull()
+		.default("system")
+		.$type<"system" | "user" | "assistant">(),
 	source: json("source").notNull().default([]).$type<string[]>(), // JSON array of sources (e.g., URLs, books)
 	assets: json("assets").notNull().default([]).$type<
 		Array<{
@@ -573,7 +733,51 @@ export const chats = pgTable("chats", {
 	),
 	lorebookId: integer("lorebook_id").references(() => lorebooks.id, {
 		onDelete: "set null"
-	}) // Primary lorebook for this chat
+	}), // Primary lorebook for this chat
+	parentChatId: integer("parent_chat_id").references(
+		(): AnyPgColumn => chats.id,
+		{ onDelete: "set null" }
+	), // Chat this one was forked from
+	forkedFromMessageId: integer("forked_from_message_id").references(
+		(): AnyPgColumn => chatMessages.id,
+		{ onDelete: "set null" }
+	), // Message in the parent chat the fork was made at
+	authorsNote: text("authors_note"), // Inserted into the chat history, see authorsNoteDepth
+	authorsNoteDepth: integer("authors_note_depth").notNull().default(4), // Messages from the end of history
+	authorsNoteRole: text("authors_note_role")
+		.notNull()
+		.default("system")
+		.$type<"system" | "user" | "assistant">(),
+	authorsNoteFrequency: integer("authors_note_frequency")
+		.notNull()
+		.default(1), // Every N user turns, 0 disables the note
+	injections: json("injections").notNull().default([]).$type<
+		Array<{
+			content: string
+			depth: number
+			role: "system" | "user" | "assistant"
+		}>
+	>(), // Always inserted at their depth
+	// Overrides of the user's active configs, null uses the user's
+	connectionId: integer("connection_id").references(() => connections.id, {
+		onDelete: "set null"
+	}),
+	samplingConfigId: integer("sampling_config_id").references(
+		() => samplingConfigs.id,
+		{ onDelete: "set null" }
+	),
+	contextConfigId: integer("context_config_id").references(
+		() => contextConfigs.id,
+		{ onDelete: "set null" }
+	),
+	promptConfigId: integer("prompt_config_id").references(
+		() => promptConfigs.id,
+		{ onDelete: "set null" }
+	),
+	// Auto-play, characters taking turns without the user
+	autoPlayDelay: integer("auto_play_delay").notNull().default(3), // Seconds between turns
+	autoPlayMaxTurns: integer("auto_play_max_turns").notNull().default(20),
+	autoPlayTokenBudget: integer("auto_play_token_budget").notNull().default(0) // Tokens the replies may use, 0 for no limit
 })
 
 export const chatsRelations = relations(chats, ({ one, many }) => ({
@@ -588,7 +792,30 @@ export const chatsRelations = relations(chats, ({ one, many }) => ({
 		fields: [chats.lorebookId],
 		references: [lorebooks.id]
 	}),
-	chatTags: many(chatTags)
+	chatTags: many(chatTags),
+	chatSummaries: many(chatSummaries),
+	connection: one(connections, {
+		fields: [chats.connectionId],
+		references: [connections.id]
+	}),
+	samplingConfig: one(samplingConfigs, {
+		fields: [chats.samplingConfigId],
+		references: [samplingConfigs.id]
+	}),
+	contextConfig: one(contextConfigs, {
+		fields: [chats.contextConfigId],
+		references: [contextConfigs.id]
+	}),
+	promptConfig: one(promptConfigs, {
+		fields: [chats.promptConfigId],
+		references: [promptConfigs.id]
+	}),
+	parentChat: one(chats, {
+		fields: [chats.parentChatId],
+		references: [chats.id],
+		relationName: "chatForks"
+	}),
+	childChats: many(chats, { relationName: "chatForks" })
 }))
 
 // Chat messages
@@ -626,10 +853,16 @@ export const chatMessages = pgTable(
 		adapterId: text("adapter_id"), // UUID for in-flight adapter instance, nullable
 		isHidden: boolean("is_hidden").notNull().default(false) // Whether this message is processed or not
 	},
-	(table) => ({})
+	(table) => ({
+		// Full-text search, queries must use the same to_tsvector expression
+		contentSearch: index("chat_messages_content_search_idx").using(
+			"gin",
+			sql`to_tsvector('english', ${table.content})`
+		)
+	})
 )
 
-export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+export const chatMessagesRelations = relations(chatMessages, ({ one, many }) => ({
 	chat: one(chats, {
 		fields: [chatMessages.chatId],
 		references: [chats.id]
@@ -645,6 +878,78 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
 	persona: one(personas, {
 		fields: [chatMessages.personaId],
 		references: [personas.id]
+	}),
+	prompts: many(chatMessagePrompts)
+}))
+
+// Compiled prompt + generation snapshot for each assistant message swipe
+export const chatMessagePrompts = pgTable(
+	"chat_message_prompts",
+	{
+		id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+		chatMessageId: integer("chat_message_id")
+			.notNull()
+			.references(() => chatMessages.id, { onDelete: "cascade" }),
+		swipeIdx: integer("swipe_idx").notNull().default(0), // Index into metadata.swipes.history, 0 if no swipes
+		prompt: text("prompt"), // Rendered text prompt, null for chat completions
+		messages: json("messages").$type<any[]>(), // Rendered messages array, null for text completions
+		meta: json("meta").notNull().default({}).$type<Record<string, any>>(), // CompiledPrompt meta (token counts, included ids, sources)
+		connection: json("connection")
+			.notNull()
+			.default({})
+			.$type<Record<string, any>>(), // Connection snapshot, without credentials
+		sampling: json("sampling")
+			.notNull()
+			.default({})
+			.$type<Record<string, any>>(), // Sampling config snapshot
+		timings: json("timings").notNull().default({}).$type<{
+			startedAt?: string
+			firstTokenAt?: string | null
+			finishedAt?: string
+			durationMs?: number
+		}>(),
+		isAborted: boolean("is_aborted").notNull().default(false),
+		createdAt: date("created_at")
+			.notNull()
+			.default(sql`(CURRENT_TIMESTAMP)`)
+	},
+	(table) => ({
+		uniqueSwipe: uniqueIndex("chat_message_prompts_unique").on(
+			table.chatMessageId,
+			table.swipeIdx
+		)
+	})
+)
+
+export const chatMessagePromptsRelations = relations(
+	chatMessagePrompts,
+	({ one }) => ({
+		chatMessage: one(chatMessages, {
+			fields: [chatMessagePrompts.chatMessageId],
+			references: [chatMessages.id]
+		})
+	})
+)
+
+// Rolling summaries of chat messages that no longer fit in the prompt
+export const chatSummaries = pgTable("chat_summaries", {
+	id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+	chatId: integer("chat_id")
+		.notNull()
+		.references(() => chats.id, { onDelete: "cascade" }),
+	startMessageId: integer("start_message_id").notNull(), // First message covered (inclusive)
+	endMessageId: integer("end_message_id").notNull(), // Last message covered (inclusive)
+	messageCount: integer("message_count").notNull().default(0),
+	content: text("content").notNull(),
+	createdAt: date("created_at")
+		.notNull()
+		.default(sql`(CURRENT_TIMESTAMP)`)
+})
+
+export const chatSummariesRelations = relations(chatSummaries, ({ one }) => ({
+	chat: one(chats, {
+		fields: [chatSummaries.chatId],
+		references: [chats.id]
 	})
 }))
 
@@ -689,7 +994,25 @@ export const chatCharacters = pgTable(
 		position: integer("position").default(0), // Position in the chat
 		isActive: boolean("is_active").notNull().default(true), // 1 if active in chat, 0 if not
 		// Character visibility optimization setting
-		visibility: text("visibility").notNull().default(ChatCharacterVisibility.VISIBLE) // Controls how much character info is shown when not responding
+		visibility: text("visibility").notNull().default(ChatCharacterVisibility.VISIBLE), // Controls how much character info is shown when not responding
+		talkativeness: real("talkativeness").notNull().default(0.5), // 0-1 chance to chime in, see GroupReplyStrategies.NATURAL
+		// Overrides of the chat's configs for this character, null uses the chat's
+		connectionId: integer("connection_id").references(
+			() => connections.id,
+			{ onDelete: "set null" }
+		),
+		samplingConfigId: integer("sampling_config_id").references(
+			() => samplingConfigs.id,
+			{ onDelete: "set null" }
+		),
+		contextConfigId: integer("context_config_id").references(
+			() => contextConfigs.id,
+			{ onDelete: "set null" }
+		),
+		promptConfigId: integer("prompt_config_id").references(
+			() => promptConfigs.id,
+			{ onDelete: "set null" }
+		)
 	},
 	(table) => ({
 		pk: uniqueIndex("chat_characters_pk").on(
@@ -707,6 +1030,22 @@ export const chatCharactersRelations = relations(chatCharacters, ({ one }) => ({
 	character: one(characters, {
 		fields: [chatCharacters.characterId],
 		references: [characters.id]
+	}),
+	connection: one(connections, {
+		fields: [chatCharacters.connectionId],
+		references: [connections.id]
+	}),
+	samplingConfig: one(samplingConfigs, {
+		fields: [chatCharacters.samplingConfigId],
+		references: [samplingConfigs.id]
+	}),
+	contextConfig: one(contextConfigs, {
+		fields: [chatCharacters.contextConfigId],
+		references: [contextConfigs.id]
+	}),
+	promptConfig: one(promptConfigs, {
+		fields: [chatCharacters.promptConfigId],
+		references: [promptConfigs.id]
 	})
 }))
 
@@ -758,3 +1097,39 @@ export const systemSettings = pgTable("system_settings", {
 		.default(true),
 	showHomePageBanner: boolean("show_home_page_banner").default(true),
 })
+
+// Cached embeddings for world lore, character lore and history entries
+export const loreEntryEmbeddings = pgTable(
+	"lore_entry_embeddings",
+	{
+		id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+		lorebookId: integer("lorebook_id")
+			.notNull()
+			.references(() => lorebooks.id, { onDelete: "cascade" }),
+		entryType: text("entry_type").notNull(), // "worldLore" | "characterLore" | "history"
+		entryId: integer("entry_id").notNull(),
+		model: text("model").notNull(),
+		contentHash: text("content_hash").notNull(), // Recompute when the entry text changes
+		embedding: json("embedding").notNull().$type<number[]>(),
+		createdAt: date("created_at")
+			.notNull()
+			.default(sql`(CURRENT_TIMESTAMP)`)
+	},
+	(table) => ({
+		uniqueEntryModel: uniqueIndex("lore_entry_embeddings_unique").on(
+			table.entryType,
+			table.entryId,
+			table.model
+		)
+	})
+)
+
+export const loreEntryEmbeddingsRelations = relations(
+	loreEntryEmbeddings,
+	({ one }) => ({
+		lorebook: one(lorebooks, {
+			fields: [loreEntryEmbeddings.lorebookId],
+			references: [lorebooks.id]
+		})
+	})
+)
@@ -2,12 +2,30 @@ import { db } from "$lib/server/db"
 import { and, eq } from "drizzle-orm"
 import * as schema from "$lib/server/db/schema"
 import * as fsPromises from "fs/promises"
-import { getCharacterDataDir, handleCharacterAvatarUpload } from "../utils"
+import {
+	getCharacterDataDir,
+	handleCharacterAvatarUpload,
+	saveCharacterAssetFile
+} from "../utils"
 import { CharacterCard, type SpecV3 } from "@lenml/char-card-reader"
 import { fileTypeFromBuffer } from "file-type"
+import {
+	isPng,
+	isZip,
+	readPngTextChunks,
+	readZip
+} from "../utils/cardContainers"
+import {
+	buildCharacterCardExport,
+	PNG_ASSET_CHUNK_PREFIX
+} from "../utils/characterCardExport"
 
 // Helper function to process tags for character creation/update
-async function processCharacterTags(characterId: number, tagNames: string[]) {
+async function processCharacterTags(
+	characterId: number,
+	tagNames: string[],
+	userId: number
+) {
 	if (!tagNames || tagNames.length === 0) return
 
 	// First, remove all existing tags for this character
@@ -23,7 +41,10 @@ async function processCharacterTags(characterId: number, tagNames: string[]) {
 
 		// Check if tag exists
 		let existingTag = await db.query.tags.findFirst({
-			where: eq(schema.tags.name, tagName.trim())
+			where: and(
+				eq(schema.tags.name, tagName.trim()),
+				eq(schema.tags.userId, userId)
+			)
 		})
 
 		// Create tag if it doesn't exist
@@ -31,7 +52,8 @@ async function processCharacterTags(characterId: number, tagNames: string[]) {
 			const [newTag] = await db
 				.insert(schema.tags)
 				.values({
-					name: tagName.trim()
+					name: tagName.trim(),
+					userId
 					// description and colorPreset will use database defaults
 				})
 				.returning()
@@ -77,7 +99,7 @@ export async function characterList(
 				}
 			}
 		},
-		where: (c, { eq }) => eq(c.userId, 1), // TODO: Replace with actual user id
+		where: (c, { eq }) => eq(c.userId, socket.user.id),
 		orderBy: (c, { asc }) => asc(c.id)
 	})
 	const res: Sockets.CharacterList.Response = { characterList }
@@ -90,7 +112,8 @@ export async function character(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const character = await db.query.characters.findFirst({
-		where: (c, { eq }) => eq(c.id, message.id),
+		where: (c, { and, eq }) =>
+			and(eq(c.id, message.id), eq(c.userId, socket.user.id)),
 		with: {
 			characterTags: {
 				with: {
@@ -127,12 +150,12 @@ export async function createCharacter(
 
 		const [character] = await db
 			.insert(schema.characters)
-			.values({ ...data, userId: 1 })
+			.values({ ...data, userId: socket.user.id })
 			.returning()
 
 		// Process tags after character creation
 		if (tags.length > 0) {
-			await processCharacterTags(character.id, tags)
+			await processCharacterTags(character.id, tags, socket.user.id)
 		}
 
 		if (message.avatarFile) {
@@ -163,7 +186,7 @@ export async function updateCharacter(
 	try {
 		const data = { ...message.character }
 		const id = data.id
-		const userId = 1 // Replace with actual userId
+		const userId = socket.user.id
 		const tags = data.tags || []
 
 		// Remove fields that shouldn't be in the database update
@@ -183,8 +206,13 @@ export async function updateCharacter(
 			)
 			.returning()
 
+		if (!updated) {
+			emitToUser("error", { error: "Character not found." })
+			return
+		}
+
 		// Process tags after character update
-		await processCharacterTags(id, tags)
+		await processCharacterTags(id, tags, userId)
 
 		if (message.avatarFile) {
 			await handleCharacterAvatarUpload({
@@ -210,7 +238,17 @@ export async function deleteCharacter(
 	message: Sockets.DeleteCharacter.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual userId
+	const userId = socket.user.id
+
+	const existing = await db.query.characters.findFirst({
+		where: (c, { and, eq }) =>
+			and(eq(c.id, message.characterId), eq(c.userId, userId)),
+		columns: { id: true }
+	})
+	if (!existing) {
+		emitToUser("error", { error: "Character not found." })
+		return
+	}
 
 	// Delete character tags first (cascade should handle this, but being explicit)
 	await db
@@ -249,31 +287,65 @@ export async function characterCardImport(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1
+		const userId = socket.user.id
 		let base64 = message.file!
 		if (base64.startsWith("data:")) base64 = base64.split(",")[1]
 		const buffer = Buffer.from(base64, "base64")
 
-		// Check if the file is JSON by trying to parse it as text
+		// Files embedded in the card, keyed by the uri its assets reference them with
+		const embeddedFiles: Record<string, Buffer> = {}
+		let avatarFile: Buffer | null = buffer
+
 		let card: any
-		try {
-			const text = buffer.toString("utf8")
-			const jsonData = JSON.parse(text) // Test if it's valid JSON
-			// If we reach here, it's valid JSON
-			card = await CharacterCard.from_json(jsonData)
-		} catch (jsonError) {
-			// If JSON parsing fails, treat it as a binary file (image with embedded data)
-			card = await CharacterCard.from_file(buffer)
+		if (isZip(buffer)) {
+			// CHARX: card.json plus assets
+			const files = readZip(buffer)
+			const cardJson = files.find((f) => f.name === "card.json")
+			if (!cardJson) throw new Error("CHARX file has no card.json.")
+			for (const file of files) {
+				embeddedFiles[`embeded://${file.name}`] = file.data
+			}
+			card = await CharacterCard.from_json(
+				JSON.parse(cardJson.data.toString("utf8"))
+			)
+			avatarFile = null
+		} else {
+			// Check if the file is JSON by trying to parse it as text
+			try {
+				const text = buffer.toString("utf8")
+				const jsonData = JSON.parse(text) // Test if it's valid JSON
+				// If we reach here, it's valid JSON
+				card = await CharacterCard.from_json(jsonData)
+			} catch (jsonError) {
+				// If JSON parsing fails, treat it as a binary file (image with embedded data)
+				card = await CharacterCard.from_file(buffer)
+				if (isPng(buffer)) {
+					const texts = readPngTextChunks(buffer)
+					for (const [keyword, text] of Object.entries(texts)) {
+						if (!keyword.startsWith(PNG_ASSET_CHUNK_PREFIX)) continue
+						const index = keyword.slice(PNG_ASSET_CHUNK_PREFIX.length)
+						embeddedFiles[`__asset:${index}`] = Buffer.from(
+							text,
+							"base64"
+						)
+					}
+				}
+			}
 		}
 
-		
-
 		const v3Data: SpecV3.CharacterCardV3["data"] = card.toSpecV3().data
+		// Card dates are unix seconds, older exports used milliseconds
+		const cardDate = Number(v3Data.creation_date)
 		const creationDate =
-			v3Data.creation_date && !isNaN(Number(v3Data.creation_date))
-				? new Date(Number(v3Data.creation_date)).toISOString()
+			v3Data.creation_date && !isNaN(cardDate)
+				? new Date(
+						cardDate < 1e12 ? cardDate * 1000 : cardDate
+					).toISOString()
 				: new Date().toISOString()
 
+		// SillyTavern keeps the character's depth prompt in its extensions
+		const depthPrompt = v3Data.extensions?.depth_prompt
+
 		const data: InsertCharacter = {
 			userId,
 			name: v3Data.name || "Imported Character",
@@ -285,15 +357,30 @@ export async function characterCardImport(
 				? v3Data.mes_example.split("<START>")
 				: [],
 			nickname: v3Data.nickname || "",
+			characterVersion: v3Data.character_version || "1.0",
 			alternateGreetings: v3Data.alternate_greetings || [],
 			creatorNotes: v3Data.creator_notes || "",
 			creatorNotesMultilingual: v3Data.creator_notes_multilingual || {},
 			groupOnlyGreetings: v3Data.group_only_greetings || [],
 			postHistoryInstructions: v3Data.post_history_instructions || "",
+			systemPrompt: v3Data.system_prompt || null,
+			depthPrompt: depthPrompt?.prompt || null,
+			depthPromptDepth: Number.isInteger(depthPrompt?.depth)
+				? depthPrompt.depth
+				: 4,
+			depthPromptRole: ["system", "user", "assistant"].includes(
+				depthPrompt?.role
+			)
+				? depthPrompt.role
+				: "system",
 			source: v3Data.source || [],
 			assets: v3Data.assets || [],
 			createdAt: creationDate,
-			extensions: v3Data.extensions || []
+			extensions: v3Data.extensions || {},
+			// Card fields without a column of their own
+			metadata: {
+				creator: v3Data.creator || ""
+			}
 		}
 
 		const [character] = await db
@@ -301,12 +388,43 @@ export async function characterCardImport(
 			.values(data)
 			.returning()
 
+		// Store embedded assets with the character, the main icon becomes the avatar
+		if (Object.keys(embeddedFiles).length) {
+			const assets: typeof character.assets = []
+			for (const asset of character.assets) {
+				const file = embeddedFiles[asset.uri]
+				if (!file) {
+					assets.push(asset)
+				} else if (
+					asset.type === "icon" &&
+					asset.name === "main" &&
+					!avatarFile
+				) {
+					avatarFile = file
+					assets.push({ ...asset, uri: "ccdefault:" })
+				} else {
+					const uri = await saveCharacterAssetFile({
+						characterId: character.id,
+						userId,
+						fileName: `${asset.name}.${asset.ext}`,
+						data: file
+					})
+					assets.push({ ...asset, uri })
+				}
+			}
+			await db
+				.update(schema.characters)
+				.set({ assets })
+				.where(eq(schema.characters.id, character.id))
+			character.assets = assets
+		}
+
 		// Handle tags
 
 		const tagsNames: string[] = v3Data.tags || []
 
 		if (tagsNames.length > 0) {
-			await processCharacterTags(character.id, tagsNames)
+			await processCharacterTags(character.id, tagsNames, userId)
 		}
 
 		// Extract file extension and check if it's a supported image type
@@ -325,13 +443,9 @@ export async function characterCardImport(
 			}
 		}
 
-		async function detectMimeType(base64: string) {
-			const buffer = Buffer.from(base64, "base64")
-			const result = await fileTypeFromBuffer(buffer)
-			return result ? result.mime : null
-		}
-
-		const mimeType = await detectMimeType(base64)
+		const mimeType = avatarFile
+			? (await fileTypeFromBuffer(avatarFile))?.mime || null
+			: null
 
 		const supportedMimeTypes = [
 			"image/png",
@@ -341,10 +455,10 @@ export async function characterCardImport(
 			"image/gif",
 			"image/webp"
 		]
-		if (supportedMimeTypes.includes(mimeType || "")) {
+		if (avatarFile && supportedMimeTypes.includes(mimeType || "")) {
 			await handleCharacterAvatarUpload({
-				character,
-				avatarFile: buffer
+				character: { ...character, avatarType: mimeType },
+				avatarFile
 			})
 		}
 
@@ -354,7 +468,7 @@ export async function characterCardImport(
 			Array.isArray(v3Data.tags) &&
 			v3Data.tags.length > 0
 		) {
-			await processCharacterTags(character.id, v3Data.tags)
+			await processCharacterTags(character.id, v3Data.tags, userId)
 		}
 
 		const res: Sockets.CharacterCardImport.Response = {
@@ -370,3 +484,35 @@ export async function characterCardImport(
 		})
 	}
 }
+
+export async function characterCardExport(
+	socket: any,
+	message: Sockets.CharacterCardExport.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	try {
+		const userId = socket.user.id
+		const exported = await buildCharacterCardExport(
+			message.id,
+			userId,
+			message.format
+		)
+		if (!exported) {
+			return socket.emit("error", { error: "Character not found." })
+		}
+		const res: Sockets.CharacterCardExport.Response = {
+			characterId: message.id,
+			format: message.format,
+			fileName: exported.fileName,
+			mimeType: exported.mimeType,
+			file: exported.data.toString("base64")
+		}
+		// Only the requesting client downloads the file
+		socket.emit("characterCardExport", res)
+	} catch (e: any) {
+		console.error("Error exporting character card:", e)
+		socket.emit("error", {
+			error: e.message || "Failed to export character card."
+		})
+	}
+}
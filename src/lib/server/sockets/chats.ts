@@ -1,17 +1,126 @@
 import { db } from "$lib/server/db"
 import * as schema from "$lib/server/db/schema"
-import { and, asc, eq, inArray } from "drizzle-orm"
+import { and, asc, desc, eq, gte, inArray, lte, sql } from "drizzle-orm"
 import { generateResponse } from "../utils/generateResponse"
-import { getNextCharacterTurn } from "$lib/server/utils/getNextCharacterTurn"
+import {
+	activeImpersonations,
+	generateImpersonation
+} from "../utils/generateImpersonation"
+import {
+	getNextCharacterTurn,
+	type TurnChat
+} from "$lib/server/utils/getNextCharacterTurn"
+import { askNextCharacterTurn } from "../utils/askNextCharacterTurn"
+import {
+	getChatAutoPlay,
+	pauseChatAutoPlay,
+	startChatAutoPlay,
+	stopChatAutoPlay
+} from "../utils/autoPlay"
+import { buildChatExport } from "../utils/chatExport"
 import type { BaseConnectionAdapter } from "../connectionAdapters/BaseConnectionAdapter"
 import { getConnectionAdapter } from "../utils/getConnectionAdapter"
-import { TokenCounters } from "$lib/server/utils/TokenCounterManager"
+import { resolveContextBudget } from "../utils/contextBudget"
+import { resolveChatConfigs, type ChatConfigs } from "../utils/chatConfigs"
 import { GroupReplyStrategies } from "$lib/shared/constants/GroupReplyStrategies"
+import { InjectionRoles } from "$lib/shared/constants/InjectionRoles"
 import { InterpolationEngine } from "../utils/promptBuilder"
 import { dev } from "$app/environment"
 
+// Helper to make sure every character, persona and lorebook a chat references belongs to the user
+async function userOwnsChatRefs({
+	userId,
+	characterIds = [],
+	personaIds = [],
+	lorebookId
+}: {
+	userId: number
+	characterIds?: number[]
+	personaIds?: number[]
+	lorebookId?: number | null
+}): Promise<boolean> {
+	if (characterIds.length) {
+		const owned = await db.query.characters.findMany({
+			where: (c, { and, eq, inArray }) =>
+				and(inArray(c.id, characterIds), eq(c.userId, userId)),
+			columns: { id: true }
+		})
+		if (owned.length !== new Set(characterIds).size) return false
+	}
+	if (personaIds.length) {
+		const owned = await db.query.personas.findMany({
+			where: (p, { and, eq, inArray }) =>
+				and(inArray(p.id, personaIds), eq(p.userId, userId)),
+			columns: { id: true }
+		})
+		if (owned.length !== new Set(personaIds).size) return false
+	}
+	if (lorebookId) {
+		const owned = await db.query.lorebooks.findFirst({
+			where: (l, { and, eq }) =>
+				and(eq(l.id, lorebookId), eq(l.userId, userId)),
+			columns: { id: true }
+		})
+		if (!owned) return false
+	}
+	return true
+}
+
+const INJECTION_ROLES: string[] = InjectionRoles.options.map((o) => o.value)
+
+// Whole number of messages from the end of history, null if it isn't a number
+function toInjectionDepth(depth: unknown): number | null {
+	if (typeof depth !== "number" || !Number.isFinite(depth)) return null
+	return Math.max(Math.floor(depth), 0)
+}
+
+// Helper to check the author's note and injections before they reach the prompt builder
+function sanitizeChatInjections(
+	chat: Partial<InsertChat>
+): { error: string } | { data: Partial<InsertChat> } {
+	const data: Partial<InsertChat> = {}
+	if (chat.authorsNoteDepth !== undefined) {
+		const depth = toInjectionDepth(chat.authorsNoteDepth)
+		if (depth === null) return { error: "Author's note depth is invalid." }
+		data.authorsNoteDepth = depth
+	}
+	if (chat.authorsNoteRole !== undefined) {
+		if (!INJECTION_ROLES.includes(chat.authorsNoteRole)) {
+			return { error: "Author's note role is invalid." }
+		}
+		data.authorsNoteRole = chat.authorsNoteRole
+	}
+	if (chat.injections !== undefined) {
+		if (!Array.isArray(chat.injections)) {
+			return { error: "Injections are invalid." }
+		}
+		const injections: InsertChat["injections"] = []
+		for (const injection of chat.injections) {
+			const depth = toInjectionDepth(injection?.depth)
+			if (
+				depth === null ||
+				typeof injection.content !== "string" ||
+				!INJECTION_ROLES.includes(injection.role)
+			) {
+				return { error: "Injections are invalid." }
+			}
+			injections.push({
+				content: injection.content,
+				depth,
+				role: injection.role
+			})
+		}
+		data.injections = injections
+	}
+	return { data }
+}
+
 // Helper function to process tags for chat creation/update
-async function processChatTags(chatId: number, tagNames: string[]) {
+async function processChatTags(
+	chatId: number,
+	tagNames: string[],
+	userId: number
+) {
 	if (!tagNames || tagNames.length === 0) return
 
 	// First, remove all existing tags for this chat
@@ -27,7 +136,10 @@ async function processChatTags(chatId: number, tagNames: string[]) {
 
 		// Check if tag exists
 		let existingTag = await db.query.tags.findFirst({
-			where: eq(schema.tags.name, tagName.trim())
+			where: and(
+				eq(schema.tags.name, tagName.trim()),
+				eq(schema.tags.userId, userId)
+			)
 		})
 
 		// Create tag if it doesn't exist
@@ -35,7 +147,8 @@ async function processChatTags(chatId: number, tagNames: string[]) {
 			const [newTag] = await db
 				.insert(schema.tags)
 				.values({
-					name: tagName.trim()
+					name: tagName.trim(),
+					userId
 					// description and colorPreset will use database defaults
 				})
 				.returning()
@@ -68,7 +181,7 @@ export async function chatsList(
 	message: Sockets.ChatsList.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const chatsList = await db.query.chats.findMany({
 		with: {
 			chatCharacters: {
@@ -116,15 +229,38 @@ export async function createChat(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // Replace with actual user id
+		const userId = socket.user.id
 		const tags = message.chat.tags || []
 
+		if (
+			!(await userOwnsChatRefs({
+				userId,
+				characterIds: message.characterIds,
+				personaIds: message.personaIds,
+				lorebookId: message.chat.lorebookId
+			}))
+		) {
+			emitToUser("error", {
+				error: "Error Creating Chat: Character, persona or lorebook not found."
+			})
+			return
+		}
+
+		const injections = sanitizeChatInjections(message.chat)
+		if ("error" in injections) {
+			emitToUser("error", {
+				error: `Error Creating Chat: ${injections.error}`
+			})
+			return
+		}
+
 		// Remove tags from chat data as it will be handled separately
 		const chatDataWithoutTags = { ...message.chat }
 		delete chatDataWithoutTags.tags
 
 		const chatData: InsertChat = {
 			...chatDataWithoutTags,
+			...injections.data,
 			userId,
 			isGroup: message.characterIds.length > 1
 		}
@@ -135,7 +271,7 @@ export async function createChat(
 
 		// Process tags after chat creation
 		if (tags.length > 0) {
-			await processChatTags(newChat.id, tags)
+			await processChatTags(newChat.id, tags, userId)
 		}
 		for (const personaId of message.personaIds) {
 			await db.insert(schema.chatPersonas).values({
@@ -206,10 +342,23 @@ export async function chat(
 	message: Sockets.Chat.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
-	const limit = message.limit || 25
+	const userId = socket.user.id
+	let limit = message.limit || 25
 	const offset = message.offset || 0
 
+	if (message.aroundMessageId) {
+		// Pages count back from the newest message, so load back past this one
+		const newerMessages = await db.query.chatMessages.findMany({
+			where: (cm, { and, eq, gt }) =>
+				and(
+					eq(cm.chatId, message.id),
+					gt(cm.id, message.aroundMessageId!)
+				),
+			columns: { id: true }
+		})
+		limit = Math.max(limit, newerMessages.length + 10)
+	}
+
 	const chat = await getChatFromDB(message.id, userId, limit, offset)
 	if (chat) {
 		// Get total message count for pagination
@@ -232,6 +381,127 @@ export async function chat(
 
 export const getChat = chat
 
+// Marks ts_headline puts around matched words, split out into snippet parts
+const SEARCH_MATCH_START = "\u0001"
+const SEARCH_MATCH_END = "\u0002"
+
+function toSnippet(headline: string) {
+	const snippet: Sockets.SearchChatMessages.Result["snippet"] = []
+	for (const part of headline.split(SEARCH_MATCH_START)) {
+		const [match, rest] = part.includes(SEARCH_MATCH_END)
+			? part.split(SEARCH_MATCH_END, 2)
+			: ["", part]
+		if (match) snippet.push({ text: match, isMatch: true })
+		if (rest) snippet.push({ text: rest, isMatch: false })
+	}
+	return snippet
+}
+
+// Full-text search over the user's chat messages, best matches first
+export async function searchChatMessages(
+	socket: any,
+	message: Sockets.SearchChatMessages.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	const query = message.query?.trim() || ""
+	const limit = Math.min(message.limit || 20, 100)
+	const offset = message.offset || 0
+	const res: Sockets.SearchChatMessages.Response = {
+		query,
+		results: [],
+		offset,
+		hasMore: false
+	}
+	if (!query) {
+		emitToUser("searchChatMessages", res)
+		return
+	}
+
+	try {
+		const cm = schema.chatMessages
+		// Must match the chat_messages_content_search_idx expression
+		const document = sql`to_tsvector('english', ${cm.content})`
+		const tsQuery = sql`websearch_to_tsquery('english', ${query})`
+		const conditions = [
+			eq(cm.userId, userId),
+			eq(schema.chats.userId, userId),
+			sql`${document} @@ ${tsQuery}`
+		]
+		if (message.chatId) conditions.push(eq(cm.chatId, message.chatId))
+		if (message.characterId) {
+			conditions.push(eq(cm.characterId, message.characterId))
+		}
+		if (message.personaId) {
+			conditions.push(eq(cm.personaId, message.personaId))
+		}
+		if (message.role) conditions.push(eq(cm.role, message.role))
+		if (message.from) conditions.push(gte(cm.createdAt, message.from))
+		if (message.to) conditions.push(lte(cm.createdAt, message.to))
+
+		const headlineOptions = `StartSel="${SEARCH_MATCH_START}", StopSel="${SEARCH_MATCH_END}", MaxFragments=2, MaxWords=30, MinWords=10`
+		const rows = await db
+			.select({
+				id: cm.id,
+				chatId: cm.chatId,
+				chatName: schema.chats.name,
+				characterId: cm.characterId,
+				personaId: cm.personaId,
+				role: cm.role,
+				createdAt: cm.createdAt,
+				headline: sql<string>`ts_headline('english', ${cm.content}, ${tsQuery}, ${headlineOptions})`
+			})
+			.from(cm)
+			.innerJoin(schema.chats, eq(schema.chats.id, cm.chatId))
+			.where(and(...conditions))
+			.orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`), desc(cm.id))
+			.limit(limit + 1) // One extra to tell if there's another page
+			.offset(offset)
+
+		res.hasMore = rows.length > limit
+		res.results = rows.slice(0, limit).map(({ headline, ...row }) => ({
+			...row,
+			snippet: toSnippet(headline)
+		}))
+	} catch (error: any) {
+		console.error("Error searching chat messages:", error)
+		res.error = "Failed to search messages."
+		emitToUser("error", { error: res.error })
+	}
+	emitToUser("searchChatMessages", res)
+}
+
+export async function chatExport(
+	socket: any,
+	message: Sockets.ChatExport.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	try {
+		const userId = socket.user.id
+		const exported = await buildChatExport(
+			message.chatId,
+			userId,
+			message.format,
+			{ excludeHidden: !!message.excludeHidden }
+		)
+		if (!exported) {
+			return socket.emit("error", { error: "Chat not found." })
+		}
+		const res: Sockets.ChatExport.Response = {
+			chatId: message.chatId,
+			format: message.format,
+			fileName: exported.fileName,
+			mimeType: exported.mimeType,
+			file: exported.data
+		}
+		// Only the requesting client downloads the file
+		socket.emit("chatExport", res)
+	} catch (e: any) {
+		console.error("Error exporting chat:", e)
+		socket.emit("error", { error: e.message || "Failed to export chat." })
+	}
+}
+
 // Helper to get chat with userId
 async function getChatFromDB(
 	chatId: number,
@@ -313,6 +583,7 @@ async function getPromptChatFromDb(chatId: number, userId: number) {
 				},
 				orderBy: (cp, { asc }) => asc(cp.position ?? 0)
 			},
+			chatSummaries: true,
 			lorebook: {
 				with: {
 					lorebookBindings: {
@@ -356,7 +627,7 @@ export async function sendPersonaMessage(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const { chatId, personaId, content } = message
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	let chat = await getPromptChatFromDb(chatId, userId)
 	if (!chat) {
 		// Return a valid but empty chatMessage object with required fields set to null or default
@@ -366,6 +637,10 @@ export async function sendPersonaMessage(
 		emitToUser("sendPersonaMessage", res)
 		return
 	}
+	if (personaId && !chat.chatPersonas.some((cp) => cp.personaId === personaId)) {
+		emitToUser("error", { error: "Persona is not part of this chat." })
+		return
+	}
 	const newMessage: InsertChatMessage = {
 		userId,
 		chatId,
@@ -383,6 +658,8 @@ export async function sendPersonaMessage(
 		chatMessage: inserted as any
 	}
 	emitToUser("sendPersonaMessage", res)
+	// The user stepping in interrupts auto-play
+	pauseChatAutoPlay(emitToUser, chatId, "Paused for your message.")
 
 	// --- Auto-response logic ---
 	let maxTurns = 20 // Prevent infinite loops in case of data issues
@@ -419,20 +696,28 @@ export async function sendPersonaMessage(
 				break
 			}
 
-			const nextCharacterId = getNextCharacterTurn(
-				{
-					chatMessages: chat!.chatMessages,
-					chatCharacters: chat!.chatCharacters
-						.filter((cc) => cc.character !== null && cc.isActive)
-						.sort(
-							(a, b) => (a.position ?? 0) - (b.position ?? 0)
-						) as any,
-					chatPersonas: chat!.chatPersonas.filter(
-						(cp) => cp.persona !== null
-					) as any
-				},
-				{ triggered: false }
-			)
+			const turnChat: TurnChat = {
+				chatMessages: chat!.chatMessages,
+				chatCharacters: chat!.chatCharacters
+					.filter((cc) => cc.character !== null && cc.isActive)
+					.sort(
+						(a, b) => (a.position ?? 0) - (b.position ?? 0)
+					) as any,
+				chatPersonas: chat!.chatPersonas.filter(
+					(cp) => cp.persona !== null
+				) as any
+			}
+			const nextCharacterId =
+				chat.groupReplyStrategy === GroupReplyStrategies.LLM
+					? await askNextCharacterTurn(turnChat, {
+							chatId,
+							userId,
+							triggered: false
+						})
+					: getNextCharacterTurn(turnChat, {
+							triggered: false,
+							strategy: chat.groupReplyStrategy
+						})
 			if (!nextCharacterId) {
 				break
 			}
@@ -495,8 +780,10 @@ export async function deleteChatMessage(
 	message: Sockets.DeleteChatMessage.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
+	const userId = socket.user.id
 	const chatMsg = await db.query.chatMessages.findFirst({
-		where: (cm, { eq }) => eq(cm.id, message.id),
+		where: (cm, { and, eq }) =>
+			and(eq(cm.id, message.id), eq(cm.userId, userId)),
 		columns: {
 			chatId: true,
 			adapterId: true,
@@ -528,7 +815,6 @@ export async function deleteChatMessage(
 		activeAdapters.delete(chatMsg.adapterId)
 	}
 
-	const userId = 1 // Replace with actual user id
 	await db
 		.delete(schema.chatMessages)
 		.where(
@@ -551,8 +837,9 @@ export async function updateChatMessage(
 	message: Sockets.UpdateChatMessage.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
-	const data = { ...message.chatMessage }
+	const userId = socket.user.id
+	// Ownership and chat can't be changed
+	const { userId: _userId, chatId: _chatId, ...data } = message.chatMessage
 	delete data.id // Remove id to avoid conflicts with update
 	const [updated] = await db
 		.update(schema.chatMessages)
@@ -564,6 +851,10 @@ export async function updateChatMessage(
 			)
 		)
 		.returning()
+	if (!updated) {
+		emitToUser("error", { error: "Chat message not found." })
+		return
+	}
 	// Instead of refreshing the chat, emit the updated chatMessage
 	await chatMessage(socket, { chatMessage: updated as any }, emitToUser)
 	const res: Sockets.UpdateChatMessage.Response = {
@@ -578,7 +869,7 @@ export async function deleteChat(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // Replace with actual user id
+		const userId = socket.user.id
 		await db
 			.delete(schema.chats)
 			.where(
@@ -587,6 +878,9 @@ export async function deleteChat(
 					eq(schema.chats.userId, userId)
 				)
 			)
+		if (getChatAutoPlay(message.id, userId)) {
+			stopChatAutoPlay(emitToUser, message.id)
+		}
 		const res: Sockets.DeleteChat.Response = { id: message.id }
 		emitToUser("deleteChat", res)
 	} catch (error) {
@@ -594,14 +888,197 @@ export async function deleteChat(
 	}
 }
 
+// Clone a chat up to (and including) a message into a new chat, leaving the original untouched
+export async function forkChat(
+	socket: any,
+	message: Sockets.ForkChat.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	try {
+		const userId = socket.user.id
+		const sourceChat = await db.query.chats.findFirst({
+			where: (c, { and, eq }) =>
+				and(eq(c.id, message.chatId), eq(c.userId, userId)),
+			with: {
+				chatCharacters: true,
+				chatPersonas: true,
+				chatTags: true
+			}
+		})
+		if (!sourceChat) {
+			emitToUser("error", {
+				error: "Error forking chat: Chat not found."
+			})
+			return
+		}
+		const forkMessage = await db.query.chatMessages.findFirst({
+			where: (cm, { and, eq }) =>
+				and(
+					eq(cm.id, message.chatMessageId),
+					eq(cm.chatId, sourceChat.id)
+				),
+			columns: { id: true }
+		})
+		if (!forkMessage) {
+			emitToUser("error", {
+				error: "Error forking chat: Message not found in this chat."
+			})
+			return
+		}
+		const sourceLorebooks = await db.query.chatLorebooks.findMany({
+			where: (cl, { eq }) => eq(cl.chatId, sourceChat.id)
+		})
+
+		// The fork is written as a whole, a failure part way leaves no partial chat behind
+		const newChat = await db.transaction(async (tx) => {
+			const [newChat] = await tx
+				.insert(schema.chats)
+				.values({
+					name:
+						message.name?.trim() ||
+						`${sourceChat.name || "Chat"} (Fork)`,
+					isGroup: sourceChat.isGroup,
+					userId,
+					scenario: sourceChat.scenario,
+					metadata: sourceChat.metadata,
+					groupReplyStrategy: sourceChat.groupReplyStrategy,
+					lorebookId: sourceChat.lorebookId,
+					authorsNote: sourceChat.authorsNote,
+					authorsNoteDepth: sourceChat.authorsNoteDepth,
+					authorsNoteRole: sourceChat.authorsNoteRole,
+					authorsNoteFrequency: sourceChat.authorsNoteFrequency,
+					injections: sourceChat.injections,
+					connectionId: sourceChat.connectionId,
+					samplingConfigId: sourceChat.samplingConfigId,
+					contextConfigId: sourceChat.contextConfigId,
+					promptConfigId: sourceChat.promptConfigId,
+					autoPlayDelay: sourceChat.autoPlayDelay,
+					autoPlayMaxTurns: sourceChat.autoPlayMaxTurns,
+					autoPlayTokenBudget: sourceChat.autoPlayTokenBudget,
+					parentChatId: sourceChat.id,
+					forkedFromMessageId: forkMessage.id
+				})
+				.returning()
+
+			if (sourceChat.chatCharacters.length) {
+				await tx.insert(schema.chatCharacters).values(
+					sourceChat.chatCharacters.map((cc) => ({
+						chatId: newChat.id,
+						characterId: cc.characterId,
+						position: cc.position,
+						isActive: cc.isActive,
+						visibility: cc.visibility,
+						talkativeness: cc.talkativeness,
+						connectionId: cc.connectionId,
+						samplingConfigId: cc.samplingConfigId,
+						contextConfigId: cc.contextConfigId,
+						promptConfigId: cc.promptConfigId
+					}))
+				)
+			}
+			if (sourceChat.chatPersonas.length) {
+				await tx.insert(schema.chatPersonas).values(
+					sourceChat.chatPersonas.map((cp) => ({
+						chatId: newChat.id,
+						personaId: cp.personaId,
+						position: cp.position
+					}))
+				)
+			}
+			if (sourceLorebooks.length) {
+				await tx.insert(schema.chatLorebooks).values(
+					sourceLorebooks.map((cl) => ({
+						chatId: newChat.id,
+						lorebookId: cl.lorebookId,
+						position: cl.position
+					}))
+				)
+			}
+			if (sourceChat.chatTags.length) {
+				await tx.insert(schema.chatTags).values(
+					sourceChat.chatTags.map((ct) => ({
+						chatId: newChat.id,
+						tagId: ct.tagId
+					}))
+				)
+			}
+
+			// Copy messages in order so the new ids keep the same ordering
+			const messageIdMap = new Map<number, number>()
+			const sourceMessages = await tx.query.chatMessages.findMany({
+				where: (cm, { and, eq, lte }) =>
+					and(eq(cm.chatId, sourceChat.id), lte(cm.id, forkMessage.id)),
+				with: { prompts: true },
+				orderBy: (cm, { asc }) => asc(cm.id)
+			})
+			for (const {
+				id: sourceMessageId,
+				prompts,
+				...sourceMessage
+			} of sourceMessages) {
+				const [newMessage] = await tx
+					.insert(schema.chatMessages)
+					.values({
+						...sourceMessage,
+						chatId: newChat.id,
+						isGenerating: false,
+						adapterId: null
+					})
+					.returning({ id: schema.chatMessages.id })
+				messageIdMap.set(sourceMessageId, newMessage.id)
+				if (prompts.length) {
+					await tx.insert(schema.chatMessagePrompts).values(
+						prompts.map(({ id: _promptId, ...prompt }) => ({
+							...prompt,
+							chatMessageId: newMessage.id
+						}))
+					)
+				}
+			}
+
+			// Summaries of the copied messages still apply to the fork
+			const sourceSummaries = await tx.query.chatSummaries.findMany({
+				where: (cs, { and, eq, lte }) =>
+					and(
+						eq(cs.chatId, sourceChat.id),
+						lte(cs.endMessageId, forkMessage.id)
+					)
+			})
+			for (const { id: _summaryId, ...summary } of sourceSummaries) {
+				const startMessageId = messageIdMap.get(summary.startMessageId)
+				const endMessageId = messageIdMap.get(summary.endMessageId)
+				if (!startMessageId || !endMessageId) continue
+				await tx.insert(schema.chatSummaries).values({
+					...summary,
+					chatId: newChat.id,
+					startMessageId,
+					endMessageId
+				})
+			}
+			return newChat
+		})
+
+		const resChat = await getChatFromDB(newChat.id, userId)
+		if (!resChat) return
+		await chatsList(socket, {}, emitToUser) // Refresh chat list
+		const res: Sockets.ForkChat.Response = { chat: resChat as any }
+		// Only the requesting client opens the fork
+		socket.emit("forkChat", res)
+	} catch (error) {
+		console.error("Error forking chat:", error)
+		emitToUser("error", { error: "Failed to fork chat." })
+	}
+}
+
 export async function regenerateChatMessage(
 	socket: any,
 	message: Sockets.RegenerateChatMessage.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const chatMessage = await db.query.chatMessages.findFirst({
-		where: (cm, { eq }) => eq(cm.id, message.id)
+		where: (cm, { and, eq }) =>
+			and(eq(cm.id, message.id), eq(cm.userId, userId))
 	})
 	if (!chatMessage) {
 		const res: Sockets.RegenerateChatMessage.Response = {
@@ -667,13 +1144,176 @@ export async function regenerateChatMessage(
 	}
 }
 
+export async function continueChatMessage(
+	socket: any,
+	message: Sockets.ContinueChatMessage.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	const chatMessage = await db.query.chatMessages.findFirst({
+		where: (cm, { and, eq }) =>
+			and(eq(cm.id, message.id), eq(cm.userId, userId))
+	})
+	if (!chatMessage || !chatMessage.characterId) {
+		emitToUser("error", { error: "Message not found." })
+		return
+	}
+	if (chatMessage.isGenerating) {
+		emitToUser("error", { error: "Message is already generating." })
+		return
+	}
+	const chat = await getPromptChatFromDb(chatMessage.chatId, userId)
+	if (!chat) {
+		emitToUser("error", {
+			error: "Error Continuing Message: Chat not found."
+		})
+		return
+	}
+	// Only the reply the prompt ends on can be continued
+	const lastMessage = await db.query.chatMessages.findFirst({
+		where: (cm, { and, eq }) =>
+			and(eq(cm.chatId, chat.id), eq(cm.isHidden, false)),
+		orderBy: (cm, { desc }) => desc(cm.id),
+		columns: { id: true }
+	})
+	if (lastMessage?.id !== chatMessage.id) {
+		emitToUser("error", {
+			error: "Only the last message can be continued."
+		})
+		return
+	}
+
+	try {
+		await generateResponse({
+			socket,
+			emitToUser,
+			chatId: chat.id,
+			userId,
+			generatingMessage: chatMessage,
+			isContinue: true
+		})
+	} catch (error) {
+		console.error("Error during continuation:", error)
+		let [canceledMsg] = await db
+			.update(schema.chatMessages)
+			.set({
+				isGenerating: false,
+				adapterId: null
+			})
+			.where(eq(schema.chatMessages.id, message.id))
+			.returning()
+		emitToUser("chatMessage", { chatMessage: canceledMsg })
+		emitToUser("error", {
+			error: "Failed to continue message."
+		})
+	}
+}
+
+export async function impersonatePersona(
+	socket: any,
+	message: Sockets.ImpersonatePersona.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	if (activeImpersonations.has(message.chatId)) {
+		emitToUser("error", { error: "Already writing a message for you." })
+		return
+	}
+	// Reserved before the first await, so a second request can't slip past the check
+	activeImpersonations.set(message.chatId, null)
+	let res: Sockets.ImpersonatePersona.Response
+	try {
+		const content = await generateImpersonation({
+			emitToUser,
+			chatId: message.chatId,
+			userId
+		})
+		res = { chatId: message.chatId, content, isGenerating: false }
+	} catch (error: any) {
+		console.error("Error during impersonation:", error)
+		res = {
+			chatId: message.chatId,
+			content: "",
+			isGenerating: false,
+			error: error?.message || "Failed to write a message for you."
+		}
+		emitToUser("error", { error: res.error })
+	} finally {
+		activeImpersonations.delete(message.chatId)
+	}
+	emitToUser("impersonatePersona", res)
+}
+
+export async function abortImpersonatePersona(
+	socket: any,
+	message: Sockets.AbortImpersonatePersona.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) =>
+			and(eq(c.id, message.chatId), eq(c.userId, socket.user.id)),
+		columns: { id: true }
+	})
+	if (!chat) return
+	activeImpersonations.get(chat.id)?.abort()
+}
+
+export async function autoPlay(
+	socket: any,
+	message: Sockets.AutoPlay.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const res: Sockets.AutoPlay.Response = {
+		chatId: message.chatId,
+		autoPlay: getChatAutoPlay(message.chatId, socket.user.id)
+	}
+	emitToUser("autoPlay", res)
+}
+
+export async function startAutoPlay(
+	socket: any,
+	message: Sockets.StartAutoPlay.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	try {
+		await startChatAutoPlay({
+			socket,
+			emitToUser,
+			chatId: message.chatId,
+			userId: socket.user.id
+		})
+	} catch (error: any) {
+		emitToUser("error", {
+			error: error?.message || "Failed to start auto-play."
+		})
+	}
+}
+
+export async function pauseAutoPlay(
+	socket: any,
+	message: Sockets.PauseAutoPlay.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	if (!getChatAutoPlay(message.chatId, socket.user.id)) return
+	pauseChatAutoPlay(emitToUser, message.chatId)
+}
+
+export async function stopAutoPlay(
+	socket: any,
+	message: Sockets.StopAutoPlay.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	if (!getChatAutoPlay(message.chatId, socket.user.id)) return
+	stopChatAutoPlay(emitToUser, message.chatId)
+}
+
 export async function promptTokenCount(
 	socket: any,
 	message: Sockets.PromptTokenCount.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // Replace with actual user id
+		const userId = socket.user.id
 		const chat = await getPromptChatFromDb(message.chatId, userId)
 		if (!chat) {
 			emitToUser("error", {
@@ -681,28 +1321,6 @@ export async function promptTokenCount(
 			})
 			return
 		}
-		const user = await db.query.users.findFirst({
-			where: (u, { eq }) => eq(u.id, userId),
-			with: {
-				activeConnection: true,
-				activeSamplingConfig: true,
-				activeContextConfig: true,
-				activePromptConfig: true
-			}
-		})
-		if (
-			!chat ||
-			!user ||
-			!user.activeConnection ||
-			!user.activeSamplingConfig ||
-			!user.activeContextConfig ||
-			!user.activePromptConfig
-		) {
-			emitToUser("error", {
-				error: "Incomplete configuration, failed to calculate token count."
-			})
-			return
-		}
 		let chatForPrompt = { ...chat, chatMessages: [...chat.chatMessages] }
 		// if (message.content && message.role) {
 		// 	// chatForPrompt.chatMessages.push({
@@ -734,7 +1352,7 @@ export async function promptTokenCount(
 					(cp: any) => cp && cp.persona != null
 				) as any
 			},
-			{ triggered: true }
+			{ triggered: true, strategy: chat.groupReplyStrategy }
 		)
 
 		if (!currentCharacterId) {
@@ -742,23 +1360,34 @@ export async function promptTokenCount(
 			return
 		}
 
-		const { Adapter } = getConnectionAdapter(user.activeConnection.type)
+		const { connection, sampling, contextConfig, promptConfig } =
+			await resolveChatConfigs({
+				userId,
+				chatId: chat.id,
+				characterId: currentCharacterId
+			})
+		if (!connection || !sampling || !contextConfig || !promptConfig) {
+			emitToUser("error", {
+				error: "Incomplete configuration, failed to calculate token count."
+			})
+			return
+		}
+
+		const { Adapter } = getConnectionAdapter(connection.type)
 
-		// Provide required params for Adapter (use defaults if not available)
-		const tokenCounter = new TokenCounters("estimate")
-		const tokenLimit = 4096
-		const contextThresholdPercent = 0.8
+		const contextBudget = await resolveContextBudget({
+			connection,
+			sampling
+		})
 
 		const adapter = new Adapter({
 			chat: chatForPrompt,
-			connection: user.activeConnection,
-			sampling: user.activeSamplingConfig,
-			contextConfig: user.activeContextConfig,
-			promptConfig: user.activePromptConfig,
+			connection,
+			sampling,
+			contextConfig,
+			promptConfig,
 			currentCharacterId,
-			tokenCounter,
-			tokenLimit,
-			contextThresholdPercent
+			contextBudget
 		})
 		const promptResult: Sockets.PromptTokenCount.Response =
 			await adapter.compilePrompt({})
@@ -780,7 +1409,8 @@ export async function abortChatMessage(
 	emitToUser: (event: string, data: any) => void
 ) {
 	let chatMsg = await db.query.chatMessages.findFirst({
-		where: (cm, { eq }) => eq(cm.id, message.id)
+		where: (cm, { and, eq }) =>
+			and(eq(cm.id, message.id), eq(cm.userId, socket.user.id))
 	})
 
 	if (!chatMsg) {
@@ -840,7 +1470,7 @@ export async function triggerGenerateMessage(
 	message: Sockets.TriggerGenerateMessage.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 
 	const msgLimit = 10
 	let currentMsg = 1
@@ -867,22 +1497,27 @@ export async function triggerGenerateMessage(
 		}
 
 		// Find the next character who should reply (using triggered: true)
+		const turnChat: TurnChat = {
+			chatMessages: chat.chatMessages,
+			chatCharacters: chat.chatCharacters
+				.filter((cc) => cc.character !== null && cc.isActive)
+				.sort((a, b) => (a.position ?? 0) - (b.position ?? 0)) as any,
+			chatPersonas: chat.chatPersonas.filter(
+				(cp) => cp.persona !== null
+			) as any
+		}
 		const nextCharacterId =
 			message.characterId ||
-			getNextCharacterTurn(
-				{
-					chatMessages: chat.chatMessages,
-					chatCharacters: chat.chatCharacters
-						.filter((cc) => cc.character !== null && cc.isActive)
-						.sort(
-							(a, b) => (a.position ?? 0) - (b.position ?? 0)
-						) as any,
-					chatPersonas: chat.chatPersonas.filter(
-						(cp) => cp.persona !== null
-					) as any
-				},
-				{ triggered }
-			)
+			(chat.groupReplyStrategy === GroupReplyStrategies.LLM
+				? await askNextCharacterTurn(turnChat, {
+						chatId: chat.id,
+						userId,
+						triggered
+					})
+				: getNextCharacterTurn(turnChat, {
+						triggered,
+						strategy: chat.groupReplyStrategy
+					}))
 
 		if (!nextCharacterId) {
 			break
@@ -947,7 +1582,8 @@ export async function chatMessage(
 	} else if (message.id) {
 		// If id is provided, fetch from database
 		const chatMessage = await db.query.chatMessages.findFirst({
-			where: (m, { eq }) => eq(m.id, message.id!)
+			where: (m, { and, eq }) =>
+				and(eq(m.id, message.id!), eq(m.userId, socket.user.id))
 		})
 		if (!chatMessage) {
 			emitToUser("error", { error: "Chat message not found." })
@@ -961,6 +1597,39 @@ export async function chatMessage(
 	}
 }
 
+export async function chatMessagePromptInspect(
+	socket: any,
+	message: Sockets.ChatMessagePromptInspect.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	const chatMessage = await db.query.chatMessages.findFirst({
+		where: (cm, { eq, and }) =>
+			and(eq(cm.id, message.chatMessageId), eq(cm.userId, userId))
+	})
+	if (!chatMessage) {
+		emitToUser("error", { error: "Chat message not found." })
+		return
+	}
+
+	const swipeIdx =
+		message.swipeIdx ?? chatMessage.metadata?.swipes?.currentIdx ?? 0
+	const chatMessagePrompt = await db.query.chatMessagePrompts.findFirst({
+		where: (cmp, { eq, and }) =>
+			and(
+				eq(cmp.chatMessageId, chatMessage.id),
+				eq(cmp.swipeIdx, swipeIdx)
+			)
+	})
+
+	const res: Sockets.ChatMessagePromptInspect.Response = {
+		chatMessageId: chatMessage.id,
+		swipeIdx,
+		chatMessagePrompt: chatMessagePrompt || null
+	}
+	emitToUser("chatMessagePromptInspect", res)
+}
+
 export async function updateChat(
 	socket: any,
 	message: Sockets.UpdateChat.Call,
@@ -968,11 +1637,36 @@ export async function updateChat(
 ) {
 	try {
 		console.log("Updating chat with message:", message)
-		const userId = 1 // Replace with actual user id
+		const userId = socket.user.id
 		const tags = message.chat.tags || []
 
 		//  Select the chat to compare data
 		const existingChat = await getPromptChatFromDb(message.chat.id, userId)
+		if (!existingChat) {
+			emitToUser("error", { error: "Error Updating Chat: Chat not found." })
+			return
+		}
+		if (
+			!(await userOwnsChatRefs({
+				userId,
+				characterIds: message.characterIds,
+				personaIds: message.personaIds,
+				lorebookId: message.chat.lorebookId
+			}))
+		) {
+			emitToUser("error", {
+				error: "Error Updating Chat: Character, persona or lorebook not found."
+			})
+			return
+		}
+
+		const injections = sanitizeChatInjections(message.chat)
+		if ("error" in injections) {
+			emitToUser("error", {
+				error: `Error Updating Chat: ${injections.error}`
+			})
+			return
+		}
 
 		// Remove tags from chat data as it will be handled separately
 		const chatDataWithoutTags = { ...message.chat }
@@ -983,6 +1677,7 @@ export async function updateChat(
 			.update(schema.chats)
 			.set({
 				...chatDataWithoutTags,
+				...injections.data,
 				isGroup: message.characterIds.length > 1,
 				userId: undefined
 			})
@@ -994,7 +1689,7 @@ export async function updateChat(
 			)
 
 		// Process tags after chat update
-		await processChatTags(message.chat.id, tags)
+		await processChatTags(message.chat.id, tags, userId)
 
 		// Remove any characters that are not in the new list
 		const deletedCharacterIds =
@@ -1179,6 +1874,8 @@ export async function updateChat(
 		const res: Sockets.UpdateChat.Response = { chat: resChat as any }
 		await chatsList(socket, {}, emitToUser)
 		emitToUser("updateChat", res)
+		// Overrides may have changed
+		await chatConfigs(socket, { chatId: message.chat.id }, emitToUser)
 	} catch (error) {
 		console.error("Error updating chat:", error)
 		emitToUser("error", { error: "Failed to update chat." })
@@ -1190,7 +1887,7 @@ export async function chatMessageSwipeRight(
 	message: Sockets.ChatMessageSwipeRight.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const chat = await db.query.chats.findFirst({
 		where: (c, { eq, and }) =>
 			and(eq(c.id, message.chatId), eq(c.userId, userId)),
@@ -1350,7 +2047,7 @@ export async function chatMessageSwipeLeft(
 	message: Sockets.ChatMessageSwipeLeft.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const chat = await db.query.chats.findFirst({
 		where: (c, { eq, and }) =>
 			and(eq(c.id, message.chatId), eq(c.userId, userId)),
@@ -1572,7 +2269,7 @@ export async function toggleChatCharacterActive(
 	message: Sockets.ToggleChatCharacterActive.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	if (!userId) return
 
 	const chat = await db.query.chats.findFirst({
@@ -1628,7 +2325,7 @@ export async function updateChatCharacterVisibility(
 	message: Sockets.UpdateChatCharacterVisibility.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	if (!userId) return
 
 	const chat = await db.query.chats.findFirst({
@@ -1678,12 +2375,185 @@ export async function updateChatCharacterVisibility(
 	await getChat(socket, { id: chat.id }, emitToUser)
 }
 
+export async function updateChatCharacterConfigs(
+	socket: any,
+	message: Sockets.UpdateChatCharacterConfigs.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	if (!userId) return
+
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) =>
+			and(eq(c.id, message.chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: {
+				where: (cc, { eq }) => eq(cc.characterId, message.characterId)
+			}
+		}
+	})
+	if (!chat) {
+		emitToUser("error", {
+			error: "Error updating character configs: Chat not found."
+		})
+		return
+	}
+	if (!chat.chatCharacters || chat.chatCharacters.length === 0) {
+		emitToUser("error", { error: "Chat character not found." })
+		return
+	}
+
+	const [chatCharacter] = await db
+		.update(schema.chatCharacters)
+		.set({
+			connectionId: message.connectionId,
+			samplingConfigId: message.samplingConfigId,
+			contextConfigId: message.contextConfigId,
+			promptConfigId: message.promptConfigId
+		})
+		.where(
+			and(
+				eq(schema.chatCharacters.characterId, message.characterId),
+				eq(schema.chatCharacters.chatId, message.chatId)
+			)
+		)
+		.returning()
+
+	const res: Sockets.UpdateChatCharacterConfigs.Response = { chatCharacter }
+	emitToUser("updateChatCharacterConfigs", res)
+
+	await getChat(socket, { id: chat.id }, emitToUser)
+	await chatConfigs(socket, { chatId: chat.id }, emitToUser)
+}
+
+export async function updateChatCharacterTalkativeness(
+	socket: any,
+	message: Sockets.UpdateChatCharacterTalkativeness.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	if (!userId) return
+
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) =>
+			and(eq(c.id, message.chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: {
+				where: (cc, { eq }) => eq(cc.characterId, message.characterId)
+			}
+		}
+	})
+	if (!chat) {
+		emitToUser("error", {
+			error: "Error updating character talkativeness: Chat not found."
+		})
+		return
+	}
+	if (!chat.chatCharacters || chat.chatCharacters.length === 0) {
+		emitToUser("error", { error: "Chat character not found." })
+		return
+	}
+
+	const talkativeness = Math.min(Math.max(message.talkativeness, 0), 1)
+	if (Number.isNaN(talkativeness)) {
+		emitToUser("error", { error: "Talkativeness must be between 0 and 1." })
+		return
+	}
+	await db
+		.update(schema.chatCharacters)
+		.set({ talkativeness })
+		.where(
+			and(
+				eq(schema.chatCharacters.characterId, message.characterId),
+				eq(schema.chatCharacters.chatId, message.chatId)
+			)
+		)
+
+	const res: Sockets.UpdateChatCharacterTalkativeness.Response = {
+		chatId: message.chatId,
+		characterId: message.characterId,
+		talkativeness
+	}
+	emitToUser("updateChatCharacterTalkativeness", res)
+
+	await getChat(socket, { id: chat.id }, emitToUser)
+}
+
+// Names only, the full configs can hold credentials
+function summarizeChatConfigs(
+	configs: ChatConfigs
+): Sockets.ChatConfigs.ResolvedConfigs {
+	return {
+		connection: configs.connection && {
+			id: configs.connection.id,
+			name: configs.connection.name,
+			model: configs.connection.model
+		},
+		sampling: configs.sampling && {
+			id: configs.sampling.id,
+			name: configs.sampling.name
+		},
+		contextConfig: configs.contextConfig && {
+			id: configs.contextConfig.id,
+			name: configs.contextConfig.name
+		},
+		promptConfig: configs.promptConfig && {
+			id: configs.promptConfig.id,
+			name: configs.promptConfig.name
+		},
+		sources: configs.sources
+	}
+}
+
+// The configs each character in a chat generates with, for the chat header
+export async function chatConfigs(
+	socket: any,
+	message: Sockets.ChatConfigs.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const userId = socket.user.id
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) =>
+			and(eq(c.id, message.chatId), eq(c.userId, userId)),
+		with: { chatCharacters: true }
+	})
+	if (!chat) {
+		emitToUser("error", {
+			error: "Error loading chat configs: Chat not found."
+		})
+		return
+	}
+
+	const characters: Sockets.ChatConfigs.Response["characters"] = []
+	for (const cc of chat.chatCharacters) {
+		if (!cc.characterId) continue
+		const configs = await resolveChatConfigs({
+			userId,
+			chatId: chat.id,
+			characterId: cc.characterId
+		})
+		characters.push({
+			characterId: cc.characterId,
+			...summarizeChatConfigs(configs)
+		})
+	}
+
+	const res: Sockets.ChatConfigs.Response = {
+		chatId: chat.id,
+		chat: summarizeChatConfigs(
+			await resolveChatConfigs({ userId, chatId: chat.id })
+		),
+		characters
+	}
+	emitToUser("chatConfigs", res)
+}
+
 export async function getChatResponseOrder(
 	socket: any,
 	message: Sockets.GetChatResponseOrder.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const chat = await getPromptChatFromDb(message.chatId, userId)
 
 	if (!chat) {
@@ -1724,7 +2594,7 @@ export async function getChatResponseOrder(
 				(cp) => cp.persona !== null
 			) as any
 		},
-		{ triggered: false }
+		{ triggered: false, strategy: chat.groupReplyStrategy }
 	)
 
 	const res: Sockets.GetChatResponseOrder.Response = {
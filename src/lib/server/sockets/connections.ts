@@ -3,6 +3,7 @@ import { and, eq } from "drizzle-orm"
 import * as schema from "$lib/server/db/schema"
 import { user as loadUser, user } from "./users"
 import { getConnectionAdapter } from "../utils/getConnectionAdapter"
+import { redactConnection, restoreApiKey } from "../utils/connectionSecrets"
 
 // --- CONNECTIONS SOCKET HANDLERS ---
 
@@ -12,6 +13,7 @@ export async function connectionsList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const connectionsList = await db.query.connections.findMany({
+		where: (c, { eq }) => eq(c.userId, socket.user.id),
 		columns: {
 			id: true,
 			name: true,
@@ -29,14 +31,17 @@ export async function connection(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const connection = await db.query.connections.findFirst({
-		where: (c, { eq }) => eq(c.id, message.id)
+		where: (c, { and, eq }) =>
+			and(eq(c.id, message.id), eq(c.userId, socket.user.id))
 	})
 	if (!connection) {
 		const res = { error: "Connection not found." }
 		emitToUser("error", res)
 		return
 	}
-	const res: Sockets.Connection.Response = { connection }
+	const res: Sockets.Connection.Response = {
+		connection: redactConnection(connection)
+	}
 	emitToUser("connection", res)
 }
 
@@ -45,7 +50,7 @@ export async function createConnection(
 	message: Sockets.CreateConnection.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	let data = { ...message.connection }
+	let data = { ...message.connection, userId: socket.user.id }
 	const Adapter = getConnectionAdapter(data.type)
 	data = { ...Adapter.connectionDefaults, ...data }
 	if ("id" in data) delete data.id
@@ -73,7 +78,9 @@ export async function createConnection(
 	const [conn] = await db.insert(schema.connections).values(data).returning()
 	await setUserActiveConnection(socket, { id: conn.id }, emitToUser)
 	await connectionsList(socket, {}, emitToUser)
-	const res: Sockets.CreateConnection.Response = { connection: conn }
+	const res: Sockets.CreateConnection.Response = {
+		connection: redactConnection(conn)
+	}
 	emitToUser("createConnection", res)
 }
 
@@ -82,15 +89,31 @@ export async function updateConnection(
 	message: Sockets.UpdateConnection.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
+	const userId = socket.user.id
 	const id = message.connection.id
-	if ("id" in message.connection) delete (message.connection as any).id
+	const {
+		id: _id,
+		userId: _userId,
+		...data
+	} = await restoreApiKey(message.connection, userId)
 	const [updated] = await db
 		.update(schema.connections)
-		.set(message.connection)
-		.where(eq(schema.connections.id, id))
+		.set(data)
+		.where(
+			and(
+				eq(schema.connections.id, id),
+				eq(schema.connections.userId, userId)
+			)
+		)
 		.returning()
+	if (!updated) {
+		emitToUser("error", { error: "Connection not found." })
+		return
+	}
 	await connection(socket, { id }, emitToUser)
-	const res: Sockets.UpdateConnection.Response = { connection: updated }
+	const res: Sockets.UpdateConnection.Response = {
+		connection: redactConnection(updated)
+	}
 	emitToUser("updateConnection", res)
 	await user(socket, {}, emitToUser)
 	await connectionsList(socket, {}, emitToUser)
@@ -102,14 +125,19 @@ export async function deleteConnection(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const currentUser = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, 1)
+		where: (u, { eq }) => eq(u.id, socket.user.id)
 	})
 	if (currentUser && currentUser.activeConnectionId === message.id) {
 		await setUserActiveConnection(socket, { id: null }, emitToUser)
 	}
 	await db
 		.delete(schema.connections)
-		.where(eq(schema.connections.id, message.id))
+		.where(
+			and(
+				eq(schema.connections.id, message.id),
+				eq(schema.connections.userId, socket.user.id)
+			)
+		)
 	await connectionsList(socket, {}, emitToUser)
 	const res: Sockets.DeleteConnection.Response = { id: message.id }
 	emitToUser("deleteConnection", res)
@@ -121,13 +149,24 @@ export async function setUserActiveConnection(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const currentUser = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, 1)
+		where: (u, { eq }) => eq(u.id, socket.user.id)
 	})
 	if (!currentUser) {
 		const res = { error: "User not found." }
 		emitToUser("error", res)
 		return
 	}
+	if (message.id) {
+		const owned = await db.query.connections.findFirst({
+			where: (c, { and, eq }) =>
+				and(eq(c.id, message.id!), eq(c.userId, currentUser.id)),
+			columns: { id: true }
+		})
+		if (!owned) {
+			emitToUser("error", { error: "Connection not found." })
+			return
+		}
+	}
 	await db
 		.update(schema.users)
 		.set({
@@ -161,11 +200,12 @@ export async function testConnection(
 	}
 
 	try {
-		const result = await testConnection(message.connection)
+		const conn = await restoreApiKey(message.connection, socket.user.id)
+		const result = await testConnection(conn)
 		let models: any[] = []
 		let error: string | null = null
 		if (result.ok) {
-			const modelsRes = await listModels(message.connection)
+			const modelsRes = await listModels(conn)
 			if (modelsRes.error) {
 				emitToUser("error", {
 					error: modelsRes.error
@@ -202,7 +242,9 @@ export async function refreshModels(
 	const { listModels } = getConnectionAdapter(message.connection.type)
 
 	try {
-		const result = await listModels(message.connection)
+		const result = await listModels(
+			await restoreApiKey(message.connection, socket.user.id)
+		)
 		if (result.error) {
 			const res = {
 				error: result.error
@@ -1,5 +1,5 @@
 import { db } from "$lib/server/db"
-import { eq } from "drizzle-orm"
+import { and, eq } from "drizzle-orm"
 import * as schema from "$lib/server/db/schema"
 import { user as loadUser, user } from "./users"
 
@@ -9,6 +9,8 @@ export async function contextConfigsList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const contextConfigsList = await db.query.contextConfigs.findMany({
+		where: (c, { eq, isNull, or }) =>
+			or(isNull(c.userId), eq(c.userId, socket.user.id)),
 		columns: {
 			id: true,
 			name: true,
@@ -26,7 +28,11 @@ export async function contextConfig(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const contextConfig = await db.query.contextConfigs.findFirst({
-		where: (c, { eq }) => eq(c.id, message.id)
+		where: (c, { and, eq, isNull, or }) =>
+			and(
+				eq(c.id, message.id),
+				or(isNull(c.userId), eq(c.userId, socket.user.id))
+			)
 	})
 	if (contextConfig) {
 		const res: Sockets.ContextConfig.Response = { contextConfig }
@@ -41,7 +47,12 @@ export async function createContextConfig(
 ) {
 	const [contextConfig] = await db
 		.insert(schema.contextConfigs)
-		.values(message.contextConfig)
+		.values({
+			...message.contextConfig,
+			id: undefined,
+			userId: socket.user.id,
+			isImmutable: false
+		})
 		.returning()
 	await contextConfigsList(socket, {}, emitToUser)
 	const res: Sockets.CreateContextConfig.Response = { contextConfig }
@@ -56,12 +67,23 @@ export async function updateContextConfig(
 	const id = message.contextConfig.id
 	const updateData = { ...message.contextConfig }
 	delete updateData.id
+	delete updateData.userId
 	console.log("Updating context config with ID:", id, "Data:", updateData)
 	const [contextConfig] = await db
 		.update(schema.contextConfigs)
 		.set(updateData)
-		.where(eq(schema.contextConfigs.id, id))
+		.where(
+			and(
+				eq(schema.contextConfigs.id, id),
+				eq(schema.contextConfigs.userId, socket.user.id),
+				eq(schema.contextConfigs.isImmutable, false)
+			)
+		)
 		.returning()
+	if (!contextConfig) {
+		emitToUser("error", { error: "Context config not found." })
+		return
+	}
 	await contextConfigsList(socket, {}, emitToUser)
 	const res: Sockets.UpdateContextConfig.Response = { contextConfig }
 	emitToUser("updateContextConfig", res)
@@ -73,7 +95,7 @@ export async function deleteContextConfig(
 	message: Sockets.DeleteContextConfig.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual userId
+	const userId = socket.user.id
 	let user = await db.query.users.findFirst({
 		where: (u, { eq }) => eq(u.id, userId)
 	})
@@ -82,7 +104,13 @@ export async function deleteContextConfig(
 	}
 	await db
 		.delete(schema.contextConfigs)
-		.where(eq(schema.contextConfigs.id, message.id))
+		.where(
+			and(
+				eq(schema.contextConfigs.id, message.id),
+				eq(schema.contextConfigs.userId, userId),
+				eq(schema.contextConfigs.isImmutable, false)
+			)
+		)
 	await contextConfigsList(socket, {}, emitToUser)
 	const res: Sockets.DeleteContextConfig.Response = { id: message.id }
 	emitToUser("deleteContextConfig", res)
@@ -93,7 +121,21 @@ export async function setUserActiveContextConfig(
 	message: Sockets.SetUserActiveContextConfig.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual userId
+	const userId = socket.user.id
+	if (message.id) {
+		const contextConfig = await db.query.contextConfigs.findFirst({
+			where: (c, { and, eq, isNull, or }) =>
+				and(
+					eq(c.id, message.id!),
+					or(isNull(c.userId), eq(c.userId, userId))
+				),
+			columns: { id: true }
+		})
+		if (!contextConfig) {
+			emitToUser("error", { error: "Context config not found." })
+			return
+		}
+	}
 	const updatedUser = await db
 		.update(schema.users)
 		.set({
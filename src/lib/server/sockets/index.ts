@@ -22,7 +22,8 @@ import {
 	createCharacter,
 	updateCharacter,
 	deleteCharacter,
-	characterCardImport
+	characterCardImport,
+	characterCardExport
 } from "./characters"
 import {
 	personaList,
@@ -39,6 +40,13 @@ import {
 	deleteContextConfig,
 	setUserActiveContextConfig
 } from "./contextConfigs"
+import {
+	instructTemplatesList,
+	instructTemplate,
+	createInstructTemplate,
+	updateInstructTemplate,
+	deleteInstructTemplate
+} from "./instructTemplates"
 import {
 	chat,
 	chatsList,
@@ -47,16 +55,30 @@ import {
 	sendPersonaMessage,
 	updateChatMessage,
 	deleteChat,
+	forkChat,
 	regenerateChatMessage,
+	continueChatMessage,
+	impersonatePersona,
+	abortImpersonatePersona,
+	autoPlay,
+	startAutoPlay,
+	pauseAutoPlay,
+	stopAutoPlay,
 	promptTokenCount,
 	abortChatMessage,
 	triggerGenerateMessage,
 	chatMessage,
+	chatMessagePromptInspect,
+	searchChatMessages,
+	chatExport,
 	updateChat,
 	chatMessageSwipeRight,
 	chatMessageSwipeLeft,
 	toggleChatCharacterActive,
 	updateChatCharacterVisibility,
+	updateChatCharacterConfigs,
+	updateChatCharacterTalkativeness,
+	chatConfigs,
 	getChatResponseOrder
 } from "./chats"
 import {
@@ -68,7 +90,7 @@ import {
 	setUserActivePromptConfig
 } from "./promptConfigs"
 import { user } from "./users"
-import {createLorebook, createLorebookBinding, createWorldLoreEntry, deleteWorldLoreEntry, lorebook, lorebookBindingList, lorebookList, updateLorebookBinding, updateWorldLoreEntry, worldLoreEntryList, updateWorldLoreEntryPositions, deleteLorebook, characterLoreEntryList, createCharacterLoreEntry, deleteCharacterLoreEntry, updateCharacterLoreEntry, updateCharacterLoreEntryPositions, historyEntryList, createHistoryEntry, deleteHistoryEntry, updateHistoryEntry, iterateNextHistoryEntry, lorebookImport, updateLorebook} from './lorebooks';
+import {createLorebook, createLorebookBinding, createWorldLoreEntry, deleteWorldLoreEntry, lorebook, lorebookBindingList, lorebookList, updateLorebookBinding, updateWorldLoreEntry, worldLoreEntryList, updateWorldLoreEntryPositions, deleteLorebook, characterLoreEntryList, createCharacterLoreEntry, deleteCharacterLoreEntry, updateCharacterLoreEntry, updateCharacterLoreEntryPositions, historyEntryList, createHistoryEntry, deleteHistoryEntry, updateHistoryEntry, iterateNextHistoryEntry, lorebookImport, lorebookExport, updateLorebook} from './lorebooks';
 import {
 	tagsList,
 	createTag,
@@ -102,18 +124,19 @@ import {
 	ollamaRecommendedModels
 } from "./ollama"
 
-const userId = 1 // Replace with actual user id
-
 export function connectSockets(io: {
 	on: (arg0: string, arg1: (socket: any) => void) => void
 	to: (room: string) => any
 }) {
 	io.on("connect", (socket) => {
+		// socket.user is attached by the handshake middleware in loadSocketsServer
+		const userId: number = socket.user.id
+
 		// Attach io to socket for use in handlers
 		socket.io = io
 		socket.join("user_" + userId)
 
-		// Helper to emit to all user_1 sockets
+		// Helper to emit to all of this user's sockets
 		function emitToUser(event: string, data: any) {
 			io.to("user_" + userId).emit(event, data)
 		}
@@ -184,6 +207,13 @@ export function connectSockets(io: {
 		register(socket, deleteContextConfig, emitToUser)
 		register(socket, setUserActiveContextConfig, emitToUser)
 
+		// Instruct Templates
+		register(socket, instructTemplatesList, emitToUser)
+		register(socket, instructTemplate, emitToUser)
+		register(socket, createInstructTemplate, emitToUser)
+		register(socket, updateInstructTemplate, emitToUser)
+		register(socket, deleteInstructTemplate, emitToUser)
+
 		// Prompt Configs
 		register(socket, promptConfigsList, emitToUser)
 		register(socket, promptConfig, emitToUser)
@@ -198,19 +228,34 @@ export function connectSockets(io: {
 		register(socket, chat, emitToUser)
 		register(socket, sendPersonaMessage, emitToUser)
 		register(socket, characterCardImport, emitToUser)
+		register(socket, characterCardExport, emitToUser)
 		register(socket, deleteChatMessage, emitToUser)
 		register(socket, updateChatMessage, emitToUser)
 		register(socket, deleteChat, emitToUser)
+		register(socket, forkChat, emitToUser)
 		register(socket, regenerateChatMessage, emitToUser)
+		register(socket, continueChatMessage, emitToUser)
+		register(socket, impersonatePersona, emitToUser)
+		register(socket, abortImpersonatePersona, emitToUser)
+		register(socket, autoPlay, emitToUser)
+		register(socket, startAutoPlay, emitToUser)
+		register(socket, pauseAutoPlay, emitToUser)
+		register(socket, stopAutoPlay, emitToUser)
 		register(socket, promptTokenCount, emitToUser)
 		register(socket, abortChatMessage, emitToUser)
 		register(socket, triggerGenerateMessage, emitToUser)
 		register(socket, chatMessage, emitToUser)
+		register(socket, chatMessagePromptInspect, emitToUser)
+		register(socket, searchChatMessages, emitToUser)
+		register(socket, chatExport, emitToUser)
 		register(socket, updateChat, emitToUser)
 		register(socket, chatMessageSwipeRight, emitToUser)
 		register(socket, chatMessageSwipeLeft, emitToUser)
 		register(socket, toggleChatCharacterActive, emitToUser)
 		register(socket, updateChatCharacterVisibility, emitToUser)
+		register(socket, updateChatCharacterConfigs, emitToUser)
+		register(socket, updateChatCharacterTalkativeness, emitToUser)
+		register(socket, chatConfigs, emitToUser)
 		register(socket, getChatResponseOrder, emitToUser)
 
 		// Lorebooks
@@ -238,6 +283,7 @@ export function connectSockets(io: {
 		register(socket, deleteHistoryEntry, emitToUser)
 		register(socket, iterateNextHistoryEntry, emitToUser)
 		register(socket, lorebookImport, emitToUser)
+		register(socket, lorebookExport, emitToUser)
 		// Tags
 		register(socket, tagsList, emitToUser)
 		register(socket, createTag, emitToUser)
@@ -264,7 +310,7 @@ function register(
 			await event(socket, message, emitToUser)
 		} catch (error) {
 			console.error(`Error handling event ${event.name}:`, error)
-			socket.io.to("user_" + userId).emit(`${event.name}Error`, {
+			socket.io.to("user_" + socket.user.id).emit(`${event.name}Error`, {
 				error: "An error occurred while processing your request."
 			})
 		}
@@ -0,0 +1,143 @@
+import { db } from "$lib/server/db"
+import { and, eq } from "drizzle-orm"
+import * as schema from "$lib/server/db/schema"
+import { v4 as uuidv4 } from "uuid"
+import { InstructTemplates } from "../utils/InstructTemplates"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+
+export async function instructTemplatesList(
+	socket: any,
+	message: Sockets.InstructTemplatesList.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const instructTemplatesList = await db.query.instructTemplates.findMany({
+		where: (t, { eq, isNull, or }) =>
+			or(isNull(t.userId), eq(t.userId, socket.user.id)),
+		columns: {
+			id: true,
+			key: true,
+			name: true,
+			isImmutable: true
+		},
+		orderBy: (t, { desc, asc }) => [desc(t.isImmutable), asc(t.name)]
+	})
+	const res: Sockets.InstructTemplatesList.Response = {
+		instructTemplatesList
+	}
+	emitToUser("instructTemplatesList", res)
+}
+
+export async function instructTemplate(
+	socket: any,
+	message: Sockets.InstructTemplate.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const instructTemplate = await db.query.instructTemplates.findFirst({
+		where: (t, { and, eq, isNull, or }) =>
+			and(
+				eq(t.id, message.id),
+				or(isNull(t.userId), eq(t.userId, socket.user.id))
+			)
+	})
+	if (instructTemplate) {
+		const res: Sockets.InstructTemplate.Response = { instructTemplate }
+		emitToUser("instructTemplate", res)
+	}
+}
+
+export async function createInstructTemplate(
+	socket: any,
+	message: Sockets.CreateInstructTemplate.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const data = { ...message.instructTemplate }
+	delete data.id
+	const [instructTemplate] = await db
+		.insert(schema.instructTemplates)
+		.values({
+			...data,
+			key: uuidv4(),
+			userId: socket.user.id,
+			isImmutable: false
+		})
+		.returning()
+	await InstructTemplates.load()
+	await instructTemplatesList(socket, {}, emitToUser)
+	const res: Sockets.CreateInstructTemplate.Response = { instructTemplate }
+	emitToUser("createInstructTemplate", res)
+}
+
+export async function updateInstructTemplate(
+	socket: any,
+	message: Sockets.UpdateInstructTemplate.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const id = message.instructTemplate.id
+	const existing = await db.query.instructTemplates.findFirst({
+		where: (t, { eq }) => eq(t.id, id)
+	})
+	if (!existing || existing.isImmutable) {
+		emitToUser("error", {
+			error: "Built-in instruct templates can't be edited."
+		})
+		return
+	}
+	if (existing.userId !== socket.user.id) {
+		emitToUser("error", { error: "Instruct template not found." })
+		return
+	}
+	// Connections reference templates by key, it never changes
+	const {
+		id: _id,
+		key,
+		userId,
+		isImmutable,
+		...updateData
+	} = message.instructTemplate
+	const [instructTemplate] = await db
+		.update(schema.instructTemplates)
+		.set(updateData)
+		.where(eq(schema.instructTemplates.id, id))
+		.returning()
+	await InstructTemplates.load()
+	await instructTemplatesList(socket, {}, emitToUser)
+	const res: Sockets.UpdateInstructTemplate.Response = { instructTemplate }
+	emitToUser("updateInstructTemplate", res)
+}
+
+export async function deleteInstructTemplate(
+	socket: any,
+	message: Sockets.DeleteInstructTemplate.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	const existing = await db.query.instructTemplates.findFirst({
+		where: (t, { eq }) => eq(t.id, message.id)
+	})
+	if (!existing || existing.isImmutable) {
+		emitToUser("error", {
+			error: "Built-in instruct templates can't be deleted."
+		})
+		return
+	}
+	if (existing.userId !== socket.user.id) {
+		emitToUser("error", { error: "Instruct template not found." })
+		return
+	}
+	// The user's connections using this template go back to the default format
+	await db
+		.update(schema.connections)
+		.set({ promptFormat: PromptFormats.VICUNA })
+		.where(
+			and(
+				eq(schema.connections.promptFormat, existing.key),
+				eq(schema.connections.userId, socket.user.id)
+			)
+		)
+	await db
+		.delete(schema.instructTemplates)
+		.where(eq(schema.instructTemplates.id, message.id))
+	await InstructTemplates.load()
+	await instructTemplatesList(socket, {}, emitToUser)
+	const res: Sockets.DeleteInstructTemplate.Response = { id: message.id }
+	emitToUser("deleteInstructTemplate", res)
+}
@@ -2,6 +2,12 @@ import dotenv from "dotenv"
 import os from "os"
 import * as skio from "sveltekit-io"
 import { connectSockets } from "$lib/server/sockets/index"
+import {
+	getCookieFromHeader,
+	SESSION_COOKIE_NAME,
+	validateSessionToken
+} from "$lib/server/utils/auth"
+import { InstructTemplates } from "$lib/server/utils/InstructTemplates"
 
 dotenv.config()
 
@@ -27,6 +33,33 @@ export async function loadSocketsServer() {
 		io.to = () => ({ emit: () => {} })
 	}
 
+	// Handshake authentication, every socket must belong to a valid session
+	if (!("use" in io)) {
+		throw new Error("Socket server failed to initialize")
+	}
+	io.use(async (socket: any, next: (err?: Error) => void) => {
+		try {
+			const token =
+				socket.handshake.auth?.token ||
+				getCookieFromHeader(
+					socket.handshake.headers?.cookie,
+					SESSION_COOKIE_NAME
+				)
+			const session = token ? await validateSessionToken(token) : null
+			if (!session) {
+				return next(new Error("Unauthorized"))
+			}
+			socket.user = session.user
+			next()
+		} catch (error) {
+			console.error("Socket authentication failed:", error)
+			next(new Error("Unauthorized"))
+		}
+	})
+
+	// Prompt formatting reads templates synchronously
+	await InstructTemplates.load()
+
 	connectSockets(io)
 	if (process.env.NODE_ENV !== "production") {
 		console.log("Socket server ready at", host)
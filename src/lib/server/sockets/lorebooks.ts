@@ -2,10 +2,48 @@ import { db } from "$lib/server/db"
 import * as schema from "$lib/server/db/schema"
 import type { SpecV3 } from "@lenml/char-card-reader"
 import { and, eq } from "drizzle-orm"
-import { CharacterBook } from "@lenml/char-card-reader"
+import { deleteLoreEntryEmbeddings } from "../utils/loreEmbeddings"
+import { parseLorebookImport } from "../utils/worldInfoImport"
+import {
+	buildLorebookExport,
+	getLorebookForExport
+} from "../utils/worldInfoExport"
+
+// Helper to check that a binding's character/persona belongs to the user
+async function userOwnsBindingTarget({
+	userId,
+	characterId,
+	personaId
+}: {
+	userId: number
+	characterId?: number | null
+	personaId?: number | null
+}): Promise<boolean> {
+	if (characterId) {
+		const character = await db.query.characters.findFirst({
+			where: (c, { and, eq }) =>
+				and(eq(c.id, characterId), eq(c.userId, userId)),
+			columns: { id: true }
+		})
+		if (!character) return false
+	}
+	if (personaId) {
+		const persona = await db.query.personas.findFirst({
+			where: (p, { and, eq }) =>
+				and(eq(p.id, personaId), eq(p.userId, userId)),
+			columns: { id: true }
+		})
+		if (!persona) return false
+	}
+	return true
+}
 
 // Helper function to process tags for lorebook creation/update
-async function processLorebookTags(lorebookId: number, tagNames: string[]) {
+async function processLorebookTags(
+	lorebookId: number,
+	tagNames: string[],
+	userId: number
+) {
 	if (!tagNames || tagNames.length === 0) return
 
 	// First, remove all existing tags for this lorebook
@@ -21,7 +59,10 @@ async function processLorebookTags(lorebookId: number, tagNames: string[]) {
 
 		// Check if tag exists
 		let existingTag = await db.query.tags.findFirst({
-			where: eq(schema.tags.name, tagName.trim())
+			where: and(
+				eq(schema.tags.name, tagName.trim()),
+				eq(schema.tags.userId, userId)
+			)
 		})
 
 		// Create tag if it doesn't exist
@@ -29,7 +70,8 @@ async function processLorebookTags(lorebookId: number, tagNames: string[]) {
 			const [newTag] = await db
 				.insert(schema.tags)
 				.values({
-					name: tagName.trim()
+					name: tagName.trim(),
+					userId
 					// description and colorPreset will use database defaults
 				})
 				.returning()
@@ -59,7 +101,7 @@ export async function lorebookList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	// Fetch all lorebooks for the user
-	const userId = 1 // TODO: Replace with actual user ID from socket data
+	const userId = socket.user.id
 	if (!userId) return socket.emit("lorebookList", { lorebookList: [] })
 	const books = await db.query.lorebooks.findMany({
 		where: (l, { eq }) => eq(l.userId, userId),
@@ -108,7 +150,7 @@ export async function lorebook(
 	message: Sockets.Lorebook.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // TODO: Replace with actual user ID from socket data
+	const userId = socket.user.id
 	if (!userId) return socket.emit("lorebookGet", { lorebook: null })
 	const book = await db.query.lorebooks.findFirst({
 		where: (l, { and, eq }) =>
@@ -148,7 +190,7 @@ export async function createLorebook(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 		const tags = message.tags || []
 
 		const [newBook] = await db
@@ -161,7 +203,7 @@ export async function createLorebook(
 
 		// Process tags after lorebook creation
 		if (tags.length > 0) {
-			await processLorebookTags(newBook.id, tags)
+			await processLorebookTags(newBook.id, tags, userId)
 		}
 
 		const res: Sockets.CreateLorebook.Response = { lorebook: newBook }
@@ -179,7 +221,7 @@ export async function updateLorebook(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 		const tags = message.lorebook.tags || []
 
 		// Only update fields that exist in the lorebooks table
@@ -187,6 +229,10 @@ export async function updateLorebook(
 			name: message.lorebook.name,
 			description: message.lorebook.description,
 			extraJson: message.lorebook.extraJson,
+			matchingStrategy: message.lorebook.matchingStrategy,
+			embeddingModel: message.lorebook.embeddingModel,
+			vectorThreshold: message.lorebook.vectorThreshold,
+			vectorMaxResults: message.lorebook.vectorMaxResults,
 			userId
 		}
 
@@ -208,7 +254,7 @@ export async function updateLorebook(
 		}
 
 		// Process tags after lorebook update
-		await processLorebookTags(updatedBook.id, tags)
+		await processLorebookTags(updatedBook.id, tags, userId)
 
 		// Fetch the complete updated lorebook with all related data
 		const completeBook = await db.query.lorebooks.findFirst({
@@ -253,7 +299,7 @@ export async function deleteLorebook(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const book = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -290,7 +336,7 @@ export async function createLorebookBinding(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		if (
 			!!message.lorebookBinding.characterId &&
@@ -301,6 +347,18 @@ export async function createLorebookBinding(
 			})
 		}
 
+		if (
+			!(await userOwnsBindingTarget({
+				userId,
+				characterId: message.lorebookBinding.characterId,
+				personaId: message.lorebookBinding.personaId
+			}))
+		) {
+			return socket.emit("error", {
+				error: "Character or persona not found."
+			})
+		}
+
 		// Get the lorebook
 		const book = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -361,7 +419,7 @@ export async function lorebookBindingList(
 	message: Sockets.LorebookBindingList.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // TODO: Replace with actual user ID from socket data
+	const userId = socket.user.id
 	if (!userId) return socket.emit("error", { error: "User not found." })
 
 	const book = await db.query.lorebooks.findFirst({
@@ -398,7 +456,7 @@ export async function updateLorebookBinding(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		// Make sure characterId or personaId is provided, but not both
 		if (
@@ -410,6 +468,18 @@ export async function updateLorebookBinding(
 			})
 		}
 
+		if (
+			!(await userOwnsBindingTarget({
+				userId,
+				characterId: message.lorebookBinding.characterId,
+				personaId: message.lorebookBinding.personaId
+			}))
+		) {
+			return socket.emit("error", {
+				error: "Character or persona not found."
+			})
+		}
+
 		const binding = await db.query.lorebookBindings.findFirst({
 			where: (b, { eq }) => eq(b.id, message.lorebookBinding.id),
 			with: {
@@ -464,7 +534,7 @@ export async function worldLoreEntryList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 		if (!userId) return socket.emit("error", { error: "User not found." })
 
 		const book = await db.query.lorebooks.findFirst({
@@ -499,7 +569,7 @@ export async function createWorldLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const data: InsertWorldLoreEntry = message.worldLoreEntry
 		data.name = data.name.trim()
@@ -657,7 +727,7 @@ export async function updateWorldLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const lorebook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -678,7 +748,11 @@ export async function updateWorldLoreEntry(
 		}
 
 		const entry = await db.query.worldLoreEntries.findFirst({
-			where: (e, { eq }) => eq(e.id, message.worldLoreEntry.id)
+			where: (e, { and, eq }) =>
+				and(
+					eq(e.id, message.worldLoreEntry.id),
+					eq(e.lorebookId, lorebook.id)
+				)
 		})
 
 		if (!entry) {
@@ -728,7 +802,7 @@ export async function deleteWorldLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const book = await db.query.lorebooks.findFirst({
 			where: (e, { eq }) =>
@@ -753,6 +827,7 @@ export async function deleteWorldLoreEntry(
 		await db
 			.delete(schema.worldLoreEntries)
 			.where(eq(schema.worldLoreEntries.id, message.id))
+		await deleteLoreEntryEmbeddings("worldLore", [message.id])
 
 		const res: Sockets.DeleteWorldLoreEntry.Response = {
 			// worldLoreEntry: lorebook.worldLoreEntries[0]
@@ -775,7 +850,7 @@ export async function updateWorldLoreEntryPositions(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const lorebook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -798,7 +873,12 @@ export async function updateWorldLoreEntryPositions(
 				db
 					.update(schema.worldLoreEntries)
 					.set({ position: update.position })
-					.where(eq(schema.worldLoreEntries.id, update.id))
+					.where(
+						and(
+							eq(schema.worldLoreEntries.id, update.id),
+							eq(schema.worldLoreEntries.lorebookId, lorebook.id)
+						)
+					)
 			)
 		}
 
@@ -829,7 +909,7 @@ export async function characterLoreEntryList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 		if (!userId) return socket.emit("error", { error: "User not found." })
 
 		const book = await db.query.lorebooks.findFirst({
@@ -866,7 +946,7 @@ export async function createCharacterLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const data: InsertCharacterLoreEntry = message.characterLoreEntry
 		data.name = data.name.trim()
@@ -942,7 +1022,7 @@ export async function updateCharacterLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const existingBook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -1021,7 +1101,7 @@ export async function deleteCharacterLoreEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const book = await db.query.lorebooks.findFirst({
 			where: (e, { eq }) =>
@@ -1046,6 +1126,7 @@ export async function deleteCharacterLoreEntry(
 		await db
 			.delete(schema.characterLoreEntries)
 			.where(eq(schema.characterLoreEntries.id, message.id))
+		await deleteLoreEntryEmbeddings("characterLore", [message.id])
 
 		const res: Sockets.DeleteCharacterLoreEntry.Response = {
 			id: message.id,
@@ -1071,7 +1152,7 @@ export async function updateCharacterLoreEntryPositions(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const lorebook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -1094,7 +1175,12 @@ export async function updateCharacterLoreEntryPositions(
 				db
 					.update(schema.characterLoreEntries)
 					.set({ position: update.position })
-					.where(eq(schema.characterLoreEntries.id, update.id))
+					.where(
+						and(
+							eq(schema.characterLoreEntries.id, update.id),
+							eq(schema.characterLoreEntries.lorebookId, lorebook.id)
+						)
+					)
 			)
 		}
 
@@ -1125,7 +1211,7 @@ export async function historyEntryList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 		if (!userId) return socket.emit("error", { error: "User not found." })
 
 		const book = await db.query.lorebooks.findFirst({
@@ -1160,7 +1246,7 @@ export async function createHistoryEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const existingBook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -1223,7 +1309,7 @@ export async function updateHistoryEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const existingBook = await db.query.lorebooks.findFirst({
 			where: (l, { and, eq }) =>
@@ -1298,7 +1384,7 @@ export async function deleteHistoryEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const book = await db.query.lorebooks.findFirst({
 			where: (e, { and, eq }) =>
@@ -1323,6 +1409,7 @@ export async function deleteHistoryEntry(
 		await db
 			.delete(schema.historyEntries)
 			.where(eq(schema.historyEntries.id, message.id))
+		await deleteLoreEntryEmbeddings("history", [message.id])
 
 		const res: Sockets.DeleteHistoryEntry.Response = {
 			id: message.id,
@@ -1346,7 +1433,7 @@ export async function iterateNextHistoryEntry(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		const book = await db.query.lorebooks.findFirst({
 			where: (e, { and, eq }) =>
@@ -1442,21 +1529,25 @@ export async function lorebookImport(
 ) {
 	try {
 		let charId: number | undefined = message.characterId
-		let char: Partial<SelectCharacter> | undefined = undefined
-		let card = CharacterBook.from_json(message.lorebookData)
+		let char:
+			| Pick<SelectCharacter, "id" | "name" | "nickname" | "lorebookId">
+			| undefined = undefined
 
-		if (!card) {
+		if (!message.lorebookData || typeof message.lorebookData !== "object") {
 			return socket.emit("error", { error: "No lorebook data provided." })
 		}
 
-		const userId = 1 // TODO: Replace with actual user ID from socket data
+		const userId = socket.user.id
 
 		// If message.characterId is provided, ensure it exists
 		if (charId) {
 			char = await db.query.characters.findFirst({
-				where: (c, { eq }) => eq(c.id, charId) && eq(c.userId, userId),
+				where: (c, { and, eq }) =>
+					and(eq(c.id, charId), eq(c.userId, userId)),
 				columns: {
 					id: true,
+					name: true,
+					nickname: true,
 					lorebookId: true
 				}
 			})
@@ -1473,56 +1564,70 @@ export async function lorebookImport(
 			}
 		}
 
+		const parsed = parseLorebookImport(message.lorebookData, {
+			character: char
+		})
+
 		const [book] = await db
 			.insert(schema.lorebooks)
 			.values({
-				name: card.name || "Imported Lorebook",
-				description: card.description,
+				name: parsed.name,
+				description: parsed.description,
 				userId,
-				extraJson: {}
+				extraJson: parsed.extraJson
 			})
 			.returning()
 
-		let position = 0
-		const queries: Promise<any>[] = []
-		card.entries.forEach((entry) => {
-			// World entries are the most agnostic, so we will import all entries as world lore entries
-			// Get priority from the entry. If the priority is null/less than 1,
-			// If the priority is greater than 3, set it to 3
-			if (entry.priority === null || (entry.priority || 1) < 1) {
-				entry.priority = 1
-			} else if ((entry.priority || 1) > 3) {
-				entry.priority = 3
-			}
-			queries.push(
-				db.insert(schema.worldLoreEntries).values({
-					name: entry.name || entry.comment || "Imported Entry",
-					content: entry.content || "",
+		// Create bindings first so character entries can reference them
+		const bindingIds: Record<string, number> = {}
+		for (const binding of parsed.bindings) {
+			const [created] = await db
+				.insert(schema.lorebookBindings)
+				.values({
 					lorebookId: book.id,
-					position,
-					keys: entry.keys.join(", ") || "",
-					enabled: entry.enabled ?? true,
-					constant: entry.constant ?? false,
-					priority: entry.priority || 1,
-					extraJson: {}
+					binding: binding.binding,
+					characterId: binding.isTargetCharacter ? char!.id : null,
+					personaId: null
 				})
-			)
-			position++
-		})
+				.returning()
+			bindingIds[binding.binding] = created.id
+		}
+
+		const queries: Promise<any>[] = []
+		for (const entry of parsed.entries) {
+			if (entry.type === "worldLore") {
+				queries.push(
+					db.insert(schema.worldLoreEntries).values({
+						...entry.values,
+						lorebookId: book.id
+					})
+				)
+			} else if (entry.type === "characterLore") {
+				queries.push(
+					db.insert(schema.characterLoreEntries).values({
+						...entry.values,
+						lorebookId: book.id,
+						lorebookBindingId: bindingIds[entry.binding]
+					})
+				)
+			} else {
+				queries.push(
+					db.insert(schema.historyEntries).values({
+						...entry.values,
+						lorebookId: book.id
+					})
+				)
+			}
+		}
 
 		await Promise.all(queries)
 
-		// If character Id, add the lorebook to the character, then add the character as a binding
+		// If character Id, add the lorebook to the character
 		if (char) {
 			await db
 				.update(schema.characters)
 				.set({ lorebookId: book.id })
-				.where(eq(schema.characters.id, char.id!))
-			await db.insert(schema.lorebookBindings).values({
-				characterId: char.id,
-				lorebookId: book.id,
-				binding: "{char:1}"
-			})
+				.where(eq(schema.characters.id, char.id))
 		}
 
 		const completedBook = await db.query.lorebooks.findFirst({
@@ -1536,7 +1641,8 @@ export async function lorebookImport(
 		})
 
 		const res: Sockets.LorebookImport.Response = {
-			lorebook: completedBook
+			lorebook: completedBook!,
+			report: parsed.report
 		}
 		emitToUser("lorebookImport", res)
 		const lbListReq: Sockets.LorebookList.Call = {
@@ -1548,3 +1654,32 @@ export async function lorebookImport(
 		socket.emit("error", { error: "Failed to import lorebook." })
 	}
 }
+
+export async function lorebookExport(
+	socket: any,
+	message: Sockets.LorebookExport.Call,
+	emitToUser: (event: string, data: any) => void
+) {
+	try {
+		const userId = socket.user.id
+		const lorebook = await getLorebookForExport(message.id, userId)
+		if (!lorebook) {
+			return socket.emit("error", { error: "Lorebook not found." })
+		}
+		const { fileName, data } = buildLorebookExport(
+			lorebook,
+			message.format
+		)
+		const res: Sockets.LorebookExport.Response = {
+			lorebookId: lorebook.id,
+			format: message.format,
+			fileName,
+			data
+		}
+		// Only the requesting client downloads the file
+		socket.emit("lorebookExport", res)
+	} catch (error) {
+		console.error("Error exporting lorebook:", error)
+		socket.emit("error", { error: "Failed to export lorebook." })
+	}
+}
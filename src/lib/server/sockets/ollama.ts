@@ -138,12 +138,16 @@ export async function ollamaConnectModel(
 	message: Sockets.OllamaConnectModel.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1
+	const userId = socket.user.id
 
 	try {
 		let existingConnection = await db.query.connections.findFirst({
 			where: (c, { eq }) =>
-				and(eq(c.type, "ollama"), eq(c.model, message.modelName))
+				and(
+					eq(c.type, "ollama"),
+					eq(c.model, message.modelName),
+					eq(c.userId, userId)
+				)
 		})
 
 		if (!existingConnection) {
@@ -154,6 +158,7 @@ export async function ollamaConnectModel(
 			// Create a new connection if it doesn't exist
 			const data = {
 				...ollamaAdapter.connectionDefaults,
+				userId,
 				name: connectionName,
 				model: message.modelName
 			}
@@ -4,7 +4,11 @@ import * as schema from "$lib/server/db/schema"
 import { handlePersonaAvatarUpload } from "../utils"
 
 // Helper function to process tags for persona creation/update
-async function processPersonaTags(personaId: number, tagNames: string[]) {
+async function processPersonaTags(
+	personaId: number,
+	tagNames: string[],
+	userId: number
+) {
 	if (!tagNames || tagNames.length === 0) return
 
 	// First, remove all existing tags for this persona
@@ -20,7 +24,10 @@ async function processPersonaTags(personaId: number, tagNames: string[]) {
 
 		// Check if tag exists
 		let existingTag = await db.query.tags.findFirst({
-			where: eq(schema.tags.name, tagName.trim())
+			where: and(
+				eq(schema.tags.name, tagName.trim()),
+				eq(schema.tags.userId, userId)
+			)
 		})
 
 		// Create tag if it doesn't exist
@@ -28,7 +35,8 @@ async function processPersonaTags(personaId: number, tagNames: string[]) {
 			const [newTag] = await db
 				.insert(schema.tags)
 				.values({
-					name: tagName.trim()
+					name: tagName.trim(),
+					userId
 					// description and colorPreset will use database defaults
 				})
 				.returning()
@@ -73,7 +81,7 @@ export async function personaList(
 				}
 			}
 		},
-		where: (p, { eq }) => eq(p.userId, 1) // TODO: Replace with actual user id
+		where: (p, { eq }) => eq(p.userId, socket.user.id)
 	})
 	const res: Sockets.PersonaList.Response = { personaList }
 	emitToUser("personaList", res)
@@ -85,7 +93,8 @@ export async function persona(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const persona = await db.query.personas.findFirst({
-		where: (p, { eq }) => eq(p.id, message.id),
+		where: (p, { and, eq }) =>
+			and(eq(p.id, message.id), eq(p.userId, socket.user.id)),
 		with: {
 			personaTags: {
 				with: {
@@ -122,12 +131,12 @@ export async function createPersona(
 
 		const [persona] = await db
 			.insert(schema.personas)
-			.values({ ...data, userId: 1 })
+			.values({ ...data, userId: socket.user.id })
 			.returning()
 
 		// Process tags after persona creation
 		if (tags.length > 0) {
-			await processPersonaTags(persona.id, tags)
+			await processPersonaTags(persona.id, tags, socket.user.id)
 		}
 
 		if (message.avatarFile) {
@@ -155,7 +164,7 @@ export async function updatePersona(
 	try {
 		const data = { ...message.persona }
 		const id = data.id
-		const userId = 1 // Replace with actual userId
+		const userId = socket.user.id
 		const tags = data.tags || []
 
 		// Remove fields that shouldn't be in the database update
@@ -175,8 +184,13 @@ export async function updatePersona(
 			)
 			.returning()
 
+		if (!updated) {
+			emitToUser("error", { error: "Persona not found." })
+			return
+		}
+
 		// Process tags after persona update
-		await processPersonaTags(id, tags)
+		await processPersonaTags(id, tags, userId)
 
 		if (message.avatarFile) {
 			await handlePersonaAvatarUpload({
@@ -203,7 +217,17 @@ export async function deletePersona(
 	message: Sockets.DeletePersona.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual userId
+	const userId = socket.user.id
+
+	const existing = await db.query.personas.findFirst({
+		where: (p, { and, eq }) =>
+			and(eq(p.id, message.id), eq(p.userId, userId)),
+		columns: { id: true }
+	})
+	if (!existing) {
+		emitToUser("error", { error: "Persona not found." })
+		return
+	}
 
 	// Delete persona tags first (cascade should handle this, but being explicit)
 	await db
@@ -1,6 +1,6 @@
 import { db } from "$lib/server/db"
 import * as schema from "$lib/server/db/schema"
-import { eq } from "drizzle-orm"
+import { and, eq } from "drizzle-orm"
 import { user as loadUser } from "./users"
 
 // List all prompt configs for the current user
@@ -10,6 +10,8 @@ export async function promptConfigsList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const promptConfigsList = await db.query.promptConfigs.findMany({
+		where: (c, { eq, isNull, or }) =>
+			or(isNull(c.userId), eq(c.userId, socket.user.id)),
 		columns: {
 			id: true,
 			name: true,
@@ -28,7 +30,11 @@ export async function promptConfig(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const promptConfig = await db.query.promptConfigs.findFirst({
-		where: (c, { eq }) => eq(c.id, message.id)
+		where: (c, { and, eq, isNull, or }) =>
+			and(
+				eq(c.id, message.id),
+				or(isNull(c.userId), eq(c.userId, socket.user.id))
+			)
 	})
 	if (promptConfig) {
 		const res: Sockets.PromptConfig.Response = { promptConfig }
@@ -44,7 +50,12 @@ export async function createPromptConfig(
 ) {
 	const [promptConfig] = await db
 		.insert(schema.promptConfigs)
-		.values(message.promptConfig)
+		.values({
+			...message.promptConfig,
+			id: undefined,
+			userId: socket.user.id,
+			isImmutable: false
+		})
 		.returning()
 	await promptConfigsList(socket, {}, emitToUser)
 	const res: Sockets.CreatePromptConfig.Response = { promptConfig }
@@ -62,11 +73,22 @@ export async function updatePromptConfig(
 	// Only delete if id is present and not required by type
 	if (Object.prototype.hasOwnProperty.call(updateData, "id"))
 		(updateData as any).id = undefined
+	updateData.userId = undefined
 	const [promptConfig] = await db
 		.update(schema.promptConfigs)
 		.set(updateData)
-		.where(eq(schema.promptConfigs.id, id))
+		.where(
+			and(
+				eq(schema.promptConfigs.id, id),
+				eq(schema.promptConfigs.userId, socket.user.id),
+				eq(schema.promptConfigs.isImmutable, false)
+			)
+		)
 		.returning()
+	if (!promptConfig) {
+		emitToUser("error", { error: "Prompt config not found." })
+		return
+	}
 	await promptConfigsList(socket, {}, emitToUser)
 	const res: Sockets.UpdatePromptConfig.Response = { promptConfig }
 	emitToUser("updatePromptConfig", res)
@@ -80,7 +102,13 @@ export async function deletePromptConfig(
 ) {
 	await db
 		.delete(schema.promptConfigs)
-		.where(eq(schema.promptConfigs.id, message.id))
+		.where(
+			and(
+				eq(schema.promptConfigs.id, message.id),
+				eq(schema.promptConfigs.userId, socket.user.id),
+				eq(schema.promptConfigs.isImmutable, false)
+			)
+		)
 	await promptConfigsList(socket, {}, emitToUser)
 	const res: Sockets.DeletePromptConfig.Response = { id: message.id }
 	emitToUser("deletePromptConfig", res)
@@ -92,7 +120,21 @@ export async function setUserActivePromptConfig(
 	message: Sockets.SetUserActivePromptConfig.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual userId
+	const userId = socket.user.id
+	if (message.id) {
+		const promptConfig = await db.query.promptConfigs.findFirst({
+			where: (c, { and, eq, isNull, or }) =>
+				and(
+					eq(c.id, message.id!),
+					or(isNull(c.userId), eq(c.userId, userId))
+				),
+			columns: { id: true }
+		})
+		if (!promptConfig) {
+			emitToUser("error", { error: "Prompt config not found." })
+			return
+		}
+	}
 	await db
 		.update(schema.users)
 		.set({
@@ -101,7 +143,10 @@ export async function setUserActivePromptConfig(
 		.where(eq(schema.users.id, userId))
 	// Fetch the updated user
 	const user = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, userId)
+		where: (u, { eq }) => eq(u.id, userId),
+		columns: {
+			passwordHash: false
+		}
 	})
 	await loadUser(socket, {}, emitToUser) // Emit updated user info
 	await promptConfig(socket, { id: message.id! }, emitToUser)
@@ -1,6 +1,6 @@
 import { db } from "$lib/server/db"
 import * as schema from "$lib/server/db/schema"
-import { eq } from "drizzle-orm"
+import { and, eq } from "drizzle-orm"
 import { user } from "./users"
 
 // --- WEIGHTS SOCKET HANDLERS ---
@@ -11,7 +11,11 @@ export async function sampling(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const sampling = await db.query.samplingConfigs.findFirst({
-		where: (w, { eq }) => eq(w.id, message.id),
+		where: (w, { and, eq, isNull, or }) =>
+			and(
+				eq(w.id, message.id),
+				or(isNull(w.userId), eq(w.userId, socket.user.id))
+			),
 		orderBy: (w, { asc }) => [asc(w.isImmutable), asc(w.name)]
 	})
 	emitToUser("sampling", { sampling })
@@ -23,6 +27,8 @@ export async function samplingConfigsList(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const samplingConfigsList = await db.query.samplingConfigs.findMany({
+		where: (w, { eq, isNull, or }) =>
+			or(isNull(w.userId), eq(w.userId, socket.user.id)),
 		columns: {
 			id: true,
 			name: true,
@@ -38,12 +44,26 @@ export async function setUserActiveSamplingConfig(
 	emitToUser: (event: string, data: any) => void
 ) {
 	const currentUser = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, 1)
+		where: (u, { eq }) => eq(u.id, socket.user.id)
 	})
 	if (!currentUser) {
 		emitToUser("error", { error: "User not found." })
 		return
 	}
+	if (message.id) {
+		const samplingConfig = await db.query.samplingConfigs.findFirst({
+			where: (w, { and, eq, isNull, or }) =>
+				and(
+					eq(w.id, message.id!),
+					or(isNull(w.userId), eq(w.userId, currentUser.id))
+				),
+			columns: { id: true }
+		})
+		if (!samplingConfig) {
+			emitToUser("error", { error: "Sampling config not found." })
+			return
+		}
+	}
 	const updatedUser = await db
 		.update(schema.users)
 		.set({
@@ -65,7 +85,12 @@ export async function createSamplingConfig(
 ) {
 	const [sampling] = await db
 		.insert(schema.samplingConfigs)
-		.values(message.sampling)
+		.values({
+			...message.sampling,
+			id: undefined,
+			userId: socket.user.id,
+			isImmutable: false
+		})
 		.returning()
 	await setUserActiveSamplingConfig(socket, { id: sampling.id }, emitToUser)
 	await samplingConfigsList(socket, {}, emitToUser)
@@ -80,14 +105,22 @@ export async function deleteSamplingConfig(
 	const currentSamplingConfig = await db.query.samplingConfigs.findFirst({
 		where: (w, { eq }) => eq(w.id, message.id)
 	})
-	if (currentSamplingConfig!.isImmutable) {
+	if (!currentSamplingConfig) {
+		emitToUser("error", { error: "Sampling config not found." })
+		return
+	}
+	if (currentSamplingConfig.isImmutable) {
 		emitToUser("error", {
 			error: "Cannot delete immutable samplingConfigs."
 		})
 		return
 	}
+	if (currentSamplingConfig.userId !== socket.user.id) {
+		emitToUser("error", { error: "Sampling config not found." })
+		return
+	}
 	const currentUser = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, 1)
+		where: (u, { eq }) => eq(u.id, socket.user.id)
 	})
 	if (currentUser!.activeSamplingConfigId === message.id) {
 		await setUserActiveSamplingConfig(socket, { id: 1 }, emitToUser)
@@ -107,10 +140,15 @@ export async function updateSamplingConfig(
 ) {
 	const id = message.sampling.id
 	delete message.sampling.id // Remove id from sampling object to avoid conflicts
+	delete message.sampling.userId
 	const currentSamplingConfig = await db.query.samplingConfigs.findFirst({
 		where: (w, { eq }) => eq(w.id, id)
 	})
-	if (currentSamplingConfig!.isImmutable) {
+	if (!currentSamplingConfig) {
+		emitToUser("error", { error: "Sampling config not found." })
+		return
+	}
+	if (currentSamplingConfig.isImmutable) {
 		emitToUser("error", {
 			error: "Cannot update immutable samplingConfigs."
 		})
@@ -119,8 +157,17 @@ export async function updateSamplingConfig(
 	const updatedSamplingConfig = await db
 		.update(schema.samplingConfigs)
 		.set(message.sampling)
-		.where(eq(schema.samplingConfigs.id, id))
+		.where(
+			and(
+				eq(schema.samplingConfigs.id, id),
+				eq(schema.samplingConfigs.userId, socket.user.id)
+			)
+		)
 		.returning()
+	if (!updatedSamplingConfig.length) {
+		emitToUser("error", { error: "Sampling config not found." })
+		return
+	}
 	await samplingConfigsList(socket, {}, emitToUser)
 	await sampling(socket, { id }, emitToUser)
 	await user(socket, {}, emitToUser)
@@ -3,11 +3,12 @@ import { eq, and } from "drizzle-orm"
 import * as schema from "$lib/server/db/schema"
 
 export async function tagsList(
-	_socket: any,
+	socket: any,
 	_message: any,
 	emitToUser: (event: string, data: any) => void
 ) {
 	const tagsList = await db.query.tags.findMany({
+		where: (t, { eq }) => eq(t.userId, socket.user.id),
 		orderBy: (t, { asc }) => asc(t.name)
 	})
 	const res = { tagsList }
@@ -16,13 +17,13 @@ export async function tagsList(
 
 export async function createTag(
 	socket: any,
-	message: { tag: InsertTag },
+	message: { tag: Omit<InsertTag, "userId"> },
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
 		const [tag] = await db
 			.insert(schema.tags)
-			.values(message.tag)
+			.values({ ...message.tag, id: undefined, userId: socket.user.id })
 			.returning()
 
 		const res = { tag }
@@ -51,8 +52,16 @@ export async function updateTag(
 				description: message.tag.description,
 				colorPreset: message.tag.colorPreset
 			})
-			.where(eq(schema.tags.id, message.tag.id))
+			.where(
+				and(
+					eq(schema.tags.id, message.tag.id),
+					eq(schema.tags.userId, socket.user.id)
+				)
+			)
 			.returning()
+		if (!tag) {
+			return socket.emit("updateTagError", { error: "Tag not found." })
+		}
 
 		const res = { tag }
 		emitToUser("updateTag", res)
@@ -73,6 +82,15 @@ export async function deleteTag(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
+		const tag = await db.query.tags.findFirst({
+			where: (t, { and, eq }) =>
+				and(eq(t.id, message.id), eq(t.userId, socket.user.id)),
+			columns: { id: true }
+		})
+		if (!tag) {
+			return socket.emit("deleteTagError", { error: "Tag not found." })
+		}
+
 		// First delete all character tag associations
 		await db
 			.delete(schema.characterTags)
@@ -100,6 +118,18 @@ export async function tagRelatedData(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
+		const userId = socket.user.id
+		const tag = await db.query.tags.findFirst({
+			where: (t, { and, eq }) =>
+				and(eq(t.id, message.tagId), eq(t.userId, userId)),
+			columns: { id: true }
+		})
+		if (!tag) {
+			return socket.emit("tagRelatedDataError", {
+				error: "Tag not found."
+			})
+		}
+
 		// Get characters with this tag
 		const characters = await db.query.characterTags.findMany({
 			where: eq(schema.characterTags.tagId, message.tagId),
@@ -107,6 +137,7 @@ export async function tagRelatedData(
 				character: {
 					columns: {
 						id: true,
+						userId: true,
 						name: true,
 						nickname: true,
 						description: true,
@@ -123,6 +154,7 @@ export async function tagRelatedData(
 				persona: {
 					columns: {
 						id: true,
+						userId: true,
 						name: true,
 						description: true,
 						avatar: true,
@@ -139,6 +171,7 @@ export async function tagRelatedData(
 				lorebook: {
 					columns: {
 						id: true,
+						userId: true,
 						name: true,
 						description: true,
 						createdAt: true
@@ -154,6 +187,7 @@ export async function tagRelatedData(
 				chat: {
 					columns: {
 						id: true,
+						userId: true,
 						name: true,
 						scenario: true,
 						createdAt: true,
@@ -176,10 +210,18 @@ export async function tagRelatedData(
 		})
 
 		const res = {
-			characters: characters.map((ct) => ct.character).filter(Boolean),
-			personas: personas.map((pt) => pt.persona).filter(Boolean),
-			lorebooks: lorebooks.map((lt) => lt.lorebook).filter(Boolean),
-			chats: chats.map((ct) => ct.chat)
+			characters: characters
+				.map((ct) => ct.character)
+				.filter((c) => c?.userId === userId),
+			personas: personas
+				.map((pt) => pt.persona)
+				.filter((p) => p?.userId === userId),
+			lorebooks: lorebooks
+				.map((lt) => lt.lorebook)
+				.filter((l) => l?.userId === userId),
+			chats: chats
+				.map((ct) => ct.chat)
+				.filter((c) => c?.userId === userId)
 		}
 
 		emitToUser("tagRelatedData", res)
@@ -197,6 +239,30 @@ export async function addTagToCharacter(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
+		const character = await db.query.characters.findFirst({
+			where: (c, { and, eq }) =>
+				and(
+					eq(c.id, message.characterId),
+					eq(c.userId, socket.user.id)
+				),
+			columns: { id: true }
+		})
+		if (!character) {
+			return socket.emit("addTagToCharacterError", {
+				error: "Character not found."
+			})
+		}
+		const tag = await db.query.tags.findFirst({
+			where: (t, { and, eq }) =>
+				and(eq(t.id, message.tagId), eq(t.userId, socket.user.id)),
+			columns: { id: true }
+		})
+		if (!tag) {
+			return socket.emit("addTagToCharacterError", {
+				error: "Tag not found."
+			})
+		}
+
 		await db
 			.insert(schema.characterTags)
 			.values({
@@ -221,6 +287,20 @@ export async function removeTagFromCharacter(
 	emitToUser: (event: string, data: any) => void
 ) {
 	try {
+		const character = await db.query.characters.findFirst({
+			where: (c, { and, eq }) =>
+				and(
+					eq(c.id, message.characterId),
+					eq(c.userId, socket.user.id)
+				),
+			columns: { id: true }
+		})
+		if (!character) {
+			return socket.emit("removeTagFromCharacterError", {
+				error: "Character not found."
+			})
+		}
+
 		await db
 			.delete(schema.characterTags)
 			.where(
@@ -1,15 +1,19 @@
 import { db } from "$lib/server/db"
 import { eq } from "drizzle-orm"
 import * as schema from "$lib/server/db/schema"
+import { redactConnection } from "../utils/connectionSecrets"
 
 export async function user(
 	socket: any,
 	message: {},
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const user = await db.query.users.findFirst({
 		where: (u, { eq }) => eq(u.id, userId),
+		columns: {
+			passwordHash: false
+		},
 		with: {
 			activeConnection: true,
 			activeSamplingConfig: true,
@@ -17,7 +21,12 @@ export async function user(
 			activePromptConfig: true
 		}
 	})
-	socket.server.to("user_" + userId).emit("user", { user })
+	socket.server.to("user_" + userId).emit("user", {
+		user: user && {
+			...user,
+			activeConnection: redactConnection(user.activeConnection)
+		}
+	})
 }
 
 const getUser = user
@@ -27,7 +36,7 @@ export async function setTheme(
 	message: Sockets.SetTheme.Call,
 	emitToUser: (event: string, data: any) => void
 ) {
-	const userId = 1 // Replace with actual user id
+	const userId = socket.user.id
 	const { theme, darkMode } = message
 
 	if (!theme) {
@@ -0,0 +1,174 @@
+import { Template } from "@huggingface/jinja"
+import type { CompletionMessage } from "../connectionAdapters/BaseConnectionAdapter"
+
+// A model's own Jinja chat template, as found in GGUF metadata or tokenizer_config.json
+export type ChatTemplate = {
+	template: string
+	bosToken?: string
+	eosToken?: string
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Chat templates for the "Auto" prompt format.
+ * Templates are rendered with @huggingface/jinja, which only sees the variables
+ * passed to it, so a template from a model file can't reach anything else.
+ */
+export class ChatTemplates {
+	private static resolved = new Map<
+		string,
+		{ chatTemplate: ChatTemplate; expires: number }
+	>()
+	private static compiled = new Map<string, Template>()
+
+	// Special tokens are plain strings or AddedToken objects ({ content: "<s>", ... })
+	private static tokenText(token: unknown): string | undefined {
+		if (typeof token === "string") return token
+		if (token && typeof token === "object" && "content" in token) {
+			const content = (token as { content: unknown }).content
+			return typeof content === "string" ? content : undefined
+		}
+		return undefined
+	}
+
+	/**
+	 * Read the chat template from a Hugging Face tokenizer_config.json
+	 */
+	static fromTokenizerConfig(json: string): ChatTemplate | null {
+		let config: any
+		try {
+			config = JSON.parse(json)
+		} catch {
+			return null
+		}
+		let template = config?.chat_template
+		// Some models ship several named templates, use the default one
+		if (Array.isArray(template)) {
+			template = (
+				template.find((t: any) => t?.name === "default") || template[0]
+			)?.template
+		}
+		if (typeof template !== "string" || !template) return null
+		return {
+			template,
+			bosToken: ChatTemplates.tokenText(config.bos_token),
+			eosToken: ChatTemplates.tokenText(config.eos_token)
+		}
+	}
+
+	/**
+	 * The connection's chat template. A tokenizer_config.json pasted into the
+	 * connection wins, otherwise whatever the backend reports for the model.
+	 */
+	static async resolve(
+		connection: SelectConnection,
+		fetchFromBackend?: () => Promise<ChatTemplate | null>
+	): Promise<ChatTemplate | null> {
+		const tokenizerConfig = connection.extraJson?.tokenizerConfig
+		if (tokenizerConfig) {
+			return ChatTemplates.fromTokenizerConfig(tokenizerConfig)
+		}
+		if (!fetchFromBackend) return null
+
+		const cacheKey = `${connection.id}:${connection.model || ""}`
+		const cached = ChatTemplates.resolved.get(cacheKey)
+		if (cached && cached.expires > Date.now()) return cached.chatTemplate
+
+		let chatTemplate: ChatTemplate | null = null
+		try {
+			chatTemplate = await fetchFromBackend()
+		} catch (e) {
+			console.warn("Failed to fetch the model's chat template:", e)
+		}
+		if (chatTemplate) {
+			ChatTemplates.resolved.set(cacheKey, {
+				chatTemplate,
+				expires: Date.now() + CACHE_TTL_MS
+			})
+		}
+		return chatTemplate
+	}
+
+	private static getTemplate(chatTemplate: ChatTemplate): Template {
+		let template = ChatTemplates.compiled.get(chatTemplate.template)
+		if (!template) {
+			template = new Template(chatTemplate.template)
+			ChatTemplates.compiled.set(chatTemplate.template, template)
+		}
+		return template
+	}
+
+	// Most templates expect user and assistant turns to alternate
+	private static mergeRoles(messages: CompletionMessage[]) {
+		const merged: CompletionMessage[] = []
+		for (const message of messages) {
+			const last = merged[merged.length - 1]
+			if (last && last.role === message.role) {
+				last.content += "\n\n" + message.content
+			} else {
+				merged.push({ ...message })
+			}
+		}
+		return merged
+	}
+
+	/**
+	 * Render messages to a text prompt that ends with the assistant turn opened
+	 */
+	static render(
+		chatTemplate: ChatTemplate,
+		messages: CompletionMessage[],
+		addGenerationPrompt = true
+	): string {
+		const template = ChatTemplates.getTemplate(chatTemplate)
+		const render = (msgs: CompletionMessage[]) =>
+			template.render({
+				messages: ChatTemplates.mergeRoles(msgs),
+				bos_token: chatTemplate.bosToken ?? "",
+				eos_token: chatTemplate.eosToken ?? "",
+				add_generation_prompt: addGenerationPrompt
+			})
+		try {
+			return render(messages)
+		} catch (e) {
+			// Templates that reject system messages (e.g. Gemma) get them as user turns
+			if (!messages.some((m) => m.role === "system")) throw e
+			return render(
+				messages.map((m) =>
+					m.role === "system" ? { ...m, role: "user" as const } : m
+				)
+			)
+		}
+	}
+
+	/**
+	 * Stop strings for a chat template: the EOS token and whatever the template
+	 * closes an assistant turn with
+	 */
+	static getStopStrings(chatTemplate?: ChatTemplate | null): string[] {
+		if (!chatTemplate) return []
+		const stopStrings: string[] = []
+		if (chatTemplate.eosToken) stopStrings.push(chatTemplate.eosToken)
+		try {
+			const reply = "<<assistant reply>>"
+			const probe = ChatTemplates.render(
+				chatTemplate,
+				[
+					{ role: "user", content: "Hi" },
+					{ role: "assistant", content: reply }
+				],
+				false
+			)
+			const index = probe.lastIndexOf(reply)
+			const endOfTurn =
+				index >= 0 ? probe.slice(index + reply.length).trim() : ""
+			if (endOfTurn && !stopStrings.includes(endOfTurn)) {
+				stopStrings.push(endOfTurn)
+			}
+		} catch (e) {
+			console.warn("Failed to derive stop strings from chat template:", e)
+		}
+		return stopStrings
+	}
+}
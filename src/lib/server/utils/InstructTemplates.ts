@@ -0,0 +1,32 @@
+import { db } from "$lib/server/db"
+import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+
+/**
+ * In-memory copy of the instructTemplates table, keyed by template key.
+ * Prompt formatting and stop strings are synchronous, so the table is loaded
+ * at startup and reloaded whenever a template changes.
+ */
+export class InstructTemplates {
+	private static templates = new Map<string, SelectInstructTemplate>()
+
+	static async load() {
+		const rows = await db.query.instructTemplates.findMany()
+		InstructTemplates.templates = new Map(rows.map((t) => [t.key, t]))
+	}
+
+	/**
+	 * Resolve a template for a user's connection. Built-in templates are shared,
+	 * user templates only resolve for their owner. Unknown, deleted or foreign
+	 * templates fall back to Vicuna, the default prompt format.
+	 */
+	static get(
+		key?: string | null,
+		userId?: number | null
+	): SelectInstructTemplate | undefined {
+		const template = key ? InstructTemplates.templates.get(key) : undefined
+		if (template && (!template.userId || template.userId === userId)) {
+			return template
+		}
+		return InstructTemplates.templates.get(PromptFormats.VICUNA)
+	}
+}
@@ -1,79 +1,39 @@
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
+import { InstructTemplates } from "./InstructTemplates"
+import { ChatTemplates, type ChatTemplate } from "./ChatTemplates"
 
 export class StopStrings {
 	static get({
 		format,
+		userId,
 		characters,
 		personas,
-		currentCharacterId
+		currentCharacterId,
+		currentPersonaId,
+		chatTemplate
 	}: {
 		format: (typeof PromptFormats.keys)[0]
+		userId?: number | null // Owner of the connection, see InstructTemplates.get
 		characters: SelectCharacter[]
 		personas: SelectPersona[]
 		currentCharacterId: number
+		currentPersonaId?: number // Set when the persona is speaking, see impersonatePersona
+		chatTemplate?: ChatTemplate | null // Only used by the Auto format
 	}): string[] {
-		let stopStrings: string[] = []
-
-		switch (format) {
-			case PromptFormats.CHATML:
-				stopStrings = [
-					"<|im_end|>",
-					"system:",
-					"System:",
-					"user:",
-					"User:",
-					"assistant:",
-					"Assistant:"
-				]
-				break
-			case PromptFormats.BASIC:
-				stopStrings = [
-					"system:",
-					"System:",
-					"user:",
-					"User:",
-					"assistant:",
-					"Assistant:"
-				]
-				break
-			case PromptFormats.VICUNA:
-				stopStrings = [
-					"</s>",
-					"system:",
-					"System:",
-					"user:",
-					"User:",
-					"assistant:",
-					"Assistant:"
-				]
-				break
-			case PromptFormats.OPENAI:
-				stopStrings = [
-					"system:",
-					"System:",
-					"user:",
-					"User:",
-					"assistant:",
-					"Assistant:"
-				]
-				break
-			case PromptFormats.LLAMA2_INST:
-				stopStrings = ["</s>", "User:", "Assistant:", "System:"]
-				break
-			default:
-				stopStrings = [
-					"system:",
-					"System:",
-					"user:",
-					"User:",
-					"assistant:",
-					"Assistant:"
-				]
+		const stopStrings: string[] = []
+		if (format === PromptFormats.AUTO) {
+			stopStrings.push(...ChatTemplates.getStopStrings(chatTemplate))
+		} else {
+			const template = InstructTemplates.get(format, userId)
+			stopStrings.push(...(template?.stopSequences || []))
+			if (template?.eos && !stopStrings.includes(template.eos)) {
+				stopStrings.push(template.eos)
+			}
 		}
 
 		// Iterate through characters and personas to add their names
 		characters.forEach((character) => {
-			if (character.id === currentCharacterId) {
+			if (!currentPersonaId && character.id === currentCharacterId) {
 				// Skip the current character to avoid premature stops
 				return
 			}
@@ -87,6 +47,7 @@ export class StopStrings {
 			}
 		})
 		personas.forEach((persona) => {
+			if (persona.id === currentPersonaId) return
 			if (persona.name) {
 				const userStop = `${persona.name}:`
 				stopStrings.push(userStop)
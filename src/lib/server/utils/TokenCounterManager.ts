@@ -92,6 +92,25 @@ export class GemmaTokenCounter implements TokenCounter {
 	}
 }
 
+/**
+ * Counts tokens with the backend's own tokenizer (see AdapterExports.countTokens).
+ * Falls back to the estimate when the backend can't be reached.
+ */
+export class RemoteTokenCounter implements TokenCounter {
+	private fallback = new EstimateTokenCounter()
+
+	constructor(private count: (text: string) => Promise<number>) {}
+
+	async countTokens(text: string): Promise<number> {
+		try {
+			return await this.count(text)
+		} catch (error) {
+			console.warn("Remote token count failed, using estimate:", error)
+			return this.fallback.countTokens(text)
+		}
+	}
+}
+
 export type TokenCounterDescriptor = {
 	label: string
 	counter: TokenCounter
@@ -216,20 +235,32 @@ export class TokenCounters {
 					)!.label,
 					counter: new GemmaTokenCounter()
 				}
+			],
+			[
+				TokenCounterOptions.BACKEND,
+				{
+					label: TokenCounterOptions.options.find(
+						(o) => o.value === TokenCounterOptions.BACKEND
+					)!.label,
+					// Used as is when the connection can't count tokens remotely
+					counter: new EstimateTokenCounter()
+				}
 			]
 		])
 
 	private active: string
+	private counter: TokenCounter
 
-	constructor(strategy: string = "estimate") {
+	constructor(strategy: string = "estimate", counter?: TokenCounter) {
 		if (!(strategy in TokenCounters.counters)) {
 			throw new Error(`Unknown strategy: ${strategy}`)
 		}
 		this.active = strategy
+		this.counter = counter || TokenCounters.counters[strategy].counter
 	}
 
 	countTokens(text: string): number | Promise<number> {
-		return TokenCounters.counters[this.active].counter.countTokens(text)
+		return this.counter.countTokens(text)
 	}
 
 	static availableStrategies(): Record<string, string> {
@@ -0,0 +1,118 @@
+import type { CompletionMessage } from "../connectionAdapters/BaseConnectionAdapter"
+import { getConnectionAdapter } from "./getConnectionAdapter"
+import { resolveContextBudget } from "./contextBudget"
+import { resolveChatConfigs } from "./chatConfigs"
+import {
+	getNaturalTurnOptions,
+	getNextCharacterTurn,
+	type TurnChat
+} from "./getNextCharacterTurn"
+import { GroupReplyStrategies } from "$lib/shared/constants/GroupReplyStrategies"
+
+const RECENT_MESSAGES = 10
+const NOBODY = "Nobody"
+
+function getSpeakerName(chat: TurnChat, message: SelectChatMessage) {
+	if (message.characterId) {
+		const character = chat.chatCharacters.find(
+			(cc) => cc.character.id === message.characterId
+		)?.character
+		if (character) return character.nickname || character.name
+	}
+	if (message.personaId) {
+		const persona = chat.chatPersonas.find(
+			(cp) => cp.persona.id === message.personaId
+		)?.persona
+		if (persona) return persona.name
+	}
+	return message.role === "assistant" ? "Assistant" : "User"
+}
+
+/**
+ * The LLM group reply strategy: the chat's connection picks who speaks next
+ * from the characters the natural strategy allows. Mentions are still
+ * answered first, and anything the model can't answer falls back to natural.
+ */
+export async function askNextCharacterTurn(
+	chat: TurnChat,
+	{
+		chatId,
+		userId,
+		triggered = false
+	}: { chatId: number; userId: number; triggered?: boolean }
+): Promise<number | null> {
+	const fallback = () =>
+		getNextCharacterTurn(chat, {
+			triggered,
+			strategy: GroupReplyStrategies.NATURAL
+		})
+	const { candidates, addressedId, canEnd } = getNaturalTurnOptions(chat, {
+		triggered
+	})
+	if (addressedId || !candidates.length) return fallback()
+	if (candidates.length === 1 && !canEnd) return candidates[0].character.id
+
+	try {
+		const configs = await resolveChatConfigs({ userId, chatId })
+		if (!configs.connection) return fallback()
+		const { Adapter } = getConnectionAdapter(configs.connection.type)
+		const contextBudget = await resolveContextBudget({
+			connection: configs.connection,
+			sampling: configs.sampling!
+		})
+		const adapter = new Adapter({
+			chat: chat as any,
+			connection: configs.connection,
+			sampling: configs.sampling!,
+			contextConfig: configs.contextConfig!,
+			promptConfig: configs.promptConfig!,
+			currentCharacterId: candidates[0].character.id,
+			contextBudget
+		})
+		if (!adapter.complete) return fallback()
+
+		const names = candidates.map(
+			(cc) => cc.character.nickname || cc.character.name
+		)
+		if (canEnd) names.push(NOBODY)
+		const personaName = chat.chatPersonas[0]?.persona.name || "the user"
+		const transcript = chat.chatMessages
+			.slice(-RECENT_MESSAGES)
+			.map((m) => `${getSpeakerName(chat, m)}: ${m.content}`)
+			.join("\n\n")
+		const messages: CompletionMessage[] = [
+			{
+				role: "system",
+				content:
+					`You direct a group conversation. Decide who should speak next so the conversation flows naturally. Answer with exactly one name from the list and nothing else.` +
+					(canEnd
+						? ` Answer "${NOBODY}" if it's ${personaName}'s turn to speak.`
+						: "")
+			},
+			{
+				role: "user",
+				content: `Conversation:\n${transcript}\n\nWho speaks next? One of: ${names.join(", ")}`
+			}
+		]
+		const answer = (
+			await adapter.complete(messages, { maxTokens: 16 })
+		).toLowerCase()
+
+		// The first name in the answer, models don't always answer tersely
+		let pickedId: number | null = null
+		let pickedIndex = Infinity
+		candidates.forEach((cc, i) => {
+			const index = answer.indexOf(names[i].toLowerCase())
+			if (index >= 0 && index < pickedIndex) {
+				pickedId = cc.character.id
+				pickedIndex = index
+			}
+		})
+		const nobodyIndex = canEnd ? answer.indexOf(NOBODY.toLowerCase()) : -1
+		if (nobodyIndex >= 0 && nobodyIndex < pickedIndex) return null
+		return pickedId ?? fallback()
+	} catch (error) {
+		console.warn("[askNextCharacterTurn] Falling back to natural:", error)
+		return fallback()
+	}
+}
@@ -0,0 +1,156 @@
+import { db } from "$lib/server/db"
+import * as schema from "$lib/server/db/schema"
+import { eq } from "drizzle-orm"
+import {
+	createHash,
+	randomBytes,
+	scrypt as scryptCb,
+	timingSafeEqual
+} from "crypto"
+import { promisify } from "util"
+
+const scrypt = promisify(scryptCb) as (
+	password: string,
+	salt: string,
+	keylen: number
+) => Promise<Buffer>
+
+export const SESSION_COOKIE_NAME = "serene_pub_session"
+
+const SESSION_LIFETIME_MS = 1000 * 60 * 60 * 24 * 30 // 30 days
+const SESSION_REFRESH_MS = 1000 * 60 * 60 * 24 * 15 // Extend when less than 15 days remain
+const PASSWORD_KEY_LENGTH = 64
+
+export type SessionUser = { id: number; username: string }
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16).toString("hex")
+	const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH)
+	return `scrypt$${salt}$${hash.toString("hex")}`
+}
+
+export async function verifyPassword(
+	password: string,
+	passwordHash: string | null
+): Promise<boolean> {
+	if (!passwordHash) return false
+	const [algo, salt, hashHex] = passwordHash.split("$")
+	if (algo !== "scrypt" || !salt || !hashHex) return false
+	const expected = Buffer.from(hashHex, "hex")
+	const actual = await scrypt(password, salt, expected.length)
+	return (
+		actual.length === expected.length && timingSafeEqual(actual, expected)
+	)
+}
+
+let accountClaimCode: string | null = null
+
+/**
+ * One-time code needed to set a password on an account created before logins
+ * existed (e.g. the default "admin"). It's only printed to the server console,
+ * so only whoever runs the server can claim those accounts.
+ */
+export function getAccountClaimCode(): string {
+	if (!accountClaimCode) {
+		accountClaimCode = randomBytes(4).toString("hex")
+		console.log(
+			`[Auth] Account claim code: ${accountClaimCode} (enter it on the login page to claim an existing account)`
+		)
+	}
+	return accountClaimCode
+}
+
+/**
+ * Check a claim code, a used code is replaced so it can't claim twice
+ */
+export function consumeAccountClaimCode(code: string): boolean {
+	if (!accountClaimCode || code.trim() !== accountClaimCode) return false
+	accountClaimCode = null
+	return true
+}
+
+function hashSessionToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex")
+}
+
+/**
+ * Create a session for the user.
+ * Only the hash of the token is stored, the raw token goes in the cookie.
+ */
+export async function createSession(
+	userId: number
+): Promise<{ token: string; expiresAt: Date }> {
+	const token = randomBytes(32).toString("hex")
+	const expiresAt = new Date(Date.now() + SESSION_LIFETIME_MS)
+	await db.insert(schema.sessions).values({
+		id: hashSessionToken(token),
+		userId,
+		expiresAt
+	})
+	return { token, expiresAt }
+}
+
+/**
+ * Resolve a session token to its user, or null if the session is missing/expired.
+ * Sessions close to expiring are extended.
+ */
+export async function validateSessionToken(
+	token: string
+): Promise<{ user: SessionUser; expiresAt: Date } | null> {
+	const sessionId = hashSessionToken(token)
+	const session = await db.query.sessions.findFirst({
+		where: (s, { eq }) => eq(s.id, sessionId),
+		with: {
+			user: {
+				columns: {
+					id: true,
+					username: true
+				}
+			}
+		}
+	})
+	if (!session) return null
+
+	const now = Date.now()
+	if (session.expiresAt.getTime() <= now) {
+		await db
+			.delete(schema.sessions)
+			.where(eq(schema.sessions.id, sessionId))
+		return null
+	}
+
+	let expiresAt = session.expiresAt
+	if (expiresAt.getTime() - now < SESSION_REFRESH_MS) {
+		expiresAt = new Date(now + SESSION_LIFETIME_MS)
+		await db
+			.update(schema.sessions)
+			.set({ expiresAt })
+			.where(eq(schema.sessions.id, sessionId))
+	}
+
+	return { user: session.user, expiresAt }
+}
+
+export async function invalidateSession(token: string) {
+	await db
+		.delete(schema.sessions)
+		.where(eq(schema.sessions.id, hashSessionToken(token)))
+}
+
+/**
+ * Read a single cookie from a raw Cookie header (used by the socket handshake)
+ */
+export function getCookieFromHeader(
+	header: string | undefined,
+	name: string
+): string | undefined {
+	if (!header) return undefined
+	for (const part of header.split(";")) {
+		const [key, ...value] = part.trim().split("=")
+		if (key === name) return decodeURIComponent(value.join("="))
+	}
+	return undefined
+}
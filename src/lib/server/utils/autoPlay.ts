@@ -0,0 +1,306 @@
+import { db } from "$lib/server/db"
+import * as schema from "$lib/server/db/schema"
+import { chatMessage } from "../sockets/chats"
+import { generateResponse } from "./generateResponse"
+import { getNextCharacterTurn, type TurnChat } from "./getNextCharacterTurn"
+import { askNextCharacterTurn } from "./askNextCharacterTurn"
+import { resolveChatConfigs } from "./chatConfigs"
+import { resolveContextBudget } from "./contextBudget"
+import { GroupReplyStrategies } from "$lib/shared/constants/GroupReplyStrategies"
+
+type AutoPlay = Sockets.AutoPlay.State & {
+	chatId: number
+	userId: number
+	isRunning: boolean // Whether a loop is taking turns, it may still be finishing one after a pause
+}
+
+const MIN_DELAY_SECONDS = 1
+// How long a turn waits on a reply generating elsewhere before giving up
+const GENERATING_TIMEOUT_MS = 1000 * 60 * 10
+
+// Playing and paused auto-plays, by chat id. They run on the server,
+// so they carry on when the page is reloaded or closed.
+export const activeAutoPlays = new Map<number, AutoPlay>()
+
+function toState(autoPlay: AutoPlay): Sockets.AutoPlay.State {
+	const { status, turns, maxTurns, tokens, tokenBudget, delay } = autoPlay
+	return { status, turns, maxTurns, tokens, tokenBudget, delay }
+}
+
+export function getChatAutoPlay(
+	chatId: number,
+	userId: number
+): Sockets.AutoPlay.State | null {
+	const autoPlay = activeAutoPlays.get(chatId)
+	return autoPlay && autoPlay.userId === userId ? toState(autoPlay) : null
+}
+
+function emitAutoPlay(
+	emitToUser: (event: string, data: any) => void,
+	chatId: number,
+	reason?: string
+) {
+	const autoPlay = activeAutoPlays.get(chatId)
+	const res: Sockets.AutoPlay.Response = {
+		chatId,
+		autoPlay: autoPlay ? toState(autoPlay) : null,
+		...(reason ? { reason } : {})
+	}
+	emitToUser("autoPlay", res)
+}
+
+async function getAutoPlayChat(chatId: number, userId: number) {
+	return db.query.chats.findFirst({
+		where: (c, { eq, and }) => and(eq(c.id, chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: {
+				with: { character: true },
+				orderBy: (cc, { asc }) => asc(cc.position)
+			},
+			chatPersonas: {
+				with: { persona: true },
+				orderBy: (cp, { asc }) => asc(cp.position)
+			},
+			chatMessages: {
+				where: (cm, { eq }) => eq(cm.isHidden, false),
+				orderBy: (cm, { asc }) => asc(cm.id)
+			}
+		}
+	})
+}
+
+async function countReplyTokens({
+	chatId,
+	userId,
+	characterId,
+	content
+}: {
+	chatId: number
+	userId: number
+	characterId: number
+	content: string
+}): Promise<number> {
+	const configs = await resolveChatConfigs({ userId, chatId, characterId })
+	if (!configs.connection) return 0
+	const { tokenCounter } = await resolveContextBudget({
+		connection: configs.connection,
+		sampling: configs.sampling!
+	})
+	return tokenCounter.countTokens(content)
+}
+
+/**
+ * Start auto-play in a group chat, or resume it if it's paused.
+ * The chat's settings are read again on resume, so a limit can be raised.
+ */
+export async function startChatAutoPlay({
+	socket,
+	emitToUser,
+	chatId,
+	userId
+}: {
+	socket: any
+	emitToUser: (event: string, data: any) => void
+	chatId: number
+	userId: number
+}) {
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) => and(eq(c.id, chatId), eq(c.userId, userId))
+	})
+	if (!chat) throw new Error("Chat not found.")
+	if (!chat.isGroup) throw new Error("Auto-play needs a group chat.")
+
+	const settings = {
+		maxTurns: chat.autoPlayMaxTurns,
+		tokenBudget: chat.autoPlayTokenBudget,
+		delay: Math.max(chat.autoPlayDelay, MIN_DELAY_SECONDS)
+	}
+	let autoPlay = activeAutoPlays.get(chatId)
+	if (autoPlay) {
+		Object.assign(autoPlay, settings, { status: "playing" })
+	} else {
+		autoPlay = {
+			chatId,
+			userId,
+			status: "playing",
+			turns: 0,
+			tokens: 0,
+			isRunning: false,
+			...settings
+		}
+		activeAutoPlays.set(chatId, autoPlay)
+	}
+	emitAutoPlay(emitToUser, chatId)
+
+	// A resume while the last turn is finishing is picked up by that loop
+	if (!autoPlay.isRunning) {
+		void runAutoPlay(autoPlay, { socket, emitToUser })
+	}
+}
+
+// Stops taking turns once the current one is done
+export function pauseChatAutoPlay(
+	emitToUser: (event: string, data: any) => void,
+	chatId: number,
+	reason?: string
+) {
+	const autoPlay = activeAutoPlays.get(chatId)
+	if (!autoPlay || autoPlay.status === "paused") return
+	autoPlay.status = "paused"
+	emitAutoPlay(emitToUser, chatId, reason)
+}
+
+export function stopChatAutoPlay(
+	emitToUser: (event: string, data: any) => void,
+	chatId: number,
+	reason?: string
+) {
+	if (!activeAutoPlays.delete(chatId)) return
+	emitAutoPlay(emitToUser, chatId, reason)
+}
+
+async function runAutoPlay(
+	autoPlay: AutoPlay,
+	{
+		socket,
+		emitToUser
+	}: {
+		socket: any
+		emitToUser: (event: string, data: any) => void
+	}
+) {
+	const { chatId, userId } = autoPlay
+	const wait = () =>
+		new Promise((resolve) =>
+			setTimeout(
+				resolve,
+				Math.max(autoPlay.delay, MIN_DELAY_SECONDS) * 1000
+			)
+		)
+	// Stopping, or stopping and starting again, replaces the entry
+	const isCurrent = () =>
+		activeAutoPlays.get(chatId) === autoPlay &&
+		autoPlay.status === "playing"
+	const stop = (reason: string) => {
+		if (activeAutoPlays.get(chatId) === autoPlay) {
+			stopChatAutoPlay(emitToUser, chatId, reason)
+		}
+	}
+
+	let waitingSince: number | null = null
+
+	autoPlay.isRunning = true
+	try {
+		while (isCurrent()) {
+			if (autoPlay.turns >= autoPlay.maxTurns) {
+				stop("Turn limit reached.")
+				break
+			}
+			if (
+				autoPlay.tokenBudget &&
+				autoPlay.tokens >= autoPlay.tokenBudget
+			) {
+				stop("Token budget reached.")
+				break
+			}
+
+			const chat = await getAutoPlayChat(chatId, userId)
+			if (!chat) {
+				stop("Chat not found.")
+				break
+			}
+			// Wait for replies started elsewhere, e.g. a regenerate
+			if (chat.chatMessages.some((m) => m.isGenerating)) {
+				waitingSince ??= Date.now()
+				if (Date.now() - waitingSince > GENERATING_TIMEOUT_MS) {
+					stop("A reply is stuck generating.")
+					break
+				}
+				await wait()
+				continue
+			}
+			waitingSince = null
+
+			// Triggered turns always pick someone, so the conversation carries on
+			const turnChat: TurnChat = {
+				chatMessages: chat.chatMessages,
+				chatCharacters: chat.chatCharacters.filter(
+					(cc) => cc.character !== null && cc.isActive
+				) as any,
+				chatPersonas: chat.chatPersonas.filter(
+					(cp) => cp.persona !== null
+				) as any
+			}
+			const characterId =
+				chat.groupReplyStrategy === GroupReplyStrategies.LLM
+					? await askNextCharacterTurn(turnChat, {
+							chatId,
+							userId,
+							triggered: true
+						})
+					: getNextCharacterTurn(turnChat, {
+							triggered: true,
+							strategy: chat.groupReplyStrategy
+						})
+			if (!characterId) {
+				stop("No character can take a turn.")
+				break
+			}
+			// Paused or stopped while the model picked a character
+			if (!isCurrent()) break
+
+			const [generatingMessage] = await db
+				.insert(schema.chatMessages)
+				.values({
+					userId,
+					chatId,
+					personaId: null,
+					characterId,
+					content: "",
+					role: "assistant",
+					isGenerating: true
+				})
+				.returning()
+			await chatMessage(
+				socket,
+				{ chatMessage: generatingMessage },
+				emitToUser
+			)
+			const ok = await generateResponse({
+				socket,
+				emitToUser,
+				chatId,
+				userId,
+				generatingMessage
+			})
+			if (!ok) {
+				if (isCurrent()) {
+					pauseChatAutoPlay(
+						emitToUser,
+						chatId,
+						"The reply was stopped."
+					)
+				}
+				break
+			}
+
+			const reply = await db.query.chatMessages.findFirst({
+				where: (cm, { eq }) => eq(cm.id, generatingMessage.id)
+			})
+			autoPlay.turns++
+			autoPlay.tokens += await countReplyTokens({
+				chatId,
+				userId,
+				characterId,
+				content: reply?.content || ""
+			})
+			if (isCurrent()) emitAutoPlay(emitToUser, chatId)
+			await wait()
+		}
+	} catch (error: any) {
+		console.error("[autoPlay] Stopping after an error:", error)
+		stop(error?.message || "Auto-play failed.")
+	} finally {
+		autoPlay.isRunning = false
+	}
+}
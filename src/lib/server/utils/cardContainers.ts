@@ -0,0 +1,219 @@
+// Minimal PNG tEXt chunk and zip (CHARX) reading/writing for character cards
+import { crc32, deflateRawSync, deflateSync, inflateRawSync } from "zlib"
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+
+export type PngChunk = { type: string; data: Buffer }
+
+export function isPng(buffer: Buffer): boolean {
+	return (
+		buffer.length > PNG_SIGNATURE.length &&
+		buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+	)
+}
+
+export function isZip(buffer: Buffer): boolean {
+	return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50
+}
+
+export function readPngChunks(buffer: Buffer): PngChunk[] {
+	if (!isPng(buffer)) throw new Error("Not a PNG file")
+	const chunks: PngChunk[] = []
+	let offset = PNG_SIGNATURE.length
+	while (offset + 8 <= buffer.length) {
+		const length = buffer.readUInt32BE(offset)
+		const type = buffer.toString("latin1", offset + 4, offset + 8)
+		const dataStart = offset + 8
+		if (dataStart + length + 4 > buffer.length) break
+		chunks.push({
+			type,
+			data: buffer.subarray(dataStart, dataStart + length)
+		})
+		offset = dataStart + length + 4 // Skip the CRC
+		if (type === "IEND") break
+	}
+	return chunks
+}
+
+export function writePngChunks(chunks: PngChunk[]): Buffer {
+	const parts: Buffer[] = [PNG_SIGNATURE]
+	for (const chunk of chunks) {
+		const header = Buffer.alloc(8)
+		header.writeUInt32BE(chunk.data.length, 0)
+		header.write(chunk.type, 4, "latin1")
+		const crc = Buffer.alloc(4)
+		crc.writeUInt32BE(
+			crc32(Buffer.concat([header.subarray(4), chunk.data]))
+		)
+		parts.push(header, chunk.data, crc)
+	}
+	return Buffer.concat(parts)
+}
+
+/**
+ * Read tEXt chunks as keyword -> text
+ */
+export function readPngTextChunks(buffer: Buffer): Record<string, string> {
+	const result: Record<string, string> = {}
+	for (const chunk of readPngChunks(buffer)) {
+		if (chunk.type !== "tEXt") continue
+		const separator = chunk.data.indexOf(0)
+		if (separator < 0) continue
+		const keyword = chunk.data.toString("latin1", 0, separator)
+		result[keyword] = chunk.data.toString("latin1", separator + 1)
+	}
+	return result
+}
+
+/**
+ * Replace the PNG's tEXt chunks for the given keywords.
+ * Existing chunks matching `removeKeyword` are dropped first.
+ */
+export function setPngTextChunks(
+	buffer: Buffer,
+	texts: Record<string, string>,
+	removeKeyword: (keyword: string) => boolean = () => false
+): Buffer {
+	const chunks = readPngChunks(buffer).filter((chunk) => {
+		if (chunk.type !== "tEXt") return true
+		const separator = chunk.data.indexOf(0)
+		const keyword = chunk.data.toString("latin1", 0, separator)
+		return !(keyword in texts) && !removeKeyword(keyword)
+	})
+	const textChunks: PngChunk[] = Object.entries(texts).map(
+		([keyword, text]) => ({
+			type: "tEXt",
+			data: Buffer.concat([
+				Buffer.from(keyword, "latin1"),
+				Buffer.from([0]),
+				Buffer.from(text, "latin1")
+			])
+		})
+	)
+	const iendIndex = chunks.findIndex((c) => c.type === "IEND")
+	chunks.splice(iendIndex < 0 ? chunks.length : iendIndex, 0, ...textChunks)
+	return writePngChunks(chunks)
+}
+
+/**
+ * A plain grey PNG, used when a character has no PNG avatar to embed the card into
+ */
+export function createPlaceholderPng(width = 400, height = 600): Buffer {
+	const ihdr = Buffer.alloc(13)
+	ihdr.writeUInt32BE(width, 0)
+	ihdr.writeUInt32BE(height, 4)
+	ihdr[8] = 8 // Bit depth
+	ihdr[9] = 2 // Truecolor RGB
+	// Each scanline starts with a filter byte
+	const rowLength = width * 3 + 1
+	const raw = Buffer.alloc(rowLength * height, 0x80)
+	for (let y = 0; y < height; y++) raw[y * rowLength] = 0
+	return writePngChunks([
+		{ type: "IHDR", data: ihdr },
+		{ type: "IDAT", data: deflateSync(raw) },
+		{ type: "IEND", data: Buffer.alloc(0) }
+	])
+}
+
+export type ZipEntry = { name: string; data: Buffer }
+
+// Already compressed formats are stored as they are
+const STORED_EXTENSIONS = /\.(png|jpe?g|gif|webp|mp3|ogg|mp4|webm|zip)$/i
+
+/**
+ * Write a zip archive (no zip64, which is fine for character cards)
+ */
+export function writeZip(entries: ZipEntry[]): Buffer {
+	const localParts: Buffer[] = []
+	const centralParts: Buffer[] = []
+	let offset = 0
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, "utf8")
+		const store = STORED_EXTENSIONS.test(entry.name)
+		const body = store ? entry.data : deflateRawSync(entry.data)
+		const crc = crc32(entry.data)
+
+		const local = Buffer.alloc(30)
+		local.writeUInt32LE(0x04034b50, 0)
+		local.writeUInt16LE(20, 4) // Version needed
+		local.writeUInt16LE(0x0800, 6) // UTF-8 names
+		local.writeUInt16LE(store ? 0 : 8, 8)
+		local.writeUInt32LE(crc, 14)
+		local.writeUInt32LE(body.length, 18)
+		local.writeUInt32LE(entry.data.length, 22)
+		local.writeUInt16LE(name.length, 26)
+		localParts.push(local, name, body)
+
+		const central = Buffer.alloc(46)
+		central.writeUInt32LE(0x02014b50, 0)
+		central.writeUInt16LE(20, 4) // Version made by
+		central.writeUInt16LE(20, 6) // Version needed
+		central.writeUInt16LE(0x0800, 8)
+		central.writeUInt16LE(store ? 0 : 8, 10)
+		central.writeUInt32LE(crc, 16)
+		central.writeUInt32LE(body.length, 20)
+		central.writeUInt32LE(entry.data.length, 24)
+		central.writeUInt16LE(name.length, 28)
+		central.writeUInt32LE(offset, 42)
+		centralParts.push(central, name)
+
+		offset += local.length + name.length + body.length
+	}
+	const centralDirectory = Buffer.concat(centralParts)
+	const end = Buffer.alloc(22)
+	end.writeUInt32LE(0x06054b50, 0)
+	end.writeUInt16LE(entries.length, 8)
+	end.writeUInt16LE(entries.length, 10)
+	end.writeUInt32LE(centralDirectory.length, 12)
+	end.writeUInt32LE(offset, 16)
+	return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * Read all files from a zip archive using its central directory
+ */
+export function readZip(buffer: Buffer): ZipEntry[] {
+	let endOffset = -1
+	for (let i = buffer.length - 22; i >= 0; i--) {
+		if (buffer.readUInt32LE(i) === 0x06054b50) {
+			endOffset = i
+			break
+		}
+	}
+	if (endOffset < 0) throw new Error("Invalid zip file")
+
+	const count = buffer.readUInt16LE(endOffset + 10)
+	let offset = buffer.readUInt32LE(endOffset + 16)
+	const entries: ZipEntry[] = []
+	for (let i = 0; i < count; i++) {
+		if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+			throw new Error("Invalid zip central directory")
+		}
+		const method = buffer.readUInt16LE(offset + 10)
+		const compressedSize = buffer.readUInt32LE(offset + 20)
+		const nameLength = buffer.readUInt16LE(offset + 28)
+		const extraLength = buffer.readUInt16LE(offset + 30)
+		const commentLength = buffer.readUInt16LE(offset + 32)
+		const localOffset = buffer.readUInt32LE(offset + 42)
+		const name = buffer.toString(
+			"utf8",
+			offset + 46,
+			offset + 46 + nameLength
+		)
+		offset += 46 + nameLength + extraLength + commentLength
+
+		if (name.endsWith("/")) continue // Directory
+		const localNameLength = buffer.readUInt16LE(localOffset + 26)
+		const localExtraLength = buffer.readUInt16LE(localOffset + 28)
+		const dataStart = localOffset + 30 + localNameLength + localExtraLength
+		const body = buffer.subarray(dataStart, dataStart + compressedSize)
+		if (method === 0) {
+			entries.push({ name, data: Buffer.from(body) })
+		} else if (method === 8) {
+			entries.push({ name, data: inflateRawSync(body) })
+		} else {
+			throw new Error(`Unsupported zip compression method ${method}`)
+		}
+	}
+	return entries
+}
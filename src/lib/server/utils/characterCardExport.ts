@@ -0,0 +1,301 @@
+// Builds V2/V3 character cards as PNG (chara/ccv3 tEXt chunks) or CHARX (zip) files
+import path from "path"
+import { readFile } from "fs/promises"
+import type { SpecV2, SpecV3 } from "@lenml/char-card-reader"
+import { db } from "$lib/server/db"
+import { CharacterCardExportFormats } from "$lib/shared/constants/CharacterCardExportFormats"
+import { LorebookExportFormats } from "$lib/shared/constants/LorebookExportFormats"
+import { getLocalImageFilePath } from "."
+import {
+	createPlaceholderPng,
+	isPng,
+	setPngTextChunks,
+	writeZip,
+	type ZipEntry
+} from "./cardContainers"
+import { buildLorebookExport, getLorebookForExport } from "./worldInfoExport"
+
+type CardAsset = NonNullable<SpecV3.CharacterCardV3["data"]["assets"]>[number]
+
+// The card's own image, "ccdefault:" points at the PNG carrying the card
+const MAIN_ICON = { type: "icon", name: "main" }
+
+// Keyword prefix for assets embedded in PNG cards, referenced as __asset:N
+export const PNG_ASSET_CHUNK_PREFIX = "chara-ext-asset_:"
+
+function isMainIcon(asset: CardAsset) {
+	return asset.type === MAIN_ICON.type && asset.name === MAIN_ICON.name
+}
+
+function toUnixSeconds(value: string | null | undefined): number | undefined {
+	const time = value ? Date.parse(value) : NaN
+	return isNaN(time) ? undefined : Math.floor(time / 1000)
+}
+
+/**
+ * Example dialogues are stored split on <START>, cards keep them as one string
+ */
+function toMesExample(exampleDialogues: string[]): string {
+	return exampleDialogues
+		.filter((d) => d.trim())
+		.map((d) => `<START>\n${d.trim()}`)
+		.join("\n")
+}
+
+/**
+ * Card extensions, with the depth prompt in SillyTavern's depth_prompt format
+ */
+function buildExtensions(character: SelectCharacter): Record<string, any> {
+	const extensions = Array.isArray(character.extensions)
+		? {}
+		: { ...(character.extensions || {}) }
+	if (character.depthPrompt) {
+		extensions.depth_prompt = {
+			prompt: character.depthPrompt,
+			depth: character.depthPromptDepth,
+			role: character.depthPromptRole
+		}
+	} else {
+		delete extensions.depth_prompt
+	}
+	return extensions
+}
+
+/**
+ * Build the V3 card data for a character, with tags and its linked lorebook
+ */
+export async function buildCharacterCardV3(
+	characterId: number,
+	userId: number
+): Promise<
+	| {
+			character: SelectCharacter
+			card: SpecV3.CharacterCardV3
+	  }
+	| undefined
+> {
+	const character = await db.query.characters.findFirst({
+		where: (c, { and, eq }) =>
+			and(eq(c.id, characterId), eq(c.userId, userId)),
+		with: {
+			characterTags: {
+				with: {
+					tag: true
+				}
+			}
+		}
+	})
+	if (!character) return undefined
+
+	let characterBook: SpecV3.Lorebook | undefined
+	if (character.lorebookId) {
+		const lorebook = await getLorebookForExport(
+			character.lorebookId,
+			userId
+		)
+		if (lorebook) {
+			characterBook = buildLorebookExport(
+				lorebook,
+				LorebookExportFormats.CHARACTER_BOOK
+			).data as SpecV3.Lorebook
+		}
+	}
+
+	const { characterTags, ...characterRow } = character
+	const metadata = character.metadata || {}
+	const card: SpecV3.CharacterCardV3 = {
+		spec: "chara_card_v3",
+		spec_version: "3.0",
+		data: {
+			name: character.name,
+			nickname: character.nickname || undefined,
+			description: character.description,
+			personality: character.personality || "",
+			scenario: character.scenario || "",
+			first_mes: character.firstMessage || "",
+			mes_example: toMesExample(character.exampleDialogues || []),
+			alternate_greetings: character.alternateGreetings || [],
+			group_only_greetings: character.groupOnlyGreetings || [],
+			creator_notes: character.creatorNotes || "",
+			creator_notes_multilingual:
+				character.creatorNotesMultilingual || {},
+			system_prompt: character.systemPrompt || "",
+			post_history_instructions: character.postHistoryInstructions || "",
+			tags: characterTags.map((ct) => ct.tag.name),
+			creator: metadata.creator || "",
+			character_version: character.characterVersion || "",
+			source: character.source || [],
+			assets: character.assets || [],
+			extensions: buildExtensions(character),
+			character_book: characterBook,
+			creation_date: toUnixSeconds(character.createdAt),
+			modification_date: toUnixSeconds(character.updatedAt)
+		}
+	}
+	return { character: characterRow as SelectCharacter, card }
+}
+
+/**
+ * V2 cards have no V3-only fields, those are only kept in the ccv3 chunk
+ */
+function toCardV2(card: SpecV3.CharacterCardV3): SpecV2.TavernCardV2 {
+	const { data } = card
+	return {
+		spec: "chara_card_v2",
+		spec_version: "2.0",
+		data: {
+			name: data.name,
+			description: data.description,
+			personality: data.personality,
+			scenario: data.scenario,
+			first_mes: data.first_mes,
+			mes_example: data.mes_example,
+			creator_notes: data.creator_notes,
+			system_prompt: data.system_prompt,
+			post_history_instructions: data.post_history_instructions,
+			alternate_greetings: data.alternate_greetings,
+			character_book: data.character_book as SpecV2.CharacterBook,
+			tags: data.tags,
+			creator: data.creator,
+			character_version: data.character_version,
+			extensions: data.extensions
+		}
+	}
+}
+
+function encodeCard(card: object): string {
+	return Buffer.from(JSON.stringify(card), "utf8").toString("base64")
+}
+
+async function readLocalFile(
+	url: string | null | undefined,
+	userId: number
+): Promise<Buffer | null> {
+	const filePath = getLocalImageFilePath(url, userId)
+	if (!filePath) return null
+	try {
+		return await readFile(filePath)
+	} catch (e) {
+		console.warn("Character card asset not found:", url)
+		return null
+	}
+}
+
+function getExt(url: string, fallback: string) {
+	return path.extname(url).slice(1).toLowerCase() || fallback
+}
+
+function getAssetFolder(ext: string) {
+	if (/^(png|jpe?g|gif|webp|avif)$/.test(ext)) return "images"
+	if (/^(mp3|ogg|wav|flac)$/.test(ext)) return "audio"
+	return "other"
+}
+
+async function buildPng(
+	character: SelectCharacter,
+	card: SpecV3.CharacterCardV3
+): Promise<Buffer> {
+	const avatar = await readLocalFile(character.avatar, character.userId)
+	// Only PNG avatars can carry tEXt chunks
+	const image = avatar && isPng(avatar) ? avatar : createPlaceholderPng()
+
+	// Local assets are embedded as extra chunks
+	const assetChunks: Record<string, string> = {}
+	const assets: CardAsset[] = [
+		{ ...MAIN_ICON, uri: "ccdefault:", ext: "png" }
+	]
+	for (const asset of card.data.assets || []) {
+		if (isMainIcon(asset)) continue
+		const data = await readLocalFile(asset.uri, character.userId)
+		if (data) {
+			const index = Object.keys(assetChunks).length
+			assetChunks[`${PNG_ASSET_CHUNK_PREFIX}${index}`] =
+				data.toString("base64")
+			assets.push({ ...asset, uri: `__asset:${index}` })
+		} else {
+			assets.push(asset)
+		}
+	}
+
+	const cardV3 = { ...card, data: { ...card.data, assets } }
+	return setPngTextChunks(
+		image,
+		{
+			chara: encodeCard(toCardV2(cardV3)),
+			ccv3: encodeCard(cardV3),
+			...assetChunks
+		},
+		// Drop card data from a previously imported image
+		(keyword) =>
+			keyword.toLowerCase() === "chara" ||
+			keyword.startsWith(PNG_ASSET_CHUNK_PREFIX)
+	)
+}
+
+async function buildCharx(
+	character: SelectCharacter,
+	card: SpecV3.CharacterCardV3
+): Promise<Buffer> {
+	const files: ZipEntry[] = []
+	const assets: CardAsset[] = []
+
+	const avatar = await readLocalFile(character.avatar, character.userId)
+	if (avatar) {
+		const ext = getExt(character.avatar!, "png")
+		const name = `assets/icon/images/main.${ext}`
+		files.push({ name, data: avatar })
+		assets.push({ ...MAIN_ICON, uri: `embeded://${name}`, ext })
+	}
+
+	for (const [index, asset] of (card.data.assets || []).entries()) {
+		if (isMainIcon(asset)) continue
+		const data = await readLocalFile(asset.uri, character.userId)
+		if (!data) {
+			assets.push(asset)
+			continue
+		}
+		const ext = asset.ext || getExt(asset.uri, "bin")
+		const fileName = `${asset.name || "asset"}_${index}`.replace(
+			/[^\w\-]+/g,
+			"_"
+		)
+		const name = `assets/${asset.type || "other"}/${getAssetFolder(ext)}/${fileName}.${ext}`
+		files.push({ name, data })
+		assets.push({ ...asset, uri: `embeded://${name}`, ext })
+	}
+
+	const cardV3 = { ...card, data: { ...card.data, assets } }
+	files.unshift({
+		name: "card.json",
+		data: Buffer.from(JSON.stringify(cardV3, null, 2), "utf8")
+	})
+	return writeZip(files)
+}
+
+/**
+ * Export a character card file in the given format
+ */
+export async function buildCharacterCardExport(
+	characterId: number,
+	userId: number,
+	format: string
+): Promise<{ fileName: string; mimeType: string; data: Buffer } | undefined> {
+	const built = await buildCharacterCardV3(characterId, userId)
+	if (!built) return undefined
+	const { character, card } = built
+	const baseName =
+		character.name.replace(/[^\w\- ]+/g, "").trim() || "character"
+
+	if (format === CharacterCardExportFormats.CHARX) {
+		return {
+			fileName: `${baseName}.charx`,
+			mimeType: "application/zip",
+			data: await buildCharx(character, card)
+		}
+	}
+	return {
+		fileName: `${baseName}.png`,
+		mimeType: "image/png",
+		data: await buildPng(character, card)
+	}
+}
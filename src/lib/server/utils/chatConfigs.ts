@@ -0,0 +1,113 @@
+import { db } from "$lib/server/db"
+
+export type ChatConfigSource = "character" | "chat" | "user"
+
+export type ChatConfigs = {
+	connection: SelectConnection | null
+	sampling: SelectSamplingConfig | null
+	contextConfig: SelectContextConfig | null
+	promptConfig: SelectPromptConfig | null
+	sources: {
+		connection: ChatConfigSource | null
+		sampling: ChatConfigSource | null
+		contextConfig: ChatConfigSource | null
+		promptConfig: ChatConfigSource | null
+	}
+}
+
+const overrides = {
+	connection: true,
+	samplingConfig: true,
+	contextConfig: true,
+	promptConfig: true
+} as const
+
+// The first override that's set wins
+function pick<T>(
+	candidates: [ChatConfigSource, T | null | undefined][]
+): [T | null, ChatConfigSource | null] {
+	for (const [source, value] of candidates) {
+		if (value) return [value, source]
+	}
+	return [null, null]
+}
+
+/**
+ * The configs a generation should use, resolved character -> chat -> user.
+ * A group chat can run each character on its own connection this way.
+ */
+export async function resolveChatConfigs({
+	userId,
+	chatId,
+	characterId
+}: {
+	userId: number
+	chatId: number
+	characterId?: number | null
+}): Promise<ChatConfigs> {
+	const user = await db.query.users.findFirst({
+		where: (u, { eq }) => eq(u.id, userId),
+		with: {
+			activeConnection: true,
+			activeSamplingConfig: true,
+			activeContextConfig: true,
+			activePromptConfig: true
+		}
+	})
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) => and(eq(c.id, chatId), eq(c.userId, userId)),
+		columns: { id: true },
+		with: overrides
+	})
+	const chatCharacter =
+		chat && characterId
+			? await db.query.chatCharacters.findFirst({
+					where: (cc, { eq, and }) =>
+						and(
+							eq(cc.chatId, chatId),
+							eq(cc.characterId, characterId)
+						),
+					with: overrides
+				})
+			: undefined
+
+	// Only the user's own configs or the built-in ones apply
+	const usable = <T extends { userId: number | null }>(
+		config: T | null | undefined
+	) =>
+		config && (!config.userId || config.userId === userId) ? config : null
+
+	const [connection, connectionSource] = pick([
+		["character", usable(chatCharacter?.connection)],
+		["chat", usable(chat?.connection)],
+		["user", usable(user?.activeConnection)]
+	])
+	const [sampling, samplingSource] = pick([
+		["character", usable(chatCharacter?.samplingConfig)],
+		["chat", usable(chat?.samplingConfig)],
+		["user", usable(user?.activeSamplingConfig)]
+	])
+	const [contextConfig, contextConfigSource] = pick([
+		["character", usable(chatCharacter?.contextConfig)],
+		["chat", usable(chat?.contextConfig)],
+		["user", usable(user?.activeContextConfig)]
+	])
+	const [promptConfig, promptConfigSource] = pick([
+		["character", usable(chatCharacter?.promptConfig)],
+		["chat", usable(chat?.promptConfig)],
+		["user", usable(user?.activePromptConfig)]
+	])
+
+	return {
+		connection,
+		sampling,
+		contextConfig,
+		promptConfig,
+		sources: {
+			connection: connectionSource,
+			sampling: samplingSource,
+			contextConfig: contextConfigSource,
+			promptConfig: promptConfigSource
+		}
+	}
+}
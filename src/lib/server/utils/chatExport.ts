@@ -0,0 +1,292 @@
+// Serializes chats to SillyTavern JSONL, Markdown and standalone HTML transcripts
+import path from "path"
+import { readFile } from "fs/promises"
+import { db } from "$lib/server/db"
+import { ChatExportFormats } from "$lib/shared/constants/ChatExportFormats"
+import { renderMarkdownWithQuotedText } from "$lib/shared/utils/markdownToHTML"
+import { getLocalImageFilePath } from "."
+
+type ExportableChat = NonNullable<Awaited<ReturnType<typeof getChatForExport>>>
+
+type Speaker = {
+	name: string
+	avatar: string | null
+}
+
+// SillyTavern stores the author's note role as a number
+const ST_NOTE_ROLES: Record<string, number> = {
+	system: 0,
+	user: 1,
+	assistant: 2
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".webp": "image/webp",
+	".gif": "image/gif"
+}
+
+/**
+ * Load a chat with its cast and messages for export, scoped to the user
+ */
+export async function getChatForExport(
+	chatId: number,
+	userId: number,
+	{ excludeHidden = false }: { excludeHidden?: boolean } = {}
+) {
+	return db.query.chats.findFirst({
+		where: (c, { and, eq }) => and(eq(c.id, chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: {
+				with: { character: true },
+				orderBy: (cc, { asc }) => asc(cc.position)
+			},
+			chatPersonas: {
+				with: { persona: true },
+				orderBy: (cp, { asc }) => asc(cp.position)
+			},
+			chatMessages: {
+				where: excludeHidden
+					? (cm, { eq }) => eq(cm.isHidden, false)
+					: undefined,
+				orderBy: (cm, { asc }) => asc(cm.id)
+			}
+		}
+	})
+}
+
+function getSpeaker(chat: ExportableChat, message: SelectChatMessage): Speaker {
+	if (message.characterId) {
+		const character = chat.chatCharacters.find(
+			(cc) => cc.character?.id === message.characterId
+		)?.character
+		if (character) {
+			return {
+				name: character.nickname || character.name,
+				avatar: character.avatar
+			}
+		}
+	}
+	if (message.personaId) {
+		const persona = chat.chatPersonas.find(
+			(cp) => cp.persona?.id === message.personaId
+		)?.persona
+		if (persona) return { name: persona.name, avatar: persona.avatar }
+	}
+	return {
+		name: message.role === "assistant" ? "Assistant" : "User",
+		avatar: null
+	}
+}
+
+/**
+ * Swipes in SillyTavern's format, with the shown swipe holding the current content
+ */
+function toSillyTavernSwipes(message: SelectChatMessage) {
+	const swipes = message.metadata?.swipes
+	if (!swipes || !Array.isArray(swipes.history) || !swipes.history.length) {
+		return {}
+	}
+	const history = [...(swipes.history as string[])]
+	let swipeId = Math.max(swipes.currentIdx ?? 0, 0)
+	if (swipeId >= history.length) {
+		history.push(message.content)
+		swipeId = history.length - 1
+	} else {
+		history[swipeId] = message.content
+	}
+	return {
+		swipes: history,
+		swipe_id: swipeId,
+		swipe_info: history.map(() => ({
+			send_date: message.createdAt,
+			extra: {}
+		}))
+	}
+}
+
+function buildJsonl(chat: ExportableChat): string {
+	const header = {
+		user_name: chat.chatPersonas[0]?.persona?.name || "User",
+		character_name: chat.chatCharacters[0]?.character?.name || "Assistant",
+		create_date: chat.createdAt,
+		chat_metadata: {
+			note_prompt: chat.authorsNote || "",
+			note_interval: chat.authorsNoteFrequency,
+			note_depth: chat.authorsNoteDepth,
+			note_role: ST_NOTE_ROLES[chat.authorsNoteRole] ?? 0
+		}
+	}
+	const lines = chat.chatMessages.map((message) =>
+		JSON.stringify({
+			name: getSpeaker(chat, message).name,
+			is_user: message.role === "user",
+			is_system: message.isHidden, // SillyTavern hides system messages from the prompt
+			send_date: message.createdAt,
+			mes: message.content,
+			extra: {},
+			...toSillyTavernSwipes(message)
+		})
+	)
+	return [JSON.stringify(header), ...lines].join("\n") + "\n"
+}
+
+function buildMarkdown(chat: ExportableChat): string {
+	const lines = [`# ${chat.name || "Untitled Chat"}`]
+	if (chat.scenario?.trim()) {
+		lines.push("", `> ${chat.scenario.trim().replaceAll("\n", "\n> ")}`)
+	}
+	for (const message of chat.chatMessages) {
+		const hidden = message.isHidden ? " _(hidden)_" : ""
+		lines.push(
+			"",
+			"---",
+			"",
+			`**${getSpeaker(chat, message).name}**${hidden} · ${message.createdAt}`,
+			"",
+			message.content
+		)
+	}
+	return lines.join("\n") + "\n"
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;")
+		.replaceAll("'", "&#39;")
+}
+
+// Avatar as a data URI so the transcript works offline, null if it can't be read
+async function embedAvatar(
+	url: string | null,
+	userId: number
+): Promise<string | null> {
+	const filePath = getLocalImageFilePath(url, userId)
+	const mimeType =
+		filePath && IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()]
+	if (!filePath || !mimeType) return null
+	try {
+		const data = await readFile(filePath)
+		return `data:${mimeType};base64,${data.toString("base64")}`
+	} catch {
+		return null
+	}
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #16161d; color: #e4e4ec; font: 16px/1.5 system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 1.5rem 1rem; }
+h1 { margin: 0 0 0.5rem; }
+.scenario { margin: 0 0 1.5rem; color: #a9a9b8; font-style: italic; }
+.message { display: flex; gap: 0.75rem; margin-bottom: 0.75rem; padding: 0.75rem; border-radius: 0.5rem; background: #23232e; }
+.message.user { background: #1c2433; }
+.message.hidden { opacity: 0.5; }
+.avatar { flex: none; width: 3rem; height: 3rem; border-radius: 50%; object-fit: cover; }
+.avatar.placeholder { display: flex; align-items: center; justify-content: center; background: #3a3a4a; font-weight: bold; }
+.body { min-width: 0; flex: 1; }
+.body header { display: flex; justify-content: space-between; gap: 0.5rem; margin-bottom: 0.25rem; }
+.body time { color: #a9a9b8; font-size: 0.8rem; }
+.rendered-chat-message-content { overflow-x: auto; }
+.rendered-chat-message-content p { margin: 0; word-wrap: break-word; }
+.rendered-chat-message-content p + p { margin-top: 1em; }
+.rendered-chat-message-content em { color: #c3c3d1; }
+.rendered-chat-message-content span.quoted-text { color: #f2c879; }
+`
+
+async function buildHtml(
+	chat: ExportableChat,
+	userId: number
+): Promise<string> {
+	const title = escapeHtml(chat.name || "Untitled Chat")
+	const avatars = new Map<string, string | null>()
+	const articles: string[] = []
+	for (const message of chat.chatMessages) {
+		const speaker = getSpeaker(chat, message)
+		if (speaker.avatar && !avatars.has(speaker.avatar)) {
+			avatars.set(
+				speaker.avatar,
+				await embedAvatar(speaker.avatar, userId)
+			)
+		}
+		const avatar = speaker.avatar ? avatars.get(speaker.avatar) : null
+		const classes = [
+			"message",
+			message.role === "user" ? "user" : "",
+			message.isHidden ? "hidden" : ""
+		]
+			.filter(Boolean)
+			.join(" ")
+		articles.push(
+			`<article class="${classes}">` +
+				(avatar
+					? `<img class="avatar" src="${avatar}" alt="">`
+					: `<div class="avatar placeholder" aria-hidden="true">${escapeHtml(speaker.name.charAt(0).toUpperCase())}</div>`) +
+				`<div class="body"><header><strong>${escapeHtml(speaker.name)}</strong><time>${escapeHtml(message.createdAt)}</time></header>` +
+				// Rendered the same way as in the chat page
+				`<div class="rendered-chat-message-content">${renderMarkdownWithQuotedText(message.content)}</div></div>` +
+				`</article>`
+		)
+	}
+	const scenario = chat.scenario?.trim()
+		? `<p class="scenario">${escapeHtml(chat.scenario.trim())}</p>`
+		: ""
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+${scenario}
+${articles.join("\n")}
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Build a chat export file in the given ChatExportFormats format
+ */
+export async function buildChatExport(
+	chatId: number,
+	userId: number,
+	format: string,
+	{ excludeHidden = false }: { excludeHidden?: boolean } = {}
+): Promise<{ fileName: string; mimeType: string; data: string } | undefined> {
+	const chat = await getChatForExport(chatId, userId, { excludeHidden })
+	if (!chat) return undefined
+	const baseName = chat.name?.replace(/[^\w\- ]+/g, "").trim() || "chat"
+
+	switch (format) {
+		case ChatExportFormats.JSONL:
+			return {
+				fileName: `${baseName}.jsonl`,
+				mimeType: "application/jsonl",
+				data: buildJsonl(chat)
+			}
+		case ChatExportFormats.MARKDOWN:
+			return {
+				fileName: `${baseName}.md`,
+				mimeType: "text/markdown",
+				data: buildMarkdown(chat)
+			}
+		case ChatExportFormats.HTML:
+			return {
+				fileName: `${baseName}.html`,
+				mimeType: "text/html",
+				data: await buildHtml(chat, userId)
+			}
+		default:
+			throw new Error(`Unknown chat export format: ${format}`)
+	}
+}
@@ -0,0 +1,166 @@
+// Rolling summaries of chat messages that fell out of the prompt, exposed to templates as {{summary}}
+import { db } from "$lib/server/db"
+import * as schema from "$lib/server/db/schema"
+import type { CompletionMessage } from "../connectionAdapters/BaseConnectionAdapter"
+import { getConnectionAdapter } from "./getConnectionAdapter"
+import { resolveContextBudget } from "./contextBudget"
+import { resolveChatConfigs } from "./chatConfigs"
+
+// Wait for a few excluded messages so we don't summarize on every turn
+const MIN_MESSAGES_PER_SUMMARY = 8
+const SUMMARY_MAX_TOKENS = 512
+// Share of the context a single summary request may use for the transcript
+const TRANSCRIPT_CONTEXT_PERCENT = 0.6
+
+const SUMMARY_INSTRUCTIONS = `You are keeping the memory of an ongoing story. Summarize the new part of the conversation below so it can be remembered after it leaves the context window.
+Write a concise summary in past tense covering key events, decisions, revealed facts, changes in relationships and unresolved threads. Use character names. Do not invent anything and do not continue the story. Reply with the summary only.`
+
+// Chats with a summary job in flight
+const summarizingChats = new Set<number>()
+
+type SummaryChat = NonNullable<Awaited<ReturnType<typeof getSummaryChat>>>
+
+async function getSummaryChat(chatId: number, userId: number) {
+	return db.query.chats.findFirst({
+		where: (c, { and, eq }) => and(eq(c.id, chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: { with: { character: true } },
+			chatPersonas: { with: { persona: true } },
+			chatMessages: {
+				orderBy: (cm, { asc }) => asc(cm.id)
+			},
+			chatSummaries: {
+				orderBy: (cs, { asc }) => asc(cs.endMessageId)
+			},
+			lorebook: true
+		}
+	})
+}
+
+function getSpeakerName(chat: SummaryChat, message: SelectChatMessage) {
+	if (message.characterId) {
+		const character = chat.chatCharacters.find(
+			(cc) => cc.characterId === message.characterId
+		)?.character
+		if (character) return character.nickname || character.name
+	}
+	if (message.personaId) {
+		const persona = chat.chatPersonas.find(
+			(cp) => cp.personaId === message.personaId
+		)?.persona
+		if (persona) return persona.name
+	}
+	return message.role === "assistant" ? "Assistant" : "User"
+}
+
+/**
+ * Summarize messages the last prompt had to leave out, in chunks that fit the context.
+ * Each summary covers a contiguous range of messages after the previous summary.
+ */
+export async function summarizeExcludedMessages({
+	chatId,
+	userId,
+	excludedIds
+}: {
+	chatId: number
+	userId: number
+	excludedIds: number[]
+}): Promise<SelectChatSummary[]> {
+	if (excludedIds.length < MIN_MESSAGES_PER_SUMMARY) return []
+	if (summarizingChats.has(chatId)) return []
+	summarizingChats.add(chatId)
+
+	try {
+		const chat = await getSummaryChat(chatId, userId)
+		// Summaries aren't written by a character, so only the chat's overrides apply
+		const configs = await resolveChatConfigs({ userId, chatId })
+		if (!chat || !configs.connection) return []
+
+		// Only messages after the last summary, and only the excluded run at the start of the chat
+		const lastSummary = chat.chatSummaries[chat.chatSummaries.length - 1]
+		const excluded = new Set(excludedIds)
+		const pending: SelectChatMessage[] = []
+		for (const message of chat.chatMessages) {
+			if (lastSummary && message.id <= lastSummary.endMessageId) continue
+			if (!excluded.has(message.id)) break
+			if (message.isHidden || message.isGenerating) continue
+			pending.push(message)
+		}
+		if (pending.length < MIN_MESSAGES_PER_SUMMARY) return []
+
+		const { Adapter } = getConnectionAdapter(configs.connection.type)
+		const contextBudget = await resolveContextBudget({
+			connection: configs.connection,
+			sampling: configs.sampling!
+		})
+		const adapter = new Adapter({
+			chat: chat as any,
+			connection: configs.connection,
+			sampling: configs.sampling!,
+			contextConfig: configs.contextConfig!,
+			promptConfig: configs.promptConfig!,
+			currentCharacterId: chat.chatCharacters[0]?.characterId ?? 0,
+			contextBudget
+		})
+		if (!adapter.complete) return []
+
+		const transcriptBudget = Math.max(
+			0,
+			contextBudget.tokenLimit * TRANSCRIPT_CONTEXT_PERCENT -
+				SUMMARY_MAX_TOKENS
+		)
+		const summaries: SelectChatSummary[] = []
+		let previousSummary = lastSummary?.content
+
+		while (pending.length >= MIN_MESSAGES_PER_SUMMARY) {
+			// Take as many messages as fit, but always at least one
+			const chunk: SelectChatMessage[] = []
+			let transcript = ""
+			while (pending.length) {
+				const message = pending[0]
+				const line = `${getSpeakerName(chat, message)}: ${message.content}\n\n`
+				const tokens = await contextBudget.tokenCounter.countTokens(
+					transcript + line
+				)
+				if (chunk.length && tokens > transcriptBudget) break
+				transcript += line
+				chunk.push(pending.shift()!)
+			}
+
+			const messages: CompletionMessage[] = [
+				{ role: "system", content: SUMMARY_INSTRUCTIONS },
+				{
+					role: "user",
+					content: previousSummary
+						? `Story so far:\n${previousSummary}\n\nNew conversation:\n${transcript.trim()}`
+						: `Conversation:\n${transcript.trim()}`
+				}
+			]
+			const content = (
+				await adapter.complete(messages, {
+					maxTokens: SUMMARY_MAX_TOKENS
+				})
+			).trim()
+			if (!content) break
+
+			const [summary] = await db
+				.insert(schema.chatSummaries)
+				.values({
+					chatId,
+					startMessageId: chunk[0].id,
+					endMessageId: chunk[chunk.length - 1].id,
+					messageCount: chunk.length,
+					content
+				})
+				.returning()
+			summaries.push(summary)
+			previousSummary = content
+		}
+		return summaries
+	} catch (error) {
+		console.error("Failed to summarize chat messages:", chatId, error)
+		return []
+	} finally {
+		summarizingChats.delete(chatId)
+	}
+}
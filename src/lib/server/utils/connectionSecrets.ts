@@ -0,0 +1,42 @@
+import { db } from "$lib/server/db"
+
+/**
+ * API keys never leave the server. Connections sent to the client carry this
+ * placeholder instead, and the client sends it back unchanged when the key
+ * wasn't edited.
+ */
+export const API_KEY_PLACEHOLDER = "********"
+
+export function redactConnection<
+	T extends { extraJson?: Record<string, any> | null } | null | undefined
+>(connection: T): T {
+	if (!connection?.extraJson?.apiKey) return connection
+	return {
+		...connection,
+		extraJson: { ...connection.extraJson, apiKey: API_KEY_PLACEHOLDER }
+	}
+}
+
+/**
+ * Swap the placeholder in a connection from the client for the stored key.
+ * Only the user's own connection is looked up.
+ */
+export async function restoreApiKey<
+	T extends { id?: number | null; extraJson?: Record<string, any> | null }
+>(connection: T, userId: number): Promise<T> {
+	if (connection.extraJson?.apiKey !== API_KEY_PLACEHOLDER) return connection
+	const stored = connection.id
+		? await db.query.connections.findFirst({
+				where: (c, { and, eq }) =>
+					and(eq(c.id, connection.id!), eq(c.userId, userId)),
+				columns: { extraJson: true }
+			})
+		: undefined
+	return {
+		...connection,
+		extraJson: {
+			...connection.extraJson,
+			apiKey: stored?.extraJson?.apiKey
+		}
+	}
+}
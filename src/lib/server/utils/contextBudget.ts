@@ -0,0 +1,97 @@
+import { TokenCounterOptions } from "$lib/shared/constants/TokenCounters"
+import { RemoteTokenCounter, TokenCounters } from "./TokenCounterManager"
+import { getConnectionAdapter } from "./getConnectionAdapter"
+
+const DEFAULT_CONTEXT_TOKENS = 4096
+const CONTEXT_THRESHOLD_PERCENT = 0.8
+const MODEL_CONTEXT_CACHE_TTL_MS = 1000 * 60 // Backends are queried at most once a minute per model
+
+export type ContextBudget = {
+	tokenCounter: TokenCounters
+	tokenCounterName: string
+	tokenLimit: number // Effective budget used to build the prompt
+	contextThresholdPercent: number
+	configuredLimit: number | null // From the sampling config, if enabled
+	modelLimit: number | null // Reported by the backend, if available
+}
+
+const modelContextCache = new Map<
+	string,
+	{ value: number | null; expiresAt: number }
+>()
+
+/**
+ * Ask the backend for the model's context length, cached per connection/model.
+ * Returns null when the backend doesn't report it or can't be reached.
+ */
+async function getModelContextLength(
+	connection: SelectConnection
+): Promise<number | null> {
+	const { getModelContextLength } = getConnectionAdapter(connection.type)
+	if (!getModelContextLength) return null
+
+	const cacheKey = `${connection.id}:${connection.baseUrl}:${connection.model}`
+	const cached = modelContextCache.get(cacheKey)
+	if (cached && cached.expiresAt > Date.now()) return cached.value
+
+	let value: number | null = null
+	try {
+		value = await getModelContextLength(connection)
+	} catch (error) {
+		console.warn("Failed to get model context length:", error)
+	}
+	modelContextCache.set(cacheKey, {
+		value,
+		expiresAt: Date.now() + MODEL_CONTEXT_CACHE_TTL_MS
+	})
+	return value
+}
+
+/**
+ * Resolve the tokenizer and context size to use for a connection + sampling config.
+ * The sampling context size wins when enabled, but is capped to what the model supports.
+ */
+export async function resolveContextBudget({
+	connection,
+	sampling
+}: {
+	connection: SelectConnection
+	sampling: SelectSamplingConfig
+}): Promise<ContextBudget> {
+	const tokenCounterName =
+		connection.tokenCounter &&
+		connection.tokenCounter in TokenCounters.counters
+			? connection.tokenCounter
+			: TokenCounterOptions.ESTIMATE
+
+	const configuredLimit =
+		sampling.contextTokensEnabled && sampling.contextTokens
+			? sampling.contextTokens
+			: null
+	const modelLimit = await getModelContextLength(connection)
+
+	let tokenLimit = configuredLimit ?? modelLimit ?? DEFAULT_CONTEXT_TOKENS
+	if (modelLimit && tokenLimit > modelLimit) {
+		tokenLimit = modelLimit
+	}
+
+	const { countTokens } = getConnectionAdapter(connection.type)
+	const tokenCounter =
+		tokenCounterName === TokenCounterOptions.BACKEND && countTokens
+			? new TokenCounters(
+					tokenCounterName,
+					new RemoteTokenCounter((text) =>
+						countTokens(connection, text)
+					)
+				)
+			: new TokenCounters(tokenCounterName)
+
+	return {
+		tokenCounter,
+		tokenCounterName,
+		tokenLimit,
+		contextThresholdPercent: CONTEXT_THRESHOLD_PERCENT,
+		configuredLimit,
+		modelLimit
+	}
+}
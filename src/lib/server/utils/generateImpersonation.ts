@@ -0,0 +1,100 @@
+import { db } from "$lib/server/db"
+import type { BaseConnectionAdapter } from "../connectionAdapters/BaseConnectionAdapter"
+import { getConnectionAdapter } from "./getConnectionAdapter"
+import { resolveContextBudget } from "./contextBudget"
+import { resolveChatConfigs } from "./chatConfigs"
+
+// Adapters drafting a persona message, by chat id. The chat is reserved with
+// null before the adapter exists, see impersonatePersona
+export const activeImpersonations = new Map<
+	number,
+	BaseConnectionAdapter | null
+>()
+
+/**
+ * Generate the chat persona's next message with the model.
+ * The draft is streamed to the user's message composer, it isn't saved.
+ */
+export async function generateImpersonation({
+	emitToUser,
+	chatId,
+	userId
+}: {
+	emitToUser: (event: string, data: any) => void
+	chatId: number
+	userId: number
+}): Promise<string> {
+	const chat = await db.query.chats.findFirst({
+		where: (c, { eq, and }) => and(eq(c.id, chatId), eq(c.userId, userId)),
+		with: {
+			chatCharacters: {
+				with: { character: true },
+				orderBy: (cc, { asc }) => asc(cc.position)
+			},
+			chatPersonas: { with: { persona: true } },
+			chatMessages: {
+				where: (cm, { eq }) => eq(cm.isHidden, false),
+				orderBy: (cm, { asc }) => asc(cm.id)
+			},
+			chatSummaries: true,
+			lorebook: true
+		}
+	})
+	if (!chat) throw new Error("Chat not found.")
+	const persona = chat.chatPersonas[0]?.persona
+	if (!persona) throw new Error("This chat has no persona to write for.")
+
+	// The persona answers whoever spoke last
+	const characterId =
+		chat.chatMessages
+			.slice()
+			.reverse()
+			.find((m) => m.characterId)?.characterId ||
+		chat.chatCharacters.find((cc) => cc.isActive)?.character?.id
+	if (!characterId) throw new Error("This chat has no characters.")
+
+	const configs = await resolveChatConfigs({ userId, chatId })
+	if (!configs.connection) throw new Error("No connection selected.")
+
+	const { Adapter } = getConnectionAdapter(configs.connection.type)
+	const contextBudget = await resolveContextBudget({
+		connection: configs.connection,
+		sampling: configs.sampling!
+	})
+	const adapter = new Adapter({
+		chat,
+		connection: configs.connection,
+		sampling: configs.sampling!,
+		contextConfig: configs.contextConfig!,
+		promptConfig: configs.promptConfig!,
+		currentCharacterId: characterId,
+		contextBudget,
+		impersonatePersonaId: persona.id
+	})
+	activeImpersonations.set(chatId, adapter)
+
+	const startString = `${persona.name}:`
+	const stripStartString = (text: string) =>
+		text.trimStart().startsWith(startString)
+			? text.trimStart().slice(startString.length).trim()
+			: text.trim()
+
+	let content = ""
+	const { completionResult } = await adapter.generate()
+	if (typeof completionResult === "function") {
+		await completionResult(async (chunk: string) => {
+			content += chunk
+			// Hold back a partial name prefix until it's complete
+			if (startString.startsWith(content.trimStart())) return
+			const res: Sockets.ImpersonatePersona.Response = {
+				chatId,
+				content: stripStartString(content),
+				isGenerating: true
+			}
+			emitToUser("impersonatePersona", res)
+		})
+	} else {
+		content = completionResult
+	}
+	return stripStartString(content)
+}
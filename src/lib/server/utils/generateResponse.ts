@@ -4,27 +4,32 @@ import { and, eq } from "drizzle-orm"
 import { v4 as uuidv4 } from "uuid"
 import { activeAdapters, chatMessage } from "../sockets/chats"
 import { getConnectionAdapter } from "./getConnectionAdapter"
-import { TokenCounters } from "$lib/server/utils/TokenCounterManager"
+import { resolveContextBudget } from "./contextBudget"
+import { summarizeExcludedMessages } from "./chatSummaries"
+import { resolveChatConfigs } from "./chatConfigs"
 
 export async function generateResponse({
 	socket,
 	emitToUser,
 	chatId,
 	userId,
-	generatingMessage
+	generatingMessage,
+	isContinue = false
 }: {
 	socket: any
 	emitToUser: (event: string, data: any) => void
 	chatId: number
 	userId: number
 	generatingMessage: SelectChatMessage
+	isContinue?: boolean // Append to the message's content instead of replacing it
 }): Promise<boolean> {
 	// Generate a UUID for this adapter instance
 	const adapterId = uuidv4()
+	const baseContent = isContinue ? generatingMessage.content : ""
 	// Save the adapterId to the chatMessage (set isGenerating true, content empty, and adapterId)
 	await db
 		.update(schema.chatMessages)
-		.set({ isGenerating: true, content: "", adapterId })
+		.set({ isGenerating: true, content: baseContent, adapterId })
 		.where(eq(schema.chatMessages.id, generatingMessage.id))
 	// Instead of getChat, emit the chatMessage
 
@@ -32,7 +37,7 @@ export async function generateResponse({
 		chatMessage: {
 			...generatingMessage,
 			isGenerating: true,
-			content: "",
+			content: baseContent,
 			adapterId
 		}
 	}
@@ -48,36 +53,33 @@ export async function generateResponse({
 				where: (cm, { ne }) => ne(cm.id, generatingMessage.id),
 				orderBy: (cm, { asc }) => asc(cm.id)
 			},
+			chatSummaries: true,
 			lorebook: true
 		}
 	})
 
-	const user = await db.query.users.findFirst({
-		where: (u, { eq }) => eq(u.id, userId),
-		with: {
-			activeConnection: true,
-			activeSamplingConfig: true,
-			activeContextConfig: true,
-			activePromptConfig: true
-		}
+	const configs = await resolveChatConfigs({
+		userId,
+		chatId,
+		characterId: generatingMessage.characterId
 	})
 
-	const { Adapter } = getConnectionAdapter(user!.activeConnection!.type)
+	const { Adapter } = getConnectionAdapter(configs.connection!.type)
 
-	const tokenCounter = new TokenCounters("estimate")
-	const tokenLimit = 4096
-	const contextThresholdPercent = 0.8
+	const contextBudget = await resolveContextBudget({
+		connection: configs.connection!,
+		sampling: configs.sampling!
+	})
 
 	const adapter = new Adapter({
 		chat,
-		connection: user!.activeConnection!,
-		sampling: user!.activeSamplingConfig!,
-		contextConfig: user!.activeContextConfig!,
-		promptConfig: user!.activePromptConfig!,
+		connection: configs.connection!,
+		sampling: configs.sampling!,
+		contextConfig: configs.contextConfig!,
+		promptConfig: configs.promptConfig!,
 		currentCharacterId: generatingMessage.characterId!,
-		tokenCounter,
-		tokenLimit,
-		contextThresholdPercent
+		contextBudget,
+		continueFrom: baseContent || undefined
 	})
 	// Store adapter in global map
 	activeAdapters.set(adapterId, adapter)
@@ -90,19 +92,27 @@ export async function generateResponse({
 		currentCharacter?.character?.nickname ||
 		currentCharacter?.character?.name ||
 		""
-	const startString = `${charName}:`
+	// A continued reply is already past the name prefix
+	const startString = isContinue ? "" : `${charName}:`
 
 	// Generate completion
-	let { completionResult, compiledPrompt, isAborted } =
-		await adapter.generate() // TODO: save compiledPrompt to chatMessages
+	const startedAt = new Date()
+	let firstTokenAt: string | null = null
+	let compiledPrompt: CompiledPrompt | undefined
+	let isAborted = false
 	let content = ""
 	try {
+		const generated = await adapter.generate()
+		const { completionResult } = generated
+		compiledPrompt = generated.compiledPrompt
+		isAborted = generated.isAborted
 		if (typeof completionResult === "function") {
 			let ok = true
 			await completionResult(async (chunk: string) => {
 				if (!ok) {
 					return
 				}
+				if (!firstTokenAt) firstTokenAt = new Date().toISOString()
 				content += chunk
 
 				let stagedContent = content.replace(startString, "")
@@ -120,33 +130,14 @@ export async function generateResponse({
 
 				// --- SWIPE HISTORY LOGIC ---
 				let updateData: any = {
-					content: stagedContent.trim(),
+					content: (baseContent + stagedContent).trim(),
 					isGenerating: true
 				}
-				if (
-					generatingMessage.metadata &&
-					generatingMessage.metadata.swipes &&
-					typeof generatingMessage.metadata.swipes.currentIdx ===
-						"number" &&
-					generatingMessage.metadata.swipes.currentIdx > 0 &&
-					Array.isArray(generatingMessage.metadata.swipes.history)
-				) {
-					const idx = generatingMessage.metadata.swipes.currentIdx
-					const history: string[] = [
-						...generatingMessage.metadata.swipes.history
-					]
-					history[idx] = content
-					updateData = {
-						...updateData,
-						metadata: {
-							...generatingMessage.metadata,
-							swipes: {
-								...generatingMessage.metadata.swipes,
-								history
-							}
-						}
-					}
-				}
+				const metadata = withSwipeContent(
+					generatingMessage,
+					updateData.content
+				)
+				if (metadata) updateData = { ...updateData, metadata }
 
 				const [updatedChatMsg] = await db
 					.update(schema.chatMessages)
@@ -176,7 +167,7 @@ export async function generateResponse({
 				}
 			})
 			// Final update: mark as not generating, clear adapterId
-			content = content.replace(startString, "").trim()
+			content = (baseContent + content.replace(startString, "")).trim()
 			const ret = await db
 				.update(schema.chatMessages)
 				.set({ content, isGenerating: false, adapterId: null })
@@ -188,28 +179,35 @@ export async function generateResponse({
 				)
 				.returning()
 			if (!ret || ret.length === 0) {
-				console.error(
-					"[generateResponse] Failed to update generating message:",
-					generatingMessage.id
+				if (!adapter.isAborting) {
+					console.error(
+						"[generateResponse] Failed to update generating message:",
+						generatingMessage.id
+					)
+					activeAdapters.delete(adapterId)
+					return false
+				}
+				// The abort already cleared isGenerating, keep what was streamed
+				isAborted = true
+			} else {
+				// Instead of getChat, emit the chatMessage
+				await chatMessage(
+					socket,
+					{
+						chatMessage: {
+							...generatingMessage,
+							content,
+							isGenerating: false,
+							adapterId: null
+						}
+					},
+					emitToUser
 				)
-				activeAdapters.delete(adapterId)
-				return false
 			}
-			// Instead of getChat, emit the chatMessage
-			await chatMessage(
-				socket,
-				{
-					chatMessage: {
-						...generatingMessage,
-						content,
-						isGenerating: false,
-						adapterId: null
-					}
-				},
-				emitToUser
-			)
 		} else {
-			content = completionResult.replace(startString, "").trim()
+			content = (
+				baseContent + completionResult.replace(startString, "")
+			).trim()
 
 			// --- SWIPE HISTORY LOGIC (non-streamed) ---
 			let updateData: any = {
@@ -217,30 +215,8 @@ export async function generateResponse({
 				isGenerating: false,
 				adapterId: null
 			}
-			if (
-				generatingMessage.metadata &&
-				generatingMessage.metadata.swipes &&
-				typeof generatingMessage.metadata.swipes.currentIdx ===
-					"number" &&
-				generatingMessage.metadata.swipes.currentIdx > 0 &&
-				Array.isArray(generatingMessage.metadata.swipes.history)
-			) {
-				const idx = generatingMessage.metadata.swipes.currentIdx
-				const history: string[] = [
-					...generatingMessage.metadata.swipes.history
-				]
-				history[idx] = content
-				updateData = {
-					...updateData,
-					metadata: {
-						...generatingMessage.metadata,
-						swipes: {
-							...generatingMessage.metadata.swipes,
-							history
-						}
-					}
-				}
-			}
+			const metadata = withSwipeContent(generatingMessage, content)
+			if (metadata) updateData = { ...updateData, metadata }
 
 			const ret = await db
 				.update(schema.chatMessages)
@@ -254,33 +230,87 @@ export async function generateResponse({
 				.returning()
 			// Instead of getChat, emit the chatMessage
 			if (!ret || ret.length === 0) {
-				console.error(
-					"[generateResponse] Failed to update generating message:",
-					generatingMessage.id
+				if (!adapter.isAborting) {
+					console.error(
+						"[generateResponse] Failed to update generating message:",
+						generatingMessage.id
+					)
+					activeAdapters.delete(adapterId)
+					return false
+				}
+				// Aborted while waiting for the completion
+				isAborted = true
+			} else {
+				await chatMessage(
+					socket,
+					{
+						chatMessage: {
+							...generatingMessage,
+							content,
+							isGenerating: false,
+							adapterId: null,
+							...(updateData.metadata
+								? { metadata: updateData.metadata }
+								: {})
+						}
+					},
+					emitToUser
 				)
-				activeAdapters.delete(adapterId)
-				return false
 			}
-			await chatMessage(
-				socket,
-				{
-					chatMessage: {
-						...generatingMessage,
-						content,
-						isGenerating: false,
-						adapterId: null,
-						...(updateData.metadata
-							? { metadata: updateData.metadata }
-							: {})
-					}
-				},
-				emitToUser
+		}
+	} catch (error: any) {
+		console.error(
+			"[generateResponse] Generation failed:",
+			generatingMessage.id,
+			error
+		)
+		// Don't leave the message stuck generating
+		const [failedMsg] = await db
+			.update(schema.chatMessages)
+			.set({ isGenerating: false, adapterId: null })
+			.where(
+				and(
+					eq(schema.chatMessages.id, generatingMessage.id),
+					eq(schema.chatMessages.adapterId, adapterId)
+				)
 			)
+			.returning()
+		if (failedMsg) {
+			await chatMessage(socket, { chatMessage: failedMsg }, emitToUser)
 		}
+		emitToUser("error", {
+			error: error?.message || "Failed to generate a response."
+		})
+		// Like the adapters' FAILURE results, a failed reply counts as interrupted
+		isAborted = true
 	} finally {
 		// Remove adapter from global map
 		activeAdapters.delete(adapterId)
 	}
+
+	// Persist what the model was given for this message/swipe
+	const finishedAt = new Date()
+	await saveChatMessagePrompt({
+		generatingMessage,
+		compiledPrompt,
+		connection: configs.connection!,
+		sampling: configs.sampling!,
+		timings: {
+			startedAt: startedAt.toISOString(),
+			firstTokenAt,
+			finishedAt: finishedAt.toISOString(),
+			durationMs: finishedAt.getTime() - startedAt.getTime()
+		},
+		isAborted: isAborted || adapter.isAborting
+	})
+	// Messages that no longer fit are summarized in the background
+	if (compiledPrompt?.meta.chatMessages.excludedIds.length) {
+		void summarizeExcludedMessages({
+			chatId,
+			userId,
+			excludedIds: compiledPrompt.meta.chatMessages.excludedIds
+		})
+	}
 	// Fetch the updated message for the response
 	const updatedMsg = await db.query.chatMessages.findFirst({
 		where: (cm, { eq }) => eq(cm.id, generatingMessage.id)
@@ -293,3 +323,95 @@ export async function generateResponse({
 	await chatMessage(socket, { chatMessage: updatedMsg! }, emitToUser)
 	return !isAborted // Whether there were no interruptions
 }
+
+// Metadata with the current swipe's history entry set to content, if there's one
+function withSwipeContent(
+	generatingMessage: SelectChatMessage,
+	content: string
+): Record<string, any> | undefined {
+	const swipes = generatingMessage.metadata?.swipes
+	if (
+		!swipes ||
+		typeof swipes.currentIdx !== "number" ||
+		!Array.isArray(swipes.history) ||
+		swipes.currentIdx >= swipes.history.length
+	) {
+		return undefined
+	}
+	const history: string[] = [...swipes.history]
+	history[swipes.currentIdx] = content
+	return {
+		...generatingMessage.metadata,
+		swipes: { ...swipes, history }
+	}
+}
+
+async function saveChatMessagePrompt({
+	generatingMessage,
+	compiledPrompt,
+	connection,
+	sampling,
+	timings,
+	isAborted
+}: {
+	generatingMessage: SelectChatMessage
+	compiledPrompt: CompiledPrompt | undefined
+	connection: SelectConnection
+	sampling: SelectSamplingConfig
+	timings: InsertChatMessagePrompt["timings"]
+	isAborted: boolean
+}) {
+	if (!compiledPrompt) return
+	const swipeIdx = generatingMessage.metadata?.swipes?.currentIdx ?? 0
+
+	// Never persist credentials alongside the prompt
+	const { apiKey, ...extraJson } = connection.extraJson || {}
+
+	const data: InsertChatMessagePrompt = {
+		chatMessageId: generatingMessage.id,
+		swipeIdx,
+		prompt: compiledPrompt.prompt ?? null,
+		messages: compiledPrompt.messages ?? null,
+		meta: compiledPrompt.meta,
+		connection: {
+			id: connection.id,
+			name: connection.name,
+			type: connection.type,
+			baseUrl: connection.baseUrl,
+			model: connection.model,
+			promptFormat: connection.promptFormat,
+			tokenCounter: connection.tokenCounter,
+			extraJson
+		},
+		sampling: { ...sampling },
+		timings,
+		isAborted
+	}
+
+	try {
+		await db
+			.insert(schema.chatMessagePrompts)
+			.values(data)
+			.onConflictDoUpdate({
+				target: [
+					schema.chatMessagePrompts.chatMessageId,
+					schema.chatMessagePrompts.swipeIdx
+				],
+				set: {
+					prompt: data.prompt,
+					messages: data.messages,
+					meta: data.meta,
+					connection: data.connection,
+					sampling: data.sampling,
+					timings: data.timings,
+					isAborted: data.isAborted
+				}
+			})
+	} catch (error) {
+		console.error(
+			"[generateResponse] Failed to save compiled prompt:",
+			generatingMessage.id,
+			error
+		)
+	}
+}
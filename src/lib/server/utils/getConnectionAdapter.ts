@@ -1,7 +1,11 @@
 import ollamaAdapter from "../connectionAdapters/OllamaAdapter"
 import openAIChatAdapter from "../connectionAdapters/OpenAIChatAdapter"
+import openAICompletionAdapter from "../connectionAdapters/OpenAICompletionAdapter"
 import lmStudioAdapter from "../connectionAdapters/LMStudioAdapter"
 import llamaCppAdapter from "../connectionAdapters/LlamaCppAdapter"
+import anthropicAdapter from "../connectionAdapters/AnthropicAdapter"
+import geminiAdapter from "../connectionAdapters/GeminiAdapter"
+import koboldCppAdapter from "../connectionAdapters/KoboldCppAdapter"
 import type { AdapterExports } from "../connectionAdapters/BaseConnectionAdapter"
 import { CONNECTION_TYPE } from "$lib/shared/constants/ConnectionTypes"
 
@@ -13,8 +17,16 @@ export function getConnectionAdapter(connectionType: string): AdapterExports {
 			return ollamaAdapter
 		case CONNECTION_TYPE.OPENAI_CHAT:
 			return openAIChatAdapter
+		case CONNECTION_TYPE.OPENAI_COMPLETION:
+			return openAICompletionAdapter
 		case CONNECTION_TYPE.LLAMACPP_COMPLETION:
 			return llamaCppAdapter
+		case CONNECTION_TYPE.ANTHROPIC:
+			return anthropicAdapter
+		case CONNECTION_TYPE.GEMINI:
+			return geminiAdapter
+		case CONNECTION_TYPE.KOBOLDCPP:
+			return koboldCppAdapter
 		default:
 			throw new Error(`Unsupported connection type: ${connectionType}`)
 	}
@@ -1,13 +1,148 @@
+import { GroupReplyStrategies } from "$lib/shared/constants/GroupReplyStrategies"
+
+type TurnChatCharacter = SelectChatCharacter & { character: SelectCharacter }
+
+export type TurnChat = {
+	chatMessages: SelectChatMessage[]
+	chatCharacters: TurnChatCharacter[]
+	chatPersonas: (SelectChatPersona & { persona: SelectPersona })[]
+}
+
+// Deterministic 0-1 roll, so the predicted next turn matches the real one
+function seededRandom(seed: string): number {
+	let h = 2166136261
+	for (let i = 0; i < seed.length; i++) {
+		h = Math.imul(h ^ seed.charCodeAt(i), 16777619)
+	}
+	h = Math.imul(h ^ (h >>> 15), h | 1)
+	h ^= h + Math.imul(h ^ (h >>> 7), h | 61)
+	return ((h ^ (h >>> 14)) >>> 0) / 4294967296
+}
+
+// Characters named or nicknamed in the text, in the order they're first mentioned
+export function getMentionedCharacterIds(
+	text: string,
+	chatCharacters: TurnChatCharacter[]
+): number[] {
+	const mentions: { id: number; index: number }[] = []
+	for (const cc of chatCharacters) {
+		let index = -1
+		for (const name of [cc.character.name, cc.character.nickname]) {
+			if (!name?.trim()) continue
+			const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+			const match = new RegExp(
+				`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`,
+				"iu"
+			).exec(text)
+			if (match && (index < 0 || match.index < index)) index = match.index
+		}
+		if (index >= 0) mentions.push({ id: cc.character.id, index })
+	}
+	return mentions.sort((a, b) => a.index - b.index).map((m) => m.id)
+}
+
+/**
+ * Who may speak next under the natural strategy. Without a trigger each
+ * character replies at most once after the persona's message, and nobody
+ * replies twice in a row unless the last message addressed them.
+ */
+export function getNaturalTurnOptions(
+	chat: TurnChat,
+	{ triggered = false }: { triggered?: boolean } = {}
+): {
+	candidates: TurnChatCharacter[]
+	addressedId: number | null // A candidate the last message or the persona addressed
+	canEnd: boolean // Whether the turn cycle may end without a reply
+} {
+	const activeCharacters = chat.chatCharacters.filter((cc) => cc.isActive)
+	const messages = chat.chatMessages
+	const lastMessage = messages[messages.length - 1]
+	const lastSpeakerId = messages
+		.slice()
+		.reverse()
+		.find((m) => m.role === "assistant" && m.characterId)?.characterId
+
+	let lastPersonaIdx = -1
+	for (let i = messages.length - 1; i >= 0; --i) {
+		if (messages[i].role === "user" && messages[i].personaId) {
+			lastPersonaIdx = i
+			break
+		}
+	}
+	const pool = messages.slice(lastPersonaIdx + 1)
+	const hasReplied = (id: number) =>
+		pool.some((m) => m.role === "assistant" && m.characterId === id)
+
+	const mentioned = lastMessage
+		? getMentionedCharacterIds(
+				lastMessage.content,
+				activeCharacters.filter(
+					(cc) => cc.character.id !== lastMessage.characterId
+				)
+			)
+		: []
+	// Characters the persona addressed keep priority until each has replied
+	if (lastPersonaIdx >= 0 && lastPersonaIdx < messages.length - 1) {
+		for (const id of getMentionedCharacterIds(
+			messages[lastPersonaIdx].content,
+			activeCharacters
+		)) {
+			if (!hasReplied(id) && !mentioned.includes(id)) mentioned.push(id)
+		}
+	}
+
+	const candidates = activeCharacters.filter(
+		(cc) =>
+			(cc.character.id !== lastSpeakerId ||
+				mentioned.includes(cc.character.id)) &&
+			// A character addressed by name may answer again
+			(triggered ||
+				mentioned.includes(cc.character.id) ||
+				!hasReplied(cc.character.id))
+	)
+	const addressedId =
+		mentioned.find((id) =>
+			candidates.some((cc) => cc.character.id === id)
+		) ?? null
+	// The persona always gets an answer, and a trigger always gets a message
+	const canEnd = !triggered && pool.some((m) => m.role === "assistant")
+	return { candidates, addressedId, canEnd }
+}
+
+function getNaturalCharacterTurn(
+	chat: TurnChat,
+	opts: { triggered?: boolean }
+): number | null {
+	const { candidates, addressedId, canEnd } = getNaturalTurnOptions(
+		chat,
+		opts
+	)
+	if (addressedId) return addressedId
+
+	const lastMessage = chat.chatMessages[chat.chatMessages.length - 1]
+	const seed = `${lastMessage?.id ?? 0}`
+	const chimesIn = candidates.find(
+		(cc) => seededRandom(`${seed}:${cc.character.id}`) < cc.talkativeness
+	)
+	if (chimesIn) return chimesIn.character.id
+	if (canEnd) return null
+
+	// Nobody chimed in but someone has to, the most talkative does
+	const fallback = candidates.length
+		? candidates
+		: chat.chatCharacters.filter((cc) => cc.isActive)
+	if (!fallback.length) return null
+	return fallback.reduce((a, b) =>
+		b.talkativeness > a.talkativeness ? b : a
+	).character.id
+}
+
 // Helper to determine which character's turn it is
 export function getNextCharacterTurn(
-	chat: {
-		chatMessages: SelectChatMessage[]
-		chatCharacters: (SelectChatCharacter & { character: SelectCharacter })[]
-		chatPersonas: (SelectChatPersona & { persona: SelectPersona })[]
-	},
-	opts: { triggered?: boolean } = {}
+	chat: TurnChat,
+	opts: { triggered?: boolean; strategy?: string | null } = {}
 ): number | null {
-	const { triggered = false } = opts
+	const { triggered = false, strategy } = opts
 
 	if (!chat.chatCharacters?.length || !chat.chatPersonas?.length) {
 		return null
@@ -29,6 +164,17 @@ export function getNextCharacterTurn(
 		return null
 	}
 
+	// The LLM strategy falls back to natural where the model isn't asked
+	if (
+		strategy === GroupReplyStrategies.NATURAL ||
+		strategy === GroupReplyStrategies.LLM
+	) {
+		return getNaturalCharacterTurn(
+			{ ...chat, chatCharacters: activeCharacters },
+			{ triggered }
+		)
+	}
+
 	const personaIds = chat.chatPersonas.map((cp) => cp.persona.id)
 
 	// Find the index of the last persona message
@@ -139,3 +139,47 @@ export async function handlePersonaAvatarUpload({
 		}
 	}
 }
+
+/**
+ * Save a character card asset (e.g. from a CHARX import) and return its URL
+ */
+export async function saveCharacterAssetFile({
+	characterId,
+	userId,
+	fileName,
+	data
+}: {
+	characterId: number
+	userId: number
+	fileName: string
+	data: Buffer
+}) {
+	const assetDir = path.join(
+		getCharacterDataDir({ characterId, userId }),
+		"assets"
+	)
+	await mkdir(assetDir, { recursive: true })
+	const safeName = `${uuid().substring(0, 4)}-${path.basename(fileName).replace(/[^\w.\-]+/g, "_")}`
+	await writeFile(path.join(assetDir, safeName), data, { flag: "w" })
+	return `/images/data/users/${userId}/characters/${characterId}/assets/${safeName}`
+}
+
+/**
+ * Resolve a local /images/... URL (avatars, assets) to its file path,
+ * or null if the URL isn't a local image of the given user
+ */
+export function getLocalImageFilePath(
+	url: string | null | undefined,
+	userId: number
+): string | null {
+	if (!url || !url.startsWith("/images/")) return null
+	const appData = getAppDataDir()
+	const filePath = path.join(appData, url.slice("/images/".length))
+	const [root, scope, ownerId] = path
+		.relative(appData, filePath)
+		.split(path.sep)
+	if (root !== "data" || scope !== "users" || ownerId !== String(userId)) {
+		return null
+	}
+	return filePath
+}
@@ -0,0 +1,142 @@
+import { createHash } from "crypto"
+import { db } from "$lib/server/db"
+import * as schema from "$lib/server/db/schema"
+import { and, eq, inArray } from "drizzle-orm"
+import type { EmbedFn } from "../connectionAdapters/BaseConnectionAdapter"
+
+export type LoreEntryType = "worldLore" | "characterLore" | "history"
+
+type LoreEntry =
+	SelectWorldLoreEntry | SelectCharacterLoreEntry | SelectHistoryEntry
+
+/**
+ * The text that gets embedded for a lore entry
+ */
+export function getLoreEntryEmbeddingText(entry: LoreEntry): string {
+	const name = "name" in entry ? entry.name : ""
+	return [name, entry.keys, entry.content]
+		.filter((part) => part && part.trim())
+		.join("\n")
+}
+
+export function hashEmbeddingText(text: string): string {
+	return createHash("sha256").update(text).digest("hex")
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	if (!a.length || a.length !== b.length) return 0
+	let dot = 0
+	let normA = 0
+	let normB = 0
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i]
+		normA += a[i] * a[i]
+		normB += b[i] * b[i]
+	}
+	if (!normA || !normB) return 0
+	return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Get embeddings for lore entries, keyed by entry id.
+ * Cached embeddings are reused while the entry text is unchanged,
+ * missing or stale ones are computed in a single batch and stored.
+ */
+export async function getLoreEntryEmbeddings({
+	entries,
+	entryType,
+	model,
+	embed
+}: {
+	entries: LoreEntry[]
+	entryType: LoreEntryType
+	model: string
+	embed: EmbedFn
+}): Promise<Map<number, number[]>> {
+	const result = new Map<number, number[]>()
+	if (!entries.length) return result
+
+	const texts = entries.map((entry) => {
+		const text = getLoreEntryEmbeddingText(entry)
+		return { entry, text, contentHash: hashEmbeddingText(text) }
+	})
+	// Only embeddings of the current entry text are read, edited entries are re-embedded
+	const cached = await db.query.loreEntryEmbeddings.findMany({
+		where: (e, { and, eq, inArray }) =>
+			and(
+				eq(e.entryType, entryType),
+				eq(e.model, model),
+				inArray(
+					e.entryId,
+					entries.map((entry) => entry.id)
+				),
+				inArray(
+					e.contentHash,
+					texts.map((t) => t.contentHash)
+				)
+			)
+	})
+	const cachedByKey = new Map(
+		cached.map((c) => [`${c.entryId}:${c.contentHash}`, c])
+	)
+
+	const missing: { entry: LoreEntry; text: string; contentHash: string }[] =
+		[]
+	for (const { entry, text, contentHash } of texts) {
+		const hit = cachedByKey.get(`${entry.id}:${contentHash}`)
+		if (hit) {
+			result.set(entry.id, hit.embedding)
+		} else if (text) {
+			missing.push({ entry, text, contentHash })
+		}
+	}
+	if (!missing.length) return result
+
+	const embeddings = await embed(
+		missing.map((m) => m.text),
+		model
+	)
+	for (let i = 0; i < missing.length; i++) {
+		const { entry, contentHash } = missing[i]
+		const embedding = embeddings[i]
+		if (!embedding) continue
+		result.set(entry.id, embedding)
+		await db
+			.insert(schema.loreEntryEmbeddings)
+			.values({
+				lorebookId: entry.lorebookId,
+				entryType,
+				entryId: entry.id,
+				model,
+				contentHash,
+				embedding
+			})
+			.onConflictDoUpdate({
+				target: [
+					schema.loreEntryEmbeddings.entryType,
+					schema.loreEntryEmbeddings.entryId,
+					schema.loreEntryEmbeddings.model
+				],
+				set: { contentHash, embedding, lorebookId: entry.lorebookId }
+			})
+	}
+	return result
+}
+
+/**
+ * Remove cached embeddings for deleted entries
+ */
+export async function deleteLoreEntryEmbeddings(
+	entryType: LoreEntryType,
+	entryIds: number[]
+) {
+	if (!entryIds.length) return
+	await db
+		.delete(schema.loreEntryEmbeddings)
+		.where(
+			and(
+				eq(schema.loreEntryEmbeddings.entryType, entryType),
+				inArray(schema.loreEntryEmbeddings.entryId, entryIds)
+			)
+		)
+}
@@ -11,6 +11,8 @@ export interface ContentInclusionConfig {
 		worldLore: number[]
 		characterLore: number[]
 		history: number[]
+		/** Rolling summaries of messages that fell out of the prompt */
+		summary: number[]
 	}
 	/**
 	 * Weights for content inclusion iteration frequency (0-1+)
@@ -49,7 +51,9 @@ export const defaultContentInclusionConfig: ContentInclusionConfig = {
 		chatMessages: [4, 3, 2, 1, 0],
 		worldLore: [4, 3, 2, 1],
 		characterLore: [4, 3, 2, 1],
-		history: [4, 2, 0]
+		history: [4, 2, 0],
+		// Above older messages, so continuity survives truncation, below the newest ones
+		summary: [3]
 	},
 	weights: {
 		chatMessages: 1.0,
@@ -77,6 +81,7 @@ export interface ContentProcessingResult {
 	includedWorldLore: SelectWorldLoreEntry[]
 	includedCharacterLore: SelectCharacterLoreEntry[]
 	includedHistory: SelectHistoryEntry[]
+	includedSummaries: SelectChatSummary[]
 	shouldContinue: boolean
 	iteratorsExhausted: boolean
 }
@@ -101,6 +106,7 @@ export interface ContentInclusionState {
 		| null
 		| undefined
 	historyIterator: IterableIterator<SelectHistoryEntry> | null | undefined
+	summaryIterator: IterableIterator<SelectChatSummary> | null | undefined
 
 	// Weight-based iteration tracking
 	weightCounters: {
@@ -125,6 +131,10 @@ export interface ContentInclusionState {
 	includedWorldLore: SelectWorldLoreEntry[]
 	includedCharacterLore: SelectCharacterLoreEntry[]
 	includedHistory: SelectHistoryEntry[]
+	includedSummaries: SelectChatSummary[]
+	// Chat messages included above the summaries' priority, with the placeholder.
+	// These are trimmed after the summaries
+	newestMessageCount: number
 }
 
 /**
@@ -198,6 +208,7 @@ export class DefaultContentInclusionStrategy
 			worldLoreIterator: undefined,
 			characterLoreIterator: undefined,
 			historyIterator: undefined,
+			summaryIterator: undefined,
 
 			// Initialize weight counters with normalized weights
 			weightCounters: {
@@ -225,7 +236,9 @@ export class DefaultContentInclusionStrategy
 			],
 			includedWorldLore: [],
 			includedCharacterLore: [],
-			includedHistory: []
+			includedHistory: [],
+			includedSummaries: [],
+			newestMessageCount: 1
 		}
 	}
 
@@ -290,17 +303,20 @@ export class DefaultContentInclusionStrategy
 		const hasCharacterLoreAtPriority =
 			priorities.characterLore.includes(priority)
 		const hasHistoryAtPriority = priorities.history.includes(priority)
+		const hasSummaryAtPriority = priorities.summary.includes(priority)
 
 		// Reset if we have content types for this priority but iterators are null
 		return (
 			(hasMessagesAtPriority ||
 				hasWorldLoreAtPriority ||
 				hasCharacterLoreAtPriority ||
-				hasHistoryAtPriority) &&
+				hasHistoryAtPriority ||
+				hasSummaryAtPriority) &&
 			state.messagesIterator === null &&
 			state.worldLoreIterator === null &&
 			state.characterLoreIterator === null &&
-			state.historyIterator === null
+			state.historyIterator === null &&
+			state.summaryIterator === null
 		)
 	}
 
@@ -316,7 +332,8 @@ export class DefaultContentInclusionStrategy
 				config.priorities.chatMessages.includes(p) ||
 				config.priorities.worldLore.includes(p) ||
 				config.priorities.characterLore.includes(p) ||
-				config.priorities.history.includes(p)
+				config.priorities.history.includes(p) ||
+				config.priorities.summary.includes(p)
 			if (hasContent) {
 				return p
 			}
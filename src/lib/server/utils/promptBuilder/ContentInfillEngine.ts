@@ -22,6 +22,7 @@ import {
 	KeywordMatchingStrategy
 } from "./LoreMatchingStrategies"
 import { parseSplitChatPrompt } from "./utils"
+import type { DepthPrompt } from "./types"
 import { attachCharacterLoreToCharacters } from "./LorebookBindingUtils"
 
 /**
@@ -46,6 +47,7 @@ export class ContentInfillEngine {
 		private worldLoreEntryIterator: any,
 		private characterLoreEntryIterator: any,
 		private historyEntryIterator: any,
+		private chatSummaryIterator: any,
 		private matchingStrategy?: LoreMatchingStrategy
 	) {
 		this.chatMessageProcessor = new ChatMessageProcessor(
@@ -93,6 +95,7 @@ export class ContentInfillEngine {
 		worldLoreEntryIterator: any,
 		characterLoreEntryIterator: any,
 		historyEntryIterator: any,
+		chatSummaryIterator: any,
 		strategyConfig: MatchingStrategyConfig
 	): Promise<ContentInfillEngine> {
 		const strategy =
@@ -106,6 +109,7 @@ export class ContentInfillEngine {
 			worldLoreEntryIterator,
 			characterLoreEntryIterator,
 			historyEntryIterator,
+			chatSummaryIterator,
 			strategy
 		)
 	}
@@ -131,7 +135,9 @@ export class ContentInfillEngine {
 		handlebars,
 		contextConfig,
 		strategy,
-		config = defaultContentInclusionConfig
+		config = defaultContentInclusionConfig,
+		continueFrom,
+		impersonate = false
 	}: {
 		charName: string
 		personaName: string
@@ -144,6 +150,8 @@ export class ContentInfillEngine {
 		contextConfig: any
 		strategy?: ContentInclusionStrategy
 		config?: ContentInclusionConfig
+		continueFrom?: string // Reply text the placeholder message starts with
+		impersonate?: boolean // The persona speaks in the placeholder message
 	}) {
 		// Initialize state and processors
 		const state = strategy
@@ -152,6 +160,12 @@ export class ContentInfillEngine {
 
 		// Set the character name for the placeholder message
 		state.chatMessages[0].name = charName
+		if (continueFrom) state.chatMessages[0].message = continueFrom
+		if (impersonate) {
+			state.chatMessages[0].name = personaName
+			// Chat APIs can only be prefilled with an assistant turn
+			if (!useChatFormat) state.chatMessages[0].role = "user"
+		}
 
 		// Create interpolation context
 		const interpolationContext =
@@ -258,9 +272,13 @@ export class ContentInfillEngine {
 		// Initialize iterators if needed
 		this.initializeIteratorsForPriority(state, config)
 
-		// Process chat messages
+		// Process chat messages and summaries
 		if (!state.isOverLimit) {
 			this.processChatMessages(state, context)
+			if (state.priority > Math.max(-1, ...config.priorities.summary)) {
+				state.newestMessageCount = state.chatMessages.length
+			}
+			this.processSummaries(state)
 		}
 
 		// Process lore content if below threshold
@@ -306,6 +324,9 @@ export class ContentInfillEngine {
 					priority
 				})
 			}
+			if (config.priorities.summary.includes(priority)) {
+				state.summaryIterator = this.chatSummaryIterator({ priority })
+			}
 		} else if (this.allIteratorsNull(state)) {
 			// Reset iterators for new priority level
 			if (config.priorities.chatMessages.includes(priority)) {
@@ -328,6 +349,9 @@ export class ContentInfillEngine {
 					priority
 				})
 			}
+			if (config.priorities.summary.includes(priority)) {
+				state.summaryIterator = this.chatSummaryIterator({ priority })
+			}
 		}
 	}
 
@@ -371,6 +395,24 @@ export class ContentInfillEngine {
 		}
 	}
 
+	/**
+	 * Process chat summaries from iterator, newest first
+	 */
+	private processSummaries(state: ContentInclusionState) {
+		if (!state.summaryIterator) return
+
+		const nextVal = state.summaryIterator.next()
+
+		if (nextVal.done) {
+			state.summaryIterator = null
+		} else if (
+			nextVal.value &&
+			!state.includedSummaries.some((s) => s.id === nextVal.value.id)
+		) {
+			state.includedSummaries.push(nextVal.value)
+		}
+	}
+
 	/**
 	 * Process world lore entries from iterator
 	 */
@@ -499,7 +541,7 @@ export class ContentInfillEngine {
 			state.consideredWorldLore,
 			state.messageFailedWorldLoreMatches,
 			this.worldLoreProcessor,
-			{ ...context, priority: state.priority }
+			{ ...context, priority: state.priority, entryType: "worldLore" }
 		)
 		state.includedWorldLore.push(...worldLoreResult.matched)
 		state.consideredWorldLore = worldLoreResult.remaining
@@ -511,7 +553,11 @@ export class ContentInfillEngine {
 				state.consideredCharacterLore,
 				state.messageFailedCharacterLoreMatches,
 				this.characterLoreProcessor,
-				{ ...context, priority: state.priority }
+				{
+					...context,
+					priority: state.priority,
+					entryType: "characterLore"
+				}
 			)
 		state.includedCharacterLore.push(...characterLoreResult.matched)
 		state.consideredCharacterLore = characterLoreResult.remaining
@@ -522,7 +568,7 @@ export class ContentInfillEngine {
 			state.consideredHistory,
 			state.messageFailedHistoryMatches,
 			this.historyEntryProcessor,
-			{ ...context, priority: state.priority }
+			{ ...context, priority: state.priority, entryType: "history" }
 		)
 		state.includedHistory.push(...historyResult.matched)
 		state.consideredHistory = historyResult.remaining
@@ -551,6 +597,7 @@ export class ContentInfillEngine {
 			worldLoreIterator: undefined,
 			characterLoreIterator: undefined,
 			historyIterator: undefined,
+			summaryIterator: undefined,
 
 			consideredWorldLore: [],
 			consideredCharacterLore: [],
@@ -570,7 +617,9 @@ export class ContentInfillEngine {
 			],
 			includedWorldLore: [],
 			includedCharacterLore: [],
-			includedHistory: []
+			includedHistory: [],
+			includedSummaries: [],
+			newestMessageCount: 1
 		}
 	}
 
@@ -579,7 +628,8 @@ export class ContentInfillEngine {
 			state.messagesIterator === null &&
 			state.worldLoreIterator === null &&
 			state.characterLoreIterator === null &&
-			state.historyIterator === null
+			state.historyIterator === null &&
+			state.summaryIterator === null
 		)
 	}
 
@@ -628,7 +678,10 @@ export class ContentInfillEngine {
 			options.contextConfig.template
 		)({
 			...updatedTemplateContext,
-			chatMessages: [...state.chatMessages].reverse()
+			chatMessages: this.insertDepthPrompts(
+				[...state.chatMessages].reverse(),
+				templateContext
+			)
 		})
 
 		let finalPrompt = renderedPrompt
@@ -790,9 +843,33 @@ export class ContentInfillEngine {
 			? JSON.stringify(historyObj)
 			: undefined
 
+		const summaries = this.getPromptSummaries(state)
+		context.summary = summaries.length
+			? summaries.map((summary) => summary.content.trim()).join("\n\n")
+			: undefined
+
 		return context
 	}
 
+	/**
+	 * Included summaries in story order, skipping any whose messages all made it into the prompt
+	 */
+	private getPromptSummaries(
+		state: ContentInclusionState
+	): SelectChatSummary[] {
+		const includedIds = new Set(state.chatMessages.map((m) => m.id))
+		return state.includedSummaries
+			.filter((summary) =>
+				(this.chat.chatMessages || []).some(
+					(m: SelectChatMessage) =>
+						m.id >= summary.startMessageId &&
+						m.id <= summary.endMessageId &&
+						!includedIds.has(m.id)
+				)
+			)
+			.sort((a, b) => a.startMessageId - b.startMessageId)
+	}
+
 	/**
 	 * Get interpolated characters similar to the original method
 	 */
@@ -871,7 +948,13 @@ export class ContentInfillEngine {
 	}
 
 	private handleOverLimit(state: ContentInclusionState) {
-		if (state.chatMessages.length > 1) {
+		// Older messages go first, then summaries, the newest messages last
+		if (state.chatMessages.length > Math.max(1, state.newestMessageCount)) {
+			state.chatMessages.pop()
+		} else if (state.includedSummaries.length) {
+			// Oldest summary goes first
+			state.includedSummaries.pop()
+		} else if (state.chatMessages.length > 1) {
 			state.chatMessages.pop()
 		} else {
 			state.completed = true
@@ -917,7 +1000,8 @@ export class ContentInfillEngine {
 				config.priorities.chatMessages.includes(p) ||
 				config.priorities.worldLore.includes(p) ||
 				config.priorities.characterLore.includes(p) ||
-				config.priorities.history.includes(p)
+				config.priorities.history.includes(p) ||
+				config.priorities.summary.includes(p)
 			if (hasContent) {
 				return p
 			}
@@ -926,6 +1010,45 @@ export class ContentInfillEngine {
 		return -1
 	}
 
+	/**
+	 * Insert depth prompts into the oldest-first message list. The last entry is
+	 * the reply being generated, depth counts history messages before it.
+	 */
+	private insertDepthPrompts(
+		messages: ProcessedChatMessage[],
+		templateContext: {
+			depthPrompts?: DepthPrompt[]
+			char?: string
+			user?: string
+		}
+	): ProcessedChatMessage[] {
+		const depthPrompts = templateContext.depthPrompts || []
+		if (!depthPrompts.length) return messages
+
+		const historyLength = messages.length - 1
+		const result: ProcessedChatMessage[] = []
+		messages.forEach((message, index) => {
+			for (const prompt of depthPrompts) {
+				// Prompts deeper than the included history go before all of it
+				const depth = Math.min(Math.max(prompt.depth, 0), historyLength)
+				if (depth !== historyLength - index || !prompt.content) continue
+				result.push({
+					id: -3,
+					role: prompt.role,
+					name:
+						prompt.role === "assistant"
+							? templateContext.char || ""
+							: prompt.role === "user"
+								? templateContext.user || ""
+								: "",
+					message: prompt.content
+				})
+			}
+			result.push(message)
+		})
+		return result
+	}
+
 	private parseSplitChatPrompt(prompt: string) {
 		return parseSplitChatPrompt(prompt)
 	}
@@ -947,7 +1070,10 @@ export class ContentInfillEngine {
 			options.contextConfig.template
 		)({
 			...finalContext,
-			chatMessages: [...state.chatMessages].reverse()
+			chatMessages: this.insertDepthPrompts(
+				[...state.chatMessages].reverse(),
+				templateContext
+			)
 		})
 
 		let finalPrompt = renderedPrompt
@@ -981,7 +1107,13 @@ export class ContentInfillEngine {
 				included: includedChatMessages,
 				includedIds: includedChatMessageIds,
 				excludedIds: excludedChatMessageIds
-			}
+			},
+			lore: {
+				worldLoreIds: state.includedWorldLore.map((e) => e.id),
+				characterLoreIds: state.includedCharacterLore.map((e) => e.id),
+				historyIds: state.includedHistory.map((e) => e.id)
+			},
+			summaryIds: this.getPromptSummaries(state).map((s) => s.id)
 		}
 	}
 }
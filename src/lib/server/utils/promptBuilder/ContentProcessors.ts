@@ -1,10 +1,11 @@
 import type { InterpolationContext } from "./InterpolationEngine"
 import type { LoreMatchingStrategy } from "./LoreMatchingStrategies"
+import type { LoreEntryType } from "../loreEmbeddings"
 
 // Define processed chat message format
 export interface ProcessedChatMessage {
 	id: number
-	role: "assistant" | "user"
+	role: "assistant" | "user" | "system" // System is only used by depth prompts
 	name: string
 	message: string | undefined
 }
@@ -264,6 +265,7 @@ export class LoreMatchingEngine {
 			interpolationContext: InterpolationContext
 			chatMessages: Array<{ id: number; message: string | undefined }>
 			failedMatches: Record<number, number[]>
+			entryType?: LoreEntryType
 		}
 	): Promise<boolean> {
 		return await this.strategy.matchesMessage(entry, message, context)
@@ -282,6 +284,7 @@ export class LoreMatchingEngine {
 			charName: string
 			personaName: string
 			priority: number
+			entryType: LoreEntryType
 		}
 	): Promise<{
 		matched: TOutput[]
@@ -290,11 +293,21 @@ export class LoreMatchingEngine {
 		const matched: TOutput[] = []
 		const remaining: TInput[] = []
 
+		// Let the strategy prepare for this pass (e.g., compute embeddings)
+		if (this.strategy.prepare) {
+			await this.strategy.prepare(
+				consideredEntries as any[],
+				chatMessages,
+				context.entryType
+			)
+		}
+
 		// Create enhanced context for strategy
 		const strategyContext = {
 			interpolationContext: context.interpolationContext,
 			chatMessages,
-			failedMatches
+			failedMatches,
+			entryType: context.entryType
 		}
 
 		for (const entry of consideredEntries) {
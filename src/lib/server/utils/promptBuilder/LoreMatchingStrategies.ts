@@ -1,5 +1,12 @@
 import type { InterpolationContext } from "./InterpolationEngine"
 import type { ProcessedChatMessage } from "./ContentProcessors"
+import type { EmbedFn } from "../../connectionAdapters/BaseConnectionAdapter"
+import {
+	cosineSimilarity,
+	getLoreEntryEmbeddings,
+	hashEmbeddingText,
+	type LoreEntryType
+} from "../loreEmbeddings"
 
 /**
  * Base interface for lore matching strategies
@@ -18,6 +25,7 @@ export interface LoreMatchingStrategy {
 			interpolationContext: InterpolationContext
 			chatMessages: Array<{ id: number; message: string | undefined }>
 			failedMatches: Record<number, number[]>
+			entryType?: LoreEntryType
 		}
 	): Promise<boolean> | boolean
 
@@ -26,6 +34,17 @@ export interface LoreMatchingStrategy {
 	 */
 	initialize?(): Promise<void>
 
+	/**
+	 * Called before a matching pass over a set of entries (e.g., compute embeddings)
+	 */
+	prepare?(
+		entries: Array<
+			SelectWorldLoreEntry | SelectCharacterLoreEntry | SelectHistoryEntry
+		>,
+		chatMessages: Array<{ id: number; message: string | undefined }>,
+		entryType: LoreEntryType
+	): Promise<void>
+
 	/**
 	 * Clean up resources
 	 */
@@ -104,28 +123,114 @@ export class KeywordMatchingStrategy implements LoreMatchingStrategy {
 }
 
 /**
- * Vector similarity-based matching strategy (future implementation)
+ * Vector similarity-based matching strategy
+ *
+ * Keyword matches still activate entries, on top of that entries whose
+ * embedding is similar enough to one of the most recent chat messages
+ * are activated (up to maxResults per lore type).
+ * Falls back to keyword-only matching when embeddings are unavailable.
  */
 export class VectorMatchingStrategy implements LoreMatchingStrategy {
-	private embeddings: Map<number, number[]> = new Map()
+	static RECENT_MESSAGES = 4 // Number of most recent messages compared against entries
+
+	private keywordStrategy = new KeywordMatchingStrategy()
+	private messageEmbeddings: Map<string, number[]> = new Map()
+	private selectedEntries: Record<LoreEntryType, Set<number>> = {
+		worldLore: new Set(),
+		characterLore: new Set(),
+		history: new Set()
+	}
 	private isInitialized = false
+	private isAvailable = false
+
+	constructor(
+		private options: {
+			embed?: EmbedFn
+			model?: string
+			threshold?: number
+			maxResults?: number
+		} = {}
+	) {}
 
 	getName(): string {
 		return "vector"
 	}
 
 	async initialize(): Promise<void> {
-		// TODO: Initialize embedding model
-		// TODO: Pre-compute embeddings for lore entries
+		this.isAvailable = !!this.options.embed && !!this.options.model
+		if (!this.isAvailable) {
+			console.warn(
+				"VectorMatchingStrategy: no embeddings endpoint or model available, using keyword matching only"
+			)
+		}
 		this.isInitialized = true
-		console.log("VectorMatchingStrategy initialized")
 	}
 
 	async cleanup(): Promise<void> {
-		this.embeddings.clear()
+		this.messageEmbeddings.clear()
+		for (const selected of Object.values(this.selectedEntries)) {
+			selected.clear()
+		}
 		this.isInitialized = false
 	}
 
+	async prepare(
+		entries: Array<
+			SelectWorldLoreEntry | SelectCharacterLoreEntry | SelectHistoryEntry
+		>,
+		chatMessages: Array<{ id: number; message: string | undefined }>,
+		entryType: LoreEntryType
+	): Promise<void> {
+		if (!this.isAvailable || !entries.length) return
+
+		const threshold = this.options.threshold ?? 0.75
+		const maxResults = this.options.maxResults ?? 5
+		const selected = this.selectedEntries[entryType]
+		if (selected.size >= maxResults) return
+
+		try {
+			const messageEmbeddings = await this.getMessageEmbeddings(
+				chatMessages
+					.filter((m) => m.message && m.message.trim())
+					.slice(0, VectorMatchingStrategy.RECENT_MESSAGES)
+			)
+			if (!messageEmbeddings.length) return
+
+			const entryEmbeddings = await getLoreEntryEmbeddings({
+				entries,
+				entryType,
+				model: this.options.model!,
+				embed: this.options.embed!
+			})
+
+			const scored: { id: number; score: number }[] = []
+			for (const entry of entries) {
+				const embedding = entryEmbeddings.get(entry.id)
+				if (!embedding || selected.has(entry.id)) continue
+				const score = Math.max(
+					...messageEmbeddings.map((m) =>
+						cosineSimilarity(embedding, m)
+					)
+				)
+				if (score >= threshold) {
+					scored.push({ id: entry.id, score })
+				}
+			}
+
+			scored
+				.sort((a, b) => b.score - a.score)
+				.slice(0, maxResults - selected.size)
+				.forEach(({ id }) => selected.add(id))
+		} catch (error) {
+			// Don't fail prompt compilation over embeddings, keep keyword matching
+			console.warn(
+				"VectorMatchingStrategy: embedding failed, using keyword matching only:",
+				error
+			)
+			this.isAvailable = false
+		}
+	}
+
 	async matchesMessage(
 		entry:
 			| SelectWorldLoreEntry
@@ -136,6 +241,7 @@ export class VectorMatchingStrategy implements LoreMatchingStrategy {
 			interpolationContext: InterpolationContext
 			chatMessages: Array<{ id: number; message: string | undefined }>
 			failedMatches: Record<number, number[]>
+			entryType?: LoreEntryType
 		}
 	): Promise<boolean> {
 		if (!this.isInitialized) {
@@ -144,18 +250,43 @@ export class VectorMatchingStrategy implements LoreMatchingStrategy {
 			)
 		}
 
-		if (!message.message) {
-			return false
+		if (this.keywordStrategy.matchesMessage(entry, message, context)) {
+			return true
 		}
 
-		// TODO: Implement vector similarity matching
-		// 1. Generate embedding for message content
-		// 2. Calculate similarity with lore entry embedding
-		// 3. Return true if similarity exceeds threshold
+		return (
+			!!context?.entryType &&
+			this.selectedEntries[context.entryType].has(entry.id)
+		)
+	}
 
-		// Placeholder implementation - fallback to keyword matching for now
-		const keywordStrategy = new KeywordMatchingStrategy()
-		return keywordStrategy.matchesMessage(entry, message, context)
+	/**
+	 * Embed chat messages, reusing embeddings from earlier passes
+	 */
+	private async getMessageEmbeddings(
+		messages: Array<{ id: number; message: string | undefined }>
+	): Promise<number[][]> {
+		const texts = messages.map((m) => m.message!)
+		const missing = texts.filter(
+			(text) => !this.messageEmbeddings.has(hashEmbeddingText(text))
+		)
+		if (missing.length) {
+			const embeddings = await this.options.embed!(
+				missing,
+				this.options.model
+			)
+			missing.forEach((text, i) => {
+				if (embeddings[i]) {
+					this.messageEmbeddings.set(
+						hashEmbeddingText(text),
+						embeddings[i]
+					)
+				}
+			})
+		}
+		return texts
+			.map((text) => this.messageEmbeddings.get(hashEmbeddingText(text)))
+			.filter((embedding): embedding is number[] => !!embedding)
 	}
 }
 
@@ -170,6 +301,7 @@ export interface MatchingStrategyConfig {
 		model?: string
 		threshold?: number
 		maxResults?: number
+		embed?: EmbedFn
 	}
 
 	// Performance options
@@ -191,7 +323,9 @@ export class MatchingStrategyFactory {
 				return new KeywordMatchingStrategy()
 
 			case "vector":
-				const vectorStrategy = new VectorMatchingStrategy()
+				const vectorStrategy = new VectorMatchingStrategy(
+					config.vectorOptions
+				)
 				await vectorStrategy.initialize()
 				return vectorStrategy
 
@@ -1,7 +1,11 @@
 import { PromptBlockFormatter } from "../PromptBlockFormatter"
 import Handlebars from "handlebars"
 import type { TokenCounters } from "../TokenCounterManager"
-import type { BasePromptChat } from "../../connectionAdapters/BaseConnectionAdapter"
+import type {
+	BasePromptChat,
+	EmbedFn
+} from "../../connectionAdapters/BaseConnectionAdapter"
+import type { ContextBudget } from "../contextBudget"
 import {
 	attachCharacterLoreToCharacters,
 	populateLorebookEntryBindings
@@ -12,6 +16,7 @@ import {
 } from "./PromptIterators"
 import { PromptFormats } from "$lib/shared/constants/PromptFormats"
 import { ChatCharacterVisibility } from "$lib/shared/constants/ChatCharacterVisibility"
+import { LoreMatchingStrategies } from "$lib/shared/constants/LoreMatchingStrategies"
 
 // Import modular components
 import { InterpolationEngine } from "./InterpolationEngine"
@@ -29,9 +34,18 @@ import type {
 	ContentInclusionStrategy
 } from "./ContentInclusionStrategy"
 import { defaultContentInclusionConfig } from "./ContentInclusionStrategy"
-import type { CompiledPrompt, CompileOptions, TemplateContext } from "./types"
+import type {
+	CompiledPrompt,
+	CompileOptions,
+	DepthPrompt,
+	TemplateContext
+} from "./types"
 import { parseSplitChatPrompt, isHistoryEntry } from "./utils"
 
+// Depth 0 instruction for impersonatePersona, {{char}} is the impersonated persona (the speaker)
+const IMPERSONATION_PROMPT =
+	"Write {{char}}'s next reply to {{user}} in this chat, in {{char}}'s voice and true to {{char}}'s description. Only write for {{char}}, never for {{user}} or anyone else."
+
 export class PromptBuilder {
 	connection: SelectConnection
 	sampling: SelectSamplingConfig
@@ -42,6 +56,10 @@ export class PromptBuilder {
 	tokenCounter: TokenCounters
 	tokenLimit: number
 	contextThresholdPercent: number
+	contextBudget?: ContextBudget
+	embed?: EmbedFn
+	continueFrom?: string
+	impersonatePersonaId?: number
 
 	// Legacy properties (gradually being moved to modules)
 	assistantCharacters: any[] = []
@@ -49,6 +67,7 @@ export class PromptBuilder {
 	instructions?: string
 	exampleDialogue?: string
 	postHistoryInstructions?: string
+	depthPrompts: DepthPrompt[] = []
 
 	handlebars: typeof Handlebars
 
@@ -64,7 +83,11 @@ export class PromptBuilder {
 		currentCharacterId,
 		tokenCounter,
 		tokenLimit,
-		contextThresholdPercent
+		contextThresholdPercent,
+		contextBudget,
+		embed,
+		continueFrom,
+		impersonatePersonaId
 	}: {
 		connection: SelectConnection
 		sampling: SelectSamplingConfig
@@ -75,6 +98,10 @@ export class PromptBuilder {
 		tokenCounter: TokenCounters
 		tokenLimit: number
 		contextThresholdPercent: number
+		contextBudget?: ContextBudget
+		embed?: EmbedFn
+		continueFrom?: string // Existing reply text to continue instead of starting a new one
+		impersonatePersonaId?: number // Write the persona's next message instead of the character's
 	}) {
 		this.connection = connection
 		this.sampling = sampling
@@ -86,6 +113,10 @@ export class PromptBuilder {
 		this.tokenCounter = tokenCounter
 		this.tokenLimit = tokenLimit
 		this.contextThresholdPercent = contextThresholdPercent
+		this.contextBudget = contextBudget
+		this.embed = embed
+		this.continueFrom = continueFrom
+		this.impersonatePersonaId = impersonatePersonaId
 
 		// Initialize the interpolation engine with the same handlebars instance
 		this.interpolationEngine = new InterpolationEngine(this.handlebars)
@@ -118,6 +149,7 @@ export class PromptBuilder {
 			: this.connection?.promptFormat || PromptFormats.VICUNA
 
 		const getPromptFormat = () => precomputedPromptFormat
+		const userId = this.connection?.userId
 
 		if (!handlebars.helpers.systemBlock) {
 			handlebars.registerHelper(
@@ -126,6 +158,7 @@ export class PromptBuilder {
 					const promptFormat = getPromptFormat()
 					return PromptBlockFormatter.makeBlock({
 						format: promptFormat,
+						userId,
 						role: "system",
 						content: options.fn(this)
 					})
@@ -143,11 +176,25 @@ export class PromptBuilder {
 						this.id !== undefined
 							? this.id
 							: options.data && options.data.id
+					// chatMessages are rendered oldest first
+					const firstAssistant =
+						options.data?.root?.chatMessages?.find(
+							(m: any) => m.role === "assistant"
+						)
+					const content = options.fn(this)
 					return PromptBlockFormatter.makeBlock({
 						format: promptFormat,
+						userId,
 						role: "assistant",
-						content: options.fn(this),
-						includeClose: messageId !== -2
+						// A continued reply must end where its text does
+						content:
+							messageId === -2 && this.message
+								? content.trimEnd()
+								: content,
+						includeClose: messageId !== -2,
+						isFirstAssistant:
+							messageId !== undefined &&
+							firstAssistant?.id === messageId
 					})
 				}
 			)
@@ -157,10 +204,20 @@ export class PromptBuilder {
 				"userBlock",
 				function (this: any, options: any) {
 					const promptFormat = getPromptFormat()
+					const messageId =
+						this.id !== undefined
+							? this.id
+							: options.data && options.data.id
+					// An impersonated persona's turn is left open, like the assistant's
 					return PromptBlockFormatter.makeBlock({
 						format: promptFormat,
+						userId,
 						role: "user",
-						content: options.fn(this)
+						content:
+							messageId === -2
+								? options.fn(this).trimEnd()
+								: options.fn(this),
+						includeClose: messageId !== -2
 					})
 				}
 			)
@@ -186,8 +243,14 @@ export class PromptBuilder {
 	contextBuildPersonaDescription(persona: any): string {
 		return persona.description
 	}
-	contextBuildSystemPrompt(): string {
-		return this.promptConfig.systemPrompt
+	contextBuildSystemPrompt(character: SelectCharacter): string {
+		const original = this.promptConfig.systemPrompt
+		if (!character?.systemPrompt) return original
+		// The character's prompt replaces the configured one, {{original}} keeps it
+		return character.systemPrompt.replace(
+			/\{\{original\}\}/gi,
+			() => original
+		)
 	}
 	contextBuildCharacterExampleDialogues(
 		character: SelectCharacter
@@ -205,6 +268,40 @@ export class PromptBuilder {
 		if (!character?.postHistoryInstructions) return undefined
 		return character.postHistoryInstructions
 	}
+	contextBuildDepthPrompts(character: SelectCharacter): DepthPrompt[] {
+		if (!character?.depthPrompt) return []
+		return [
+			{
+				content: character.depthPrompt,
+				depth: character.depthPromptDepth,
+				role: character.depthPromptRole
+			}
+		]
+	}
+	contextBuildChatInjections(): DepthPrompt[] {
+		const depthPrompts = (this.chat.injections || []).filter(
+			(i) => i.content
+		)
+		const frequency = this.chat.authorsNoteFrequency
+		if (this.chat.authorsNote && frequency > 0) {
+			// The author's note is only included every N user turns
+			const userTurns = this.chat.chatMessages.filter(
+				(m) => m.role === "user"
+			).length
+			if (userTurns % frequency === 0) {
+				depthPrompts.push({
+					content: this.chat.authorsNote,
+					depth: this.chat.authorsNoteDepth,
+					role: this.chat.authorsNoteRole
+				})
+			}
+		}
+		return depthPrompts
+	}
+	contextBuildImpersonationPrompt(): DepthPrompt[] {
+		if (!this.impersonatePersonaId) return []
+		return [{ content: IMPERSONATION_PROMPT, depth: 0, role: "system" }]
+	}
 	contextBuildCharacterName(character: SelectCharacter): string {
 		return character.name
 	}
@@ -388,10 +485,15 @@ export class PromptBuilder {
 		this.userCharacters = (this.chat.chatPersonas || []).map((cp) =>
 			this.compilePersonaData(cp.persona)
 		)
-		this.instructions = this.contextBuildSystemPrompt()
+		this.instructions = this.contextBuildSystemPrompt(currentCharacter)
 		this.exampleDialogue = this.contextBuildCharacterExampleDialogues(currentCharacter)
 		this.postHistoryInstructions =
 			this.contextBuildPostHistoryInstructions(currentCharacter)
+		this.depthPrompts = [
+			...this.contextBuildDepthPrompts(currentCharacter),
+			...this.contextBuildChatInjections(),
+			...this.contextBuildImpersonationPrompt()
+		]
 	}
 
 	// --- Modularized section: scenario interpolation and source ---
@@ -456,6 +558,7 @@ export class PromptBuilder {
 		scenarioInterpolated,
 		exampleDialogue,
 		postHistoryInstructions,
+		depthPrompts,
 		charName,
 		personaName
 	}: any): TemplateContext {
@@ -466,6 +569,7 @@ export class PromptBuilder {
 			scenario: scenarioInterpolated,
 			exampleDialogue,
 			postHistoryInstructions,
+			depthPrompts,
 			chatMessages: [],
 			char: charName,
 			character: charName,
@@ -520,6 +624,7 @@ export class PromptBuilder {
 				this.worldLoreEntryIterator.bind(this),
 				boundCharacterLoreIterator,
 				historyEntryIterator,
+				this.chatSummaryIterator.bind(this),
 				matchingStrategyConfig
 			)
 		} else {
@@ -533,6 +638,7 @@ export class PromptBuilder {
 				this.worldLoreEntryIterator.bind(this),
 				boundCharacterLoreIterator,
 				historyEntryIterator,
+				this.chatSummaryIterator.bind(this),
 				matchingStrategy // Will default to keyword if undefined
 			)
 		}
@@ -549,7 +655,9 @@ export class PromptBuilder {
 			handlebars: this.handlebars,
 			contextConfig: this.contextConfig,
 			strategy,
-			config
+			config,
+			continueFrom: this.continueFrom,
+			impersonate: !!this.impersonatePersonaId
 		})
 	}
 
@@ -576,6 +684,28 @@ export class PromptBuilder {
 		return this._infillEngine?.getMatchingStrategyName() || null
 	}
 
+	/**
+	 * Build the lore matching strategy config from the chat's lorebook settings
+	 */
+	getMatchingStrategyConfig(): MatchingStrategyConfig | undefined {
+		const lorebook = this.chat.lorebook
+		if (lorebook?.matchingStrategy !== LoreMatchingStrategies.VECTOR) {
+			return undefined
+		}
+		return {
+			strategy: "vector",
+			vectorOptions: {
+				model:
+					lorebook.embeddingModel ||
+					this.connection.model ||
+					undefined,
+				threshold: lorebook.vectorThreshold,
+				maxResults: lorebook.vectorMaxResults,
+				embed: this.embed
+			}
+		}
+	}
+
 	// --- Original infillContent method remains for backward compatibility ---
 	// --- Modularized section: sources reporting ---
 	private buildSources(scenarioSource: null | "character" | "chat") {
@@ -632,7 +762,14 @@ export class PromptBuilder {
 			templateName: this.contextConfig?.name || null,
 			timestamp: new Date().toISOString(),
 			truncationReason: excludedIds.length ? "token_limit" : null,
-			currentTurnCharacterId: this.currentCharacterId
+			currentTurnCharacterId: this.currentCharacterId,
+			contextBudget: this.contextBudget
+				? {
+						tokenCounter: this.contextBudget.tokenCounterName,
+						configuredLimit: this.contextBudget.configuredLimit,
+						modelLimit: this.contextBudget.modelLimit
+					}
+				: null
 		}
 	}
 
@@ -658,19 +795,31 @@ export class PromptBuilder {
 		this.buildContextData(currentCharacter)
 
 		const charName = currentCharacter.nickname || currentCharacter.name
-		const personaName =
-			(this.chat.chatPersonas &&
-				this.chat.chatPersonas[0]?.persona?.name) ||
-			"user"
+		const chatPersona =
+			this.chat.chatPersonas?.find(
+				(cp) => cp.persona?.id === this.impersonatePersonaId
+			) || this.chat.chatPersonas?.[0]
+		const personaName = chatPersona?.persona?.name || "user"
 		const interpolationContext =
 			this.interpolationEngine.createInterpolationContext({
 				currentCharacterName: charName,
 				currentPersonaName: personaName
 			})
+		// When impersonating, the persona is the speaker: instructions addressed
+		// to {{char}} are for the persona, and {{user}} is the character they answer.
+		// Descriptions, scenario and example dialogue keep their own names.
+		const speakerName = this.impersonatePersonaId ? personaName : charName
+		const listenerName = this.impersonatePersonaId ? charName : personaName
+		const speakerContext = this.impersonatePersonaId
+			? this.interpolationEngine.createInterpolationContext({
+					currentCharacterName: speakerName,
+					currentPersonaName: listenerName
+				})
+			: interpolationContext
 
 		const instructions = this.interpolationEngine.interpolateString(
 			this.instructions,
-			interpolationContext
+			speakerContext
 		)
 		const exampleDialogue = this.interpolationEngine.interpolateString(
 			this.exampleDialogue,
@@ -679,8 +828,16 @@ export class PromptBuilder {
 		const postHistoryInstructions =
 			this.interpolationEngine.interpolateString(
 				this.postHistoryInstructions,
-				interpolationContext
+				speakerContext
 			)
+		const depthPrompts = this.depthPrompts.map((p) => ({
+			...p,
+			content:
+				this.interpolationEngine.interpolateString(
+					p.content,
+					speakerContext
+				) || ""
+		}))
 
 		const { scenarioInterpolated, scenarioSource } =
 			this.getScenarioInterpolated(currentCharacter, interpolationContext)
@@ -713,8 +870,9 @@ export class PromptBuilder {
 			scenarioInterpolated,
 			exampleDialogue,
 			postHistoryInstructions,
-			charName,
-			personaName
+			depthPrompts,
+			charName: speakerName,
+			personaName: listenerName
 		})
 
 		const {
@@ -725,7 +883,9 @@ export class PromptBuilder {
 				included: includedChatMessages,
 				includedIds,
 				excludedIds
-			}
+			},
+			lore,
+			summaryIds
 		} = await this.infillContent({
 			templateContext,
 			charName,
@@ -734,7 +894,7 @@ export class PromptBuilder {
 			config: defaultContentInclusionConfig,
 			strategy: undefined,
 			matchingStrategy: undefined,
-			matchingStrategyConfig: undefined
+			matchingStrategyConfig: this.getMatchingStrategyConfig()
 		})
 
 		const sources = this.buildSources(scenarioSource)
@@ -756,7 +916,14 @@ export class PromptBuilder {
 
 		// Default: return as before
 		return {
-			prompt: renderedPrompt,
+			prompt:
+				renderedPrompt !== undefined
+					? PromptBlockFormatter.withBos(
+							this.connection?.promptFormat || PromptFormats.VICUNA,
+							renderedPrompt,
+							this.connection?.userId
+						)
+					: renderedPrompt,
 			messages: renderedMessages,
 			meta: {
 				...meta,
@@ -770,7 +937,31 @@ export class PromptBuilder {
 					includedIds,
 					excludedIds
 				},
-				sources
+				sources: {
+					...sources,
+					lorebooks: {
+						worldLore: {
+							included: lore.worldLoreIds.length,
+							total: worldLoreTotal,
+							includedIds: lore.worldLoreIds
+						},
+						characterLore: {
+							included: lore.characterLoreIds.length,
+							total: characterLoreTotal,
+							includedIds: lore.characterLoreIds
+						},
+						history: {
+							included: lore.historyIds.length,
+							total: historyTotal,
+							includedIds: lore.historyIds
+						}
+					},
+					summaries: {
+						included: summaryIds.length,
+						total: this.chat.chatSummaries?.length || 0,
+						includedIds: summaryIds
+					}
+				}
 			}
 		}
 	}
@@ -804,6 +995,20 @@ export class PromptBuilder {
 		}
 	}
 
+	*chatSummaryIterator({
+		priority
+	}: {
+		priority: number
+	}): IterableIterator<SelectChatSummary> {
+		// Summaries are offered newest first, like chat messages
+		const summaries = (this.chat.chatSummaries || [])
+			.slice()
+			.sort((a, b) => b.endMessageId - a.endMessageId)
+		for (const summary of summaries) {
+			yield summary
+		}
+	}
+
 	*worldLoreEntryIterator({
 		priority
 	}: {
@@ -16,6 +16,13 @@ export type TemplateContextPersona = {
 	description: string
 }
 
+// Text inserted into the chat history, depth 0 is after the last message
+export type DepthPrompt = {
+	content: string
+	depth: number
+	role: "system" | "user" | "assistant"
+}
+
 export type TemplateContext = {
 	instructions: string
 	characters: TemplateContextCharacter[] | string // can be JSON stringified
@@ -23,6 +30,7 @@ export type TemplateContext = {
 	scenario: string
 	exampleDialogue?: string
 	postHistoryInstructions?: string
+	depthPrompts?: DepthPrompt[]
 	chatMessages: any[]
 	char: string
 	character: string
@@ -31,6 +39,7 @@ export type TemplateContext = {
 	worldLore?: string
 	characterLore?: SelectCharacterLoreEntry[]
 	history?: string
+	summary?: string
 	currentDate?: string
 	__promptBuilderInstance?: any
 }
@@ -48,6 +57,11 @@ export type CompiledPrompt = {
 			total: number
 			limit: number
 		}
+		contextBudget?: {
+			tokenCounter: string
+			configuredLimit: number | null
+			modelLimit: number | null
+		} | null
 		chatMessages: {
 			included: number
 			total: number
@@ -0,0 +1,293 @@
+// Serializes Serene Pub lorebooks to SillyTavern World Info JSON and V3 character_book data
+import { db } from "$lib/server/db"
+import { LorebookExportFormats } from "$lib/shared/constants/LorebookExportFormats"
+
+type ExportBinding = SelectLorebookBinding & {
+	character: SelectCharacter | null
+	persona: SelectPersona | null
+}
+
+export type ExportableLorebook = SelectLorebook & {
+	lorebookBindings: ExportBinding[]
+	worldLoreEntries: SelectWorldLoreEntry[]
+	characterLoreEntries: SelectCharacterLoreEntry[]
+	historyEntries: SelectHistoryEntry[]
+}
+
+type ExportEntry = {
+	name: string
+	keys: string[]
+	content: string
+	useRegex: boolean
+	caseSensitive: boolean
+	constant: boolean
+	enabled: boolean
+	priority: number
+	extraJson: Record<string, any>
+	// Round-trip metadata, read back by the importer
+	serenePub: Record<string, any>
+}
+
+/**
+ * Load a lorebook with everything needed for export, scoped to the user
+ */
+export async function getLorebookForExport(
+	lorebookId: number,
+	userId: number
+): Promise<ExportableLorebook | undefined> {
+	return db.query.lorebooks.findFirst({
+		where: (l, { and, eq }) =>
+			and(eq(l.id, lorebookId), eq(l.userId, userId)),
+		with: {
+			lorebookBindings: {
+				with: {
+					character: true,
+					persona: true
+				}
+			},
+			worldLoreEntries: {
+				orderBy: (e, { asc }) => asc(e.position)
+			},
+			characterLoreEntries: {
+				orderBy: (e, { asc }) => asc(e.position)
+			},
+			historyEntries: {
+				orderBy: (e, { asc }) => asc(e.position)
+			}
+		}
+	})
+}
+
+function getBindingName(binding: ExportBinding): string | undefined {
+	if (binding.character) {
+		return binding.character.nickname || binding.character.name
+	}
+	return binding.persona?.name
+}
+
+/**
+ * Replace {{char:N}} (and deprecated {char:N}) bindings with the bound character/persona names.
+ * Unassigned bindings are left as they are.
+ */
+function replaceBindings(content: string, bindings: ExportBinding[]): string {
+	return content.replace(/\{\{?char:(\d+)\}?\}/g, (match, num) => {
+		const binding = bindings.find(
+			(b) =>
+				b.binding === `{{char:${num}}}` || b.binding === `{char:${num}}`
+		)
+		return (binding && getBindingName(binding)) || match
+	})
+}
+
+function splitKeys(keys: string): string[] {
+	return keys
+		.split(",")
+		.map((k) => k.trim())
+		.filter(Boolean)
+}
+
+function getHistoryEntryName(entry: SelectHistoryEntry): string {
+	return [entry.year, entry.month, entry.day]
+		.filter((part) => part !== null && part !== undefined)
+		.join("-")
+}
+
+function toExportEntries(lorebook: ExportableLorebook): ExportEntry[] {
+	const bindings = lorebook.lorebookBindings
+	const entries: ExportEntry[] = []
+
+	for (const entry of lorebook.worldLoreEntries) {
+		entries.push({
+			name: entry.name,
+			keys: splitKeys(entry.keys),
+			content: replaceBindings(entry.content, bindings),
+			useRegex: !!entry.useRegex,
+			caseSensitive: entry.caseSensitive,
+			constant: entry.constant,
+			enabled: entry.enabled,
+			priority: entry.priority,
+			extraJson: entry.extraJson || {},
+			serenePub: {
+				entryType: "worldLore",
+				category: entry.category,
+				priority: entry.priority
+			}
+		})
+	}
+
+	for (const entry of lorebook.characterLoreEntries) {
+		const binding = bindings.find((b) => b.id === entry.lorebookBindingId)
+		const characterName = binding ? getBindingName(binding) : undefined
+		entries.push({
+			name: entry.name,
+			keys: splitKeys(entry.keys),
+			content: replaceBindings(entry.content, bindings),
+			useRegex: !!entry.useRegex,
+			caseSensitive: entry.caseSensitive,
+			constant: entry.constant,
+			enabled: entry.enabled,
+			priority: entry.priority,
+			extraJson: entry.extraJson || {},
+			serenePub: {
+				entryType: "characterLore",
+				characterName,
+				priority: entry.priority
+			}
+		})
+	}
+
+	for (const entry of lorebook.historyEntries) {
+		entries.push({
+			name: getHistoryEntryName(entry),
+			keys: splitKeys(entry.keys),
+			content: replaceBindings(entry.content, bindings),
+			useRegex: !!entry.useRegex,
+			caseSensitive: entry.caseSensitive,
+			constant: entry.constant,
+			enabled: entry.enabled,
+			priority: 1,
+			extraJson: entry.extraJson || {},
+			serenePub: {
+				entryType: "history",
+				year: entry.year,
+				month: entry.month,
+				day: entry.day
+			}
+		})
+	}
+
+	return entries
+}
+
+function toSillyTavernWorldInfo(
+	lorebook: ExportableLorebook,
+	entries: ExportEntry[]
+) {
+	const worldInfoEntries: Record<string, any> = {}
+	entries.forEach((entry, uid) => {
+		// Fields kept from an earlier import win over the defaults
+		const {
+			extensions,
+			insertion_order,
+			secondary_keys,
+			id: _id,
+			...kept
+		} = entry.extraJson
+		worldInfoEntries[uid] = {
+			selective: true,
+			selectiveLogic: 0,
+			addMemo: true,
+			excludeRecursion: false,
+			preventRecursion: false,
+			delayUntilRecursion: false,
+			probability: 100,
+			useProbability: true,
+			depth: 4,
+			group: "",
+			groupOverride: false,
+			groupWeight: 100,
+			scanDepth: null,
+			matchWholeWords: null,
+			useGroupScoring: null,
+			automationId: "",
+			role: null,
+			sticky: 0,
+			cooldown: 0,
+			delay: 0,
+			vectorized: false,
+			...kept,
+			uid,
+			displayIndex: uid,
+			// Character book fields from an earlier import
+			keysecondary: kept.keysecondary ?? secondary_keys ?? [],
+			order: kept.order ?? insertion_order ?? 100,
+			position:
+				typeof kept.position === "number"
+					? kept.position
+					: kept.position === "after_char"
+						? 1
+						: 0,
+			// SillyTavern marks regex keys as /pattern/flags
+			key: entry.useRegex
+				? entry.keys.map(
+						(k) => `/${k}/${entry.caseSensitive ? "" : "i"}`
+					)
+				: entry.keys,
+			comment: entry.name,
+			content: entry.content,
+			constant: entry.constant,
+			disable: !entry.enabled,
+			caseSensitive: entry.caseSensitive,
+			extensions: {
+				...(extensions || {}),
+				serene_pub: entry.serenePub
+			}
+		}
+	})
+	return {
+		name: lorebook.name,
+		description: lorebook.description || "",
+		entries: worldInfoEntries
+	}
+}
+
+function toCharacterBook(lorebook: ExportableLorebook, entries: ExportEntry[]) {
+	const { extensions: bookExtensions, ...bookExtra } =
+		lorebook.extraJson || {}
+	return {
+		name: lorebook.name,
+		description: lorebook.description || "",
+		scan_depth: bookExtra.scan_depth,
+		token_budget: bookExtra.token_budget,
+		recursive_scanning: bookExtra.recursive_scanning,
+		extensions: bookExtensions || {},
+		entries: entries.map((entry, id) => {
+			const kept = entry.extraJson
+			return {
+				id,
+				keys: entry.keys,
+				secondary_keys: kept.secondary_keys ?? kept.keysecondary ?? [],
+				content: entry.content,
+				enabled: entry.enabled,
+				insertion_order: kept.insertion_order ?? kept.order ?? id,
+				case_sensitive: entry.caseSensitive,
+				use_regex: entry.useRegex,
+				constant: entry.constant,
+				name: entry.name,
+				comment: entry.name,
+				priority: entry.priority,
+				selective: kept.selective ?? false,
+				// SillyTavern position 1 is after the character
+				position:
+					kept.position === "after_char" || kept.position === 1
+						? "after_char"
+						: "before_char",
+				extensions: {
+					...(kept.extensions || {}),
+					serene_pub: entry.serenePub
+				}
+			}
+		})
+	}
+}
+
+/**
+ * Serialize a lorebook for download in the given format
+ */
+export function buildLorebookExport(
+	lorebook: ExportableLorebook,
+	format: string
+): { fileName: string; data: Record<string, any> } {
+	const entries = toExportEntries(lorebook)
+	const data =
+		format === LorebookExportFormats.CHARACTER_BOOK
+			? toCharacterBook(lorebook, entries)
+			: toSillyTavernWorldInfo(lorebook, entries)
+	const baseName =
+		lorebook.name.replace(/[^\w\- ]+/g, "").trim() || "lorebook"
+	const suffix =
+		format === LorebookExportFormats.CHARACTER_BOOK
+			? "character_book"
+			: "world_info"
+	return { fileName: `${baseName}.${suffix}.json`, data }
+}
@@ -0,0 +1,435 @@
+// Normalizes SillyTavern World Info JSON and V2/V3 character_book data
+// into Serene Pub world, character and history lore entries
+
+type WorldLoreEntryValues = Omit<InsertWorldLoreEntry, "lorebookId">
+type CharacterLoreEntryValues = Omit<
+	InsertCharacterLoreEntry,
+	"lorebookId" | "lorebookBindingId"
+>
+type HistoryEntryValues = Omit<InsertHistoryEntry, "lorebookId">
+
+export type ImportedLoreEntry =
+	| { type: "worldLore"; values: WorldLoreEntryValues }
+	| {
+			type: "characterLore"
+			binding: string
+			values: CharacterLoreEntryValues
+	  }
+	| { type: "history"; values: HistoryEntryValues }
+
+export type ImportedBinding = {
+	binding: string // e.g. "{{char:1}}"
+	isTargetCharacter: boolean // Bound to the character the book is imported for
+	name?: string // Source character name, if known
+}
+
+export type ParsedLorebookImport = {
+	name: string
+	description: string
+	extraJson: Record<string, any>
+	bindings: ImportedBinding[]
+	entries: ImportedLoreEntry[]
+	report: Sockets.LorebookImport.Report
+}
+
+// Fields that are mapped onto columns, everything else is kept in extraJson
+const MAPPED_FIELDS = [
+	"key",
+	"keys",
+	"content",
+	"comment",
+	"name",
+	"constant",
+	"disable",
+	"enabled",
+	"caseSensitive",
+	"case_sensitive",
+	"use_regex",
+	"priority",
+	"extensions"
+]
+
+// Book level fields that Serene Pub doesn't use, kept on the lorebook's extraJson
+const BOOK_FIELDS = ["scan_depth", "token_budget", "recursive_scanning"]
+
+const REGEX_KEY = /^\/([\s\S]+)\/([a-z]*)$/
+const REGEX_QUANTIFIER_OR_COMMA = /(\{\d*,\d*\})|,/g
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function toStringArray(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value
+			.filter((v) => v !== null && v !== undefined)
+			.map((v) => String(v).trim())
+			.filter(Boolean)
+	}
+	if (typeof value === "string" && value.trim()) {
+		return [value.trim()]
+	}
+	return []
+}
+
+function firstDefined<T>(...values: T[]): T | undefined {
+	return values.find((v) => v !== undefined && v !== null)
+}
+
+/**
+ * Keys are stored comma separated, so commas inside regex keys are rewritten as \x2c.
+ * Returns null if the comma belongs to a {n,m} quantifier, which can't be rewritten.
+ */
+function escapeRegexKeyCommas(pattern: string): string | null {
+	let hasQuantifier = false
+	const escaped = pattern.replace(
+		REGEX_QUANTIFIER_OR_COMMA,
+		(match, quantifier) => {
+			if (quantifier) {
+				hasQuantifier = true
+				return match
+			}
+			return "\\x2c"
+		}
+	)
+	return hasQuantifier ? null : escaped
+}
+
+function getSourceEntries(book: any): any[] {
+	const entries = book?.entries
+	if (Array.isArray(entries)) return entries
+	if (entries && typeof entries === "object") {
+		// SillyTavern World Info keys entries by uid
+		return Object.values(entries).sort(
+			(a: any, b: any) =>
+				(a?.displayIndex ?? a?.uid ?? 0) -
+				(b?.displayIndex ?? b?.uid ?? 0)
+		)
+	}
+	return []
+}
+
+/**
+ * Parse World Info / character_book data for import.
+ * When a character is given, entries keyed on their name become character lore bound to {{char:1}}.
+ */
+export function parseLorebookImport(
+	data: any,
+	{ character }: { character?: { name: string; nickname?: string | null } }
+): ParsedLorebookImport {
+	// Accept a bare book, or a character card with an embedded book
+	const book = data?.data?.character_book ?? data?.character_book ?? data
+	const sourceEntries = getSourceEntries(book)
+	const isWorldInfo =
+		!!book?.entries &&
+		!Array.isArray(book.entries) &&
+		typeof book.entries === "object"
+
+	const report: Sockets.LorebookImport.Report = {
+		format: isWorldInfo ? "sillytavern" : "character_book",
+		worldLoreEntries: 0,
+		characterLoreEntries: 0,
+		historyEntries: 0,
+		bindings: 0,
+		issues: []
+	}
+
+	const addIssue = (message: string, entryName?: string) => {
+		let issue = report.issues.find((i) => i.message === message)
+		if (!issue) {
+			issue = { message, entries: [] }
+			report.issues.push(issue)
+		}
+		if (entryName && !issue.entries.includes(entryName)) {
+			issue.entries.push(entryName)
+		}
+	}
+
+	const bookExtraJson: Record<string, any> = {}
+	for (const field of BOOK_FIELDS) {
+		if (book?.[field] !== undefined && book?.[field] !== null) {
+			bookExtraJson[field] = book[field]
+		}
+	}
+	if (Object.keys(bookExtraJson).length) {
+		addIssue(
+			`Lorebook settings (${Object.keys(bookExtraJson).join(", ")}) were kept but are not applied`
+		)
+	}
+	if (book?.extensions && Object.keys(book.extensions).length) {
+		bookExtraJson.extensions = book.extensions
+	}
+
+	const bindings: ImportedBinding[] = []
+	const getBinding = (
+		name: string | undefined,
+		isTargetCharacter: boolean
+	): string => {
+		const existing = bindings.find(
+			(b) =>
+				(isTargetCharacter && b.isTargetCharacter) ||
+				(!isTargetCharacter &&
+					!b.isTargetCharacter &&
+					b.name?.toLowerCase() === name?.toLowerCase())
+		)
+		if (existing) return existing.binding
+		const binding = `{{char:${bindings.length + 1}}}`
+		bindings.push({ binding, isTargetCharacter, name })
+		return binding
+	}
+	// The target character always gets {{char:1}}, even when no entries are bound to it
+	if (character) getBinding(character.name, true)
+
+	const characterNames = character
+		? [character.name, character.nickname]
+				.filter((n): n is string => !!n && !!n.trim())
+				.map((n) => n.trim().toLowerCase())
+		: []
+
+	const entries: ImportedLoreEntry[] = []
+	sourceEntries.forEach((source: any, index: number) => {
+		if (!source || typeof source !== "object") return
+		const ext = source.extensions || {}
+		const serene = ext.serene_pub || {}
+		const name =
+			String(
+				firstDefined(source.comment, source.name, "") || ""
+			).trim() || `Imported Entry ${index + 1}`
+
+		// Keep anything that isn't mapped onto a column
+		const extraJson: Record<string, any> = {}
+		for (const [field, value] of Object.entries(source)) {
+			if (!MAPPED_FIELDS.includes(field)) extraJson[field] = value
+		}
+		const { serene_pub: _serene, ...otherExtensions } = ext
+		if (Object.keys(otherExtensions).length) {
+			extraJson.extensions = otherExtensions
+		}
+
+		// Keys
+		const rawKeys = toStringArray(firstDefined(source.keys, source.key))
+		let caseSensitive = !!firstDefined(
+			source.caseSensitive,
+			source.case_sensitive,
+			ext.case_sensitive
+		)
+		let useRegex = !!source.use_regex
+		const regexKeys = rawKeys.map((key) =>
+			useRegex ? null : key.match(REGEX_KEY)
+		)
+		if (regexKeys.some(Boolean)) useRegex = true
+
+		const keys: string[] = []
+		rawKeys.forEach((key, i) => {
+			const regexMatch = regexKeys[i]
+			if (!useRegex) {
+				keys.push(key)
+				return
+			}
+			let pattern = key
+			if (regexMatch) {
+				pattern = regexMatch[1]
+				const flags = regexMatch[2]
+				if (flags.includes("i") && caseSensitive) {
+					caseSensitive = false
+					addIssue(
+						"Case-insensitive regex flag was applied to every key of the entry",
+						name
+					)
+				}
+				const dropped = flags.replace(/[gi]/g, "")
+				if (dropped) {
+					addIssue(`Regex flags "${dropped}" are not supported`, name)
+				}
+			} else if (!source.use_regex) {
+				// A plain key in an entry that also has regex keys
+				pattern = escapeRegExp(key)
+			}
+			const escaped = escapeRegexKeyCommas(pattern)
+			if (escaped === null) {
+				addIssue(
+					"Regex keys with {n,m} quantifiers can't be stored and were skipped",
+					name
+				)
+				return
+			}
+			keys.push(escaped)
+		})
+		// Plain keys containing commas would be split apart, match them as escaped regex instead
+		if (!useRegex && keys.some((k) => k.includes(","))) {
+			useRegex = true
+			keys.splice(
+				0,
+				keys.length,
+				...keys.map((k) => escapeRegExp(k).replaceAll(",", "\\x2c"))
+			)
+		}
+		if (!keys.length && !source.constant) {
+			addIssue("Entries without keys match every message", name)
+		}
+
+		// Fields that affect activation but have no equivalent
+		const secondaryKeys = toStringArray(
+			firstDefined(source.keysecondary, source.secondary_keys)
+		)
+		if (source.selective && secondaryKeys.length) {
+			addIssue(
+				"Secondary keys and selective logic were kept but are not applied",
+				name
+			)
+		}
+		const probability = firstDefined(source.probability, ext.probability)
+		const useProbability = firstDefined(
+			source.useProbability,
+			ext.useProbability
+		)
+		if (
+			typeof probability === "number" &&
+			probability < 100 &&
+			useProbability !== false
+		) {
+			addIssue("Trigger probability was kept but is not applied", name)
+		}
+		if (firstDefined(source.group, ext.group)) {
+			addIssue("Inclusion groups were kept but are not applied", name)
+		}
+		if (
+			firstDefined(source.sticky, ext.sticky) ||
+			firstDefined(source.cooldown, ext.cooldown) ||
+			firstDefined(source.delay, ext.delay)
+		) {
+			addIssue(
+				"Sticky, cooldown and delay timers were kept but are not applied",
+				name
+			)
+		}
+		// SillyTavern positions 0/1 are before/after the character, higher ones are
+		// author's note, @depth and example message positions
+		const stPosition = firstDefined(source.position, ext.position)
+		if (typeof stPosition === "number" && stPosition >= 2) {
+			addIssue(
+				"Author's note, depth and example message positions were kept, entries are placed in the lore section",
+				name
+			)
+		}
+
+		// Priority only has three levels
+		let priority = 1
+		const sourcePriority = source.priority ?? serene.priority
+		if (typeof sourcePriority === "number") {
+			priority = Math.min(3, Math.max(1, Math.round(sourcePriority)))
+			if (priority !== sourcePriority) {
+				extraJson.priority = sourcePriority
+				addIssue(
+					"Priority outside of 1-3 was clamped, the original value was kept",
+					name
+				)
+			}
+		}
+
+		const common = {
+			keys: keys.join(", "),
+			useRegex,
+			caseSensitive,
+			content: String(source.content ?? ""),
+			constant: !!source.constant,
+			enabled:
+				source.enabled !== undefined
+					? !!source.enabled
+					: !source.disable,
+			extraJson,
+			position: entries.length
+		}
+
+		// Entry type: explicit Serene Pub metadata first, then character matching
+		if (serene.entryType === "history") {
+			const year = Number(serene.year)
+			entries.push({
+				type: "history",
+				values: {
+					...common,
+					year: Number.isInteger(year) ? year : 1,
+					month: Number.isInteger(serene.month) ? serene.month : null,
+					day: Number.isInteger(serene.day) ? serene.day : null
+				}
+			})
+			report.historyEntries++
+			return
+		}
+
+		let binding: string | undefined
+		if (serene.entryType === "characterLore") {
+			const isTarget =
+				!!character &&
+				(!serene.characterName ||
+					characterNames.includes(
+						String(serene.characterName).toLowerCase()
+					))
+			binding = getBinding(serene.characterName, isTarget)
+		} else if (serene.entryType !== "worldLore") {
+			const filterNames = toStringArray(source.characterFilter?.names)
+				// Filter names are card filenames
+				.map((n) => n.replace(/\.(png|json|charx)$/i, ""))
+			if (source.characterFilter?.isExclude && filterNames.length) {
+				addIssue(
+					"Character exclusion filters were kept but are not applied",
+					name
+				)
+			} else if (filterNames.length) {
+				if (filterNames.length > 1) {
+					addIssue(
+						"Entries filtered to several characters were bound to the first one",
+						name
+					)
+				}
+				const isTarget = characterNames.includes(
+					filterNames[0].toLowerCase()
+				)
+				binding = getBinding(filterNames[0], isTarget)
+			} else if (
+				characterNames.length &&
+				rawKeys.some((k) => characterNames.includes(k.toLowerCase()))
+			) {
+				binding = getBinding(character!.name, true)
+			}
+		}
+
+		if (binding) {
+			entries.push({
+				type: "characterLore",
+				binding,
+				values: {
+					...common,
+					name,
+					priority,
+					// {{char}} refers to the bound character in these entries
+					content: common.content.replaceAll("{{char}}", binding)
+				}
+			})
+			report.characterLoreEntries++
+			return
+		}
+
+		entries.push({
+			type: "worldLore",
+			values: {
+				...common,
+				name,
+				category: serene.category ?? null,
+				priority
+			}
+		})
+		report.worldLoreEntries++
+	})
+
+	report.bindings = bindings.length
+
+	return {
+		name: String(book?.name || "").trim() || "Imported Lorebook",
+		description: String(book?.description || ""),
+		extraJson: bookExtraJson,
+		bindings,
+		entries,
+		report
+	}
+}
@@ -0,0 +1,12 @@
+export class CharacterCardExportFormats {
+	static PNG = "png" // PNG with chara (V2) and ccv3 (V3) tEXt chunks
+	static CHARX = "charx" // V3 zip with card.json and embedded assets
+
+	static options = [
+		{ value: CharacterCardExportFormats.PNG, label: "PNG (V2/V3 Card)" },
+		{
+			value: CharacterCardExportFormats.CHARX,
+			label: "CHARX (V3 + Assets)"
+		}
+	]
+}
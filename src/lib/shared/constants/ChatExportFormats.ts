@@ -0,0 +1,11 @@
+export class ChatExportFormats {
+	static JSONL = "jsonl" // SillyTavern chat, a header line then one line per message
+	static MARKDOWN = "markdown"
+	static HTML = "html" // Standalone transcript with embedded avatars
+
+	static options = [
+		{ value: ChatExportFormats.JSONL, label: "SillyTavern Chat (JSONL)" },
+		{ value: ChatExportFormats.MARKDOWN, label: "Markdown" },
+		{ value: ChatExportFormats.HTML, label: "HTML Transcript" }
+	]
+}
@@ -37,11 +37,48 @@ const openaiChatDesc = `
 
 const openaiChatDiff = "Beginner - Nothing to install"
 
+const openaiCompletionDesc = `
+<p>Serene Pub supports any server with an OpenAI compatible text completions endpoint (<code>/v1/completions</code>), such as vLLM, TabbyAPI, Aphrodite or text-generation-webui.</p>
+<p>The prompt is rendered with the selected prompt format and sent as is, so instruct formats work as intended.</p>
+<p>Extended samplers like min_p, DRY and XTC are passed through. Turn them off in the advanced settings if your server rejects unknown parameters.</p>
+`
+
+const openaiCompletionDiff = "Intermediate - Not for beginners"
+
+const anthropicDesc = `
+<p>Serene Pub supports Anthropic's Claude models through the native <a class="text-primary-500 hover:underline" href="https://docs.anthropic.com/en/api/messages" target="_blank">Messages API</a>.</p>
+<p>You need an API key from the <a class="text-primary-500 hover:underline" href="https://console.anthropic.com/" target="_blank">Anthropic Console</a>.</p>
+<p>Consecutive messages from the same side, like in group chats, are merged since the API requires user and assistant turns to alternate.</p>
+`
+
+const anthropicDiff = "Beginner - Nothing to install"
+
+const geminiDesc = `
+<p>Serene Pub supports Google's Gemini models through the native <a class="text-primary-500 hover:underline" href="https://ai.google.dev/api/generate-content" target="_blank">Gemini API</a>.</p>
+<p>You need an API key from <a class="text-primary-500 hover:underline" href="https://aistudio.google.com/apikey" target="_blank">Google AI Studio</a>.</p>
+<p>Gemini accepts at most 5 stop sequences, so only the last few character and persona names are used as stops.</p>
+`
+
+const geminiDiff = "Beginner - Nothing to install"
+
+const koboldCppDesc = `
+<p>Serene Pub supports KoboldCpp through its <a class="text-primary-500 hover:underline" href="https://github.com/LostRuins/koboldcpp/wiki#koboldcpp-api" target="_blank">KoboldAI API</a>, including streaming and stopping generations.</p>
+<p>KoboldCpp runs GGUF models from a single executable, with a launcher to pick the model and context size.</p>
+<p>Select the "Backend (remote)" token counter to count tokens with the loaded model's own tokenizer.</p>
+<p>You can download KoboldCpp from its <a class="text-primary-500 hover:underline" href="https://github.com/LostRuins/koboldcpp/releases" target="_blank">GitHub releases</a>.</p>
+`
+
+const koboldCppDiff = "Intermediate - Minimal setup required"
+
 export class CONNECTION_TYPE {
 	static LLAMACPP_COMPLETION = "llamacpp_completion"
 	static LM_STUDIO = "lmstudio"
 	static OLLAMA = "ollama"
 	static OPENAI_CHAT = "openai"
+	static OPENAI_COMPLETION = "openai_completion"
+	static ANTHROPIC = "anthropic"
+	static GEMINI = "gemini"
+	static KOBOLDCPP = "koboldcpp"
 
 	static options: {
 		value: string
@@ -67,11 +104,35 @@ export class CONNECTION_TYPE {
 			description: openaiChatDesc,
 			difficulty: openaiChatDiff
 		},
+		{
+			value: CONNECTION_TYPE.OPENAI_COMPLETION,
+			label: "OpenAI Compatible Text Completion",
+			description: openaiCompletionDesc,
+			difficulty: openaiCompletionDiff
+		},
+		{
+			value: CONNECTION_TYPE.ANTHROPIC,
+			label: "Anthropic",
+			description: anthropicDesc,
+			difficulty: anthropicDiff
+		},
+		{
+			value: CONNECTION_TYPE.GEMINI,
+			label: "Google Gemini",
+			description: geminiDesc,
+			difficulty: geminiDiff
+		},
 		{
 			value: CONNECTION_TYPE.LLAMACPP_COMPLETION,
 			label: "Llama.cpp",
 			description: llamaCppCompletionDesc,
 			difficulty: llamaCppCompletionDiff
+		},
+		{
+			value: CONNECTION_TYPE.KOBOLDCPP,
+			label: "KoboldCpp",
+			description: koboldCppDesc,
+			difficulty: koboldCppDiff
 		}
 	]
 }
@@ -1,11 +1,16 @@
 export class GroupReplyStrategies {
 	static MANUAL = "manual" // User manually selects persona for each reply
 	static ORDERED = "ordered" // Replies follow the order of personas in the chat
-	// static NATURAL = "natural" // Replies are assigned based on natural conversation flow
+	static NATURAL = "natural" // Mentioned characters reply first, others by talkativeness
+	static LLM = "llm" // The connection picks who replies, natural as a fallback
 
 	static options = [
 		{ value: GroupReplyStrategies.ORDERED, label: "Ordered (Round-robin)" },
-		{ value: GroupReplyStrategies.MANUAL, label: "Manual (User selects)" }
-		// [GroupReplyStrategies.NATURAL, "Natural (Conversation flow)"]
+		{ value: GroupReplyStrategies.MANUAL, label: "Manual (User selects)" },
+		{
+			value: GroupReplyStrategies.NATURAL,
+			label: "Natural (Conversation flow)"
+		},
+		{ value: GroupReplyStrategies.LLM, label: "Natural (LLM decides)" }
 	]
 }
@@ -0,0 +1,12 @@
+// Roles that text inserted into the chat history (depth prompts, author's notes) is sent as
+export class InjectionRoles {
+	static readonly SYSTEM = "system"
+	static readonly USER = "user"
+	static readonly ASSISTANT = "assistant"
+
+	static options = [
+		{ value: InjectionRoles.SYSTEM, label: "System" },
+		{ value: InjectionRoles.USER, label: "User" },
+		{ value: InjectionRoles.ASSISTANT, label: "Assistant" }
+	]
+}
@@ -0,0 +1,12 @@
+export class LoreMatchingStrategies {
+	static KEYWORD = "keyword" // Entries activate when one of their keys appears in the chat
+	static VECTOR = "vector" // Keyword matches plus entries semantically similar to recent messages
+
+	static options = [
+		{ value: LoreMatchingStrategies.KEYWORD, label: "Keyword" },
+		{
+			value: LoreMatchingStrategies.VECTOR,
+			label: "Vector (Keyword + Embeddings)"
+		}
+	]
+}
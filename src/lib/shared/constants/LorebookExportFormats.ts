@@ -0,0 +1,15 @@
+export class LorebookExportFormats {
+	static SILLYTAVERN = "sillytavern" // SillyTavern World Info JSON
+	static CHARACTER_BOOK = "character_book" // V3 character card character_book
+
+	static options = [
+		{
+			value: LorebookExportFormats.SILLYTAVERN,
+			label: "SillyTavern World Info"
+		},
+		{
+			value: LorebookExportFormats.CHARACTER_BOOK,
+			label: "Character Book (V3)"
+		}
+	]
+}
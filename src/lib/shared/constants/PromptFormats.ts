@@ -1,3 +1,4 @@
+// Keys of the built-in instruct templates, user templates get generated keys (see instructTemplates)
 export class PromptFormats {
 	static readonly VICUNA = "vicuna"
 	static readonly CHATML = "chatml"
@@ -7,7 +8,13 @@ export class PromptFormats {
 	static readonly CLAUDE = "claude"
 	static readonly INSTRUCT = "instruct"
 	static readonly TEKKEN = "tekken"
+	static readonly LLAMA3 = "llama3"
+	static readonly GEMMA = "gemma"
+	static readonly PHI3 = "phi3"
+	static readonly COMMAND_R = "command_r"
+	static readonly DEEPSEEK = "deepseek"
 	static readonly SPLIT_CHAT = "split_chat" // This is a hidden format for splitting chat completions
+	static readonly AUTO = "auto" // Renders with the model's own chat template, see ChatTemplates
 
 	static readonly keys = [
 		PromptFormats.VICUNA,
@@ -17,18 +24,13 @@ export class PromptFormats {
 		PromptFormats.LLAMA2_INST,
 		PromptFormats.CLAUDE,
 		PromptFormats.INSTRUCT,
-		PromptFormats.SPLIT_CHAT // ← new
-		// PromptFormats.TEKKEN // ← new
-	]
-
-	static readonly options = [
-		{ value: PromptFormats.VICUNA, label: "Vicuna (Default)" },
-		{ value: PromptFormats.CHATML, label: "ChatML" },
-		{ value: PromptFormats.BASIC, label: "Basic / Legacy" },
-		{ value: PromptFormats.OPENAI, label: "OpenAI" },
-		{ value: PromptFormats.LLAMA2_INST, label: "LLaMA2/Mistral Instruct" },
-		{ value: PromptFormats.CLAUDE, label: "Claude (Human/Assistant)" },
-		{ value: PromptFormats.INSTRUCT, label: "Instruct (Alpaca)" }
-		// { value: PromptFormats.TEKKEN, label: "Mistral v7 Tekken" } // ← new
+		PromptFormats.TEKKEN,
+		PromptFormats.LLAMA3,
+		PromptFormats.GEMMA,
+		PromptFormats.PHI3,
+		PromptFormats.COMMAND_R,
+		PromptFormats.DEEPSEEK,
+		PromptFormats.SPLIT_CHAT,
+		PromptFormats.AUTO
 	]
 }
@@ -0,0 +1,42 @@
+// Sampler names stored in samplingConfigs.samplerOrder, each adapter translates them for its backend
+export class Samplers {
+	static readonly REPETITION_PENALTY = "repetition_penalty"
+	static readonly DRY = "dry"
+	static readonly TOP_K = "top_k"
+	static readonly TOP_A = "top_a"
+	static readonly TFS = "tfs"
+	static readonly TYPICAL_P = "typical_p"
+	static readonly TOP_P = "top_p"
+	static readonly MIN_P = "min_p"
+	static readonly XTC = "xtc"
+	static readonly TEMPERATURE = "temperature"
+
+	static readonly keys = [
+		Samplers.REPETITION_PENALTY,
+		Samplers.DRY,
+		Samplers.TOP_K,
+		Samplers.TOP_A,
+		Samplers.TFS,
+		Samplers.TYPICAL_P,
+		Samplers.TOP_P,
+		Samplers.MIN_P,
+		Samplers.XTC,
+		Samplers.TEMPERATURE
+	]
+
+	// Temperature last, like most backends do by default
+	static readonly defaultOrder = [...Samplers.keys]
+
+	static readonly options = [
+		{ value: Samplers.REPETITION_PENALTY, label: "Repetition Penalty" },
+		{ value: Samplers.DRY, label: "DRY" },
+		{ value: Samplers.TOP_K, label: "Top K" },
+		{ value: Samplers.TOP_A, label: "Top A" },
+		{ value: Samplers.TFS, label: "Tail Free Sampling" },
+		{ value: Samplers.TYPICAL_P, label: "Typical P" },
+		{ value: Samplers.TOP_P, label: "Top P" },
+		{ value: Samplers.MIN_P, label: "Min P" },
+		{ value: Samplers.XTC, label: "XTC" },
+		{ value: Samplers.TEMPERATURE, label: "Temperature" }
+	]
+}
@@ -11,6 +11,7 @@ export class TokenCounterOptions {
 	static readonly COHERE = "cohere"
 	static readonly GEMINI = "gemini"
 	static readonly GEMMA = "gemma"
+	static readonly BACKEND = "backend" // Counted by the connection's backend, if supported
 
 	static readonly keys = [
 		TokenCounterOptions.ESTIMATE,
@@ -24,7 +25,8 @@ export class TokenCounterOptions {
 		TokenCounterOptions.ANTHROPIC_CLAUDE,
 		TokenCounterOptions.COHERE,
 		TokenCounterOptions.GEMINI,
-		TokenCounterOptions.GEMMA
+		TokenCounterOptions.GEMMA,
+		TokenCounterOptions.BACKEND
 	]
 
 	static readonly options = [
@@ -45,6 +47,7 @@ export class TokenCounterOptions {
 		},
 		{ value: TokenCounterOptions.COHERE, label: "Cohere" },
 		{ value: TokenCounterOptions.GEMINI, label: "Google Gemini/PaLM" },
-		{ value: TokenCounterOptions.GEMMA, label: "Google Gemma" }
+		{ value: TokenCounterOptions.GEMMA, label: "Google Gemma" },
+		{ value: TokenCounterOptions.BACKEND, label: "Backend (remote)" }
 	]
 }
@@ -3,6 +3,7 @@ import type { LayoutServerLoad } from "./$types"
 export const load: LayoutServerLoad = async (event) => {
 	return {
 		isNewerReleaseAvailable: event.locals.isNewerReleaseAvailable,
-		latestReleaseTag: event.locals.latestReleaseTag
+		latestReleaseTag: event.locals.latestReleaseTag,
+		user: event.locals.user
 	}
 }
@@ -3,14 +3,17 @@ import type { RequestHandler } from "@sveltejs/kit"
 
 // let socketsLoaded = false
 
-export const GET: RequestHandler = async () => {
+export const GET: RequestHandler = async ({ locals }) => {
 	// if (!socketsLoaded) {
 	//   socketsLoaded = true
 	//   await loadSockets()
 	// }
 
 	const endpoint = process.env.PUBLIC_SOCKETS_ENDPOINT || ""
-	return new Response(JSON.stringify({ endpoint }), {
+	// The socket server runs on its own port, so the session token is handed
+	// over for the handshake instead of relying on the cookie being sent
+	const token = locals.sessionToken || null
+	return new Response(JSON.stringify({ endpoint, token }), {
 		headers: { "Content-Type": "application/json" }
 	})
 }
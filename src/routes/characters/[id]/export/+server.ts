@@ -0,0 +1,33 @@
+// Download a character as a PNG or CHARX character card
+import type { RequestHandler } from "@sveltejs/kit"
+import { buildCharacterCardExport } from "$lib/server/utils/characterCardExport"
+import { CharacterCardExportFormats } from "$lib/shared/constants/CharacterCardExportFormats"
+
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	const characterId = Number(params.id)
+	if (!locals.user || !Number.isInteger(characterId)) {
+		return new Response("Not found", { status: 404 })
+	}
+	const format =
+		url.searchParams.get("format") || CharacterCardExportFormats.PNG
+	if (!CharacterCardExportFormats.options.some((o) => o.value === format)) {
+		return new Response("Unknown export format", { status: 400 })
+	}
+
+	const exported = await buildCharacterCardExport(
+		characterId,
+		locals.user.id,
+		format
+	)
+	if (!exported) {
+		return new Response("Not found", { status: 404 })
+	}
+
+	return new Response(new Uint8Array(exported.data), {
+		headers: {
+			"Content-Type": exported.mimeType,
+			"Content-Disposition": `attachment; filename="${exported.fileName}"`,
+			"Cache-Control": "no-store"
+		}
+	})
+}
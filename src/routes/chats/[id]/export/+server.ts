@@ -0,0 +1,31 @@
+// Download a chat as SillyTavern JSONL, Markdown or an HTML transcript
+import type { RequestHandler } from "@sveltejs/kit"
+import { buildChatExport } from "$lib/server/utils/chatExport"
+import { ChatExportFormats } from "$lib/shared/constants/ChatExportFormats"
+
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	const chatId = Number(params.id)
+	if (!locals.user || !Number.isInteger(chatId)) {
+		return new Response("Not found", { status: 404 })
+	}
+	const format = url.searchParams.get("format") || ChatExportFormats.JSONL
+	if (!ChatExportFormats.options.some((o) => o.value === format)) {
+		return new Response("Unknown export format", { status: 400 })
+	}
+	const excludeHidden = url.searchParams.get("excludeHidden") === "1"
+
+	const exported = await buildChatExport(chatId, locals.user.id, format, {
+		excludeHidden
+	})
+	if (!exported) {
+		return new Response("Not found", { status: 404 })
+	}
+
+	return new Response(exported.data, {
+		headers: {
+			"Content-Type": `${exported.mimeType}; charset=utf-8`,
+			"Content-Disposition": `attachment; filename="${exported.fileName}"`,
+			"Cache-Control": "no-store"
+		}
+	})
+}
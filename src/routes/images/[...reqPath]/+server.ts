@@ -4,7 +4,7 @@ import path from "path"
 import fs from "fs/promises"
 import { getAppDataDir } from "$lib/server/utils"
 
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async ({ params, locals }) => {
 	const { reqPath } = params
 	if (!reqPath) {
 		return new Response("Not found", { status: 404 })
@@ -13,6 +13,17 @@ export const GET: RequestHandler = async ({ params }) => {
 	const relPath = Array.isArray(reqPath) ? reqPath.join("/") : reqPath
 	const appData = getAppDataDir()
 	const filePath = path.join(appData, relPath)
+	// Only user files (data/users/:userId/...) are served, and only to their owner
+	const [root, scope, ownerId] = path
+		.relative(appData, filePath)
+		.split(path.sep)
+	if (
+		root !== "data" ||
+		scope !== "users" ||
+		ownerId !== String(locals.user?.id)
+	) {
+		return new Response("Not found", { status: 404 })
+	}
 	try {
 		const data = await fs.readFile(filePath)
 		// Guess content type from extension
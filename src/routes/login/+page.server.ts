@@ -0,0 +1,157 @@
+import { db } from "$lib/server/db"
+import * as schema from "$lib/server/db/schema"
+import {
+	consumeAccountClaimCode,
+	createSession,
+	getAccountClaimCode,
+	hashPassword,
+	SESSION_COOKIE_NAME,
+	verifyPassword
+} from "$lib/server/utils/auth"
+import { fail, redirect, type Cookies } from "@sveltejs/kit"
+import { eq } from "drizzle-orm"
+import type { Actions, PageServerLoad } from "./$types"
+
+function isRegistrationEnabled() {
+	const disabled = process.env.SERENE_PUB_DISABLE_REGISTRATION
+	return !(disabled && parseInt(disabled))
+}
+
+async function startSession(cookies: Cookies, userId: number, secure: boolean) {
+	const { token, expiresAt } = await createSession(userId)
+	cookies.set(SESSION_COOKIE_NAME, token, {
+		path: "/",
+		httpOnly: true,
+		sameSite: "lax",
+		secure,
+		expires: expiresAt
+	})
+}
+
+// Accounts created before logins existed, they have no password yet
+async function hasUnclaimedAccounts() {
+	const unclaimed = await db.query.users.findFirst({
+		where: (u, { isNull }) => isNull(u.passwordHash),
+		columns: { id: true }
+	})
+	return !!unclaimed
+}
+
+function readCredentials(data: FormData) {
+	const username = String(data.get("username") || "").trim()
+	const password = String(data.get("password") || "")
+	return { username, password }
+}
+
+export const load: PageServerLoad = async ({ locals }) => {
+	if (locals.user) redirect(303, "/")
+	const canClaimAccounts = await hasUnclaimedAccounts()
+	if (canClaimAccounts) getAccountClaimCode() // Printed to the server console
+	return { registrationEnabled: isRegistrationEnabled(), canClaimAccounts }
+}
+
+export const actions: Actions = {
+	login: async ({ request, cookies, url }) => {
+		const { username, password } = readCredentials(await request.formData())
+		if (!username || !password) {
+			return fail(400, {
+				username,
+				error: "Username and password are required."
+			})
+		}
+
+		const user = await db.query.users.findFirst({
+			where: (u, { eq }) => eq(u.username, username)
+		})
+		if (!user || !(await verifyPassword(password, user.passwordHash))) {
+			return fail(400, {
+				username,
+				error: "Invalid username or password."
+			})
+		}
+
+		await startSession(cookies, user.id, url.protocol === "https:")
+		redirect(303, "/")
+	},
+
+	register: async ({ request, cookies, url }) => {
+		const data = await request.formData()
+		const { username, password } = readCredentials(data)
+		const confirmPassword = String(data.get("confirmPassword") || "")
+		const claimCode = String(data.get("claimCode") || "")
+
+		if (!username || !password) {
+			return fail(400, {
+				username,
+				register: true,
+				error: "Username and password are required."
+			})
+		}
+		if (password.length < 8) {
+			return fail(400, {
+				username,
+				register: true,
+				error: "Password must be at least 8 characters."
+			})
+		}
+		if (password !== confirmPassword) {
+			return fail(400, {
+				username,
+				register: true,
+				error: "Passwords do not match."
+			})
+		}
+
+		const passwordHash = await hashPassword(password)
+		const existing = await db.query.users.findFirst({
+			where: (u, { eq }) => eq(u.username, username)
+		})
+
+		let userId: number
+		if (existing) {
+			// Accounts created before logins existed (e.g. the default "admin")
+			// have no password yet and can be claimed once with the claim code
+			if (existing.passwordHash) {
+				return fail(400, {
+					username,
+					register: true,
+					error: "That username is already taken."
+				})
+			}
+			if (!consumeAccountClaimCode(claimCode)) {
+				return fail(400, {
+					username,
+					register: true,
+					error: "To claim this account, enter the claim code shown in the server console."
+				})
+			}
+			await db
+				.update(schema.users)
+				.set({ passwordHash })
+				.where(eq(schema.users.id, existing.id))
+			userId = existing.id
+		} else {
+			if (!isRegistrationEnabled()) {
+				return fail(403, {
+					username,
+					register: true,
+					error: "Registration is disabled."
+				})
+			}
+			const [created] = await db
+				.insert(schema.users)
+				.values({
+					username,
+					passwordHash,
+					activeSamplingConfigId: 1,
+					activeContextConfigId: 1,
+					activePromptConfigId: 1
+				})
+				.returning()
+			userId = created.id
+		}
+
+		await startSession(cookies, userId, url.protocol === "https:")
+		redirect(303, "/")
+	}
+}
@@ -0,0 +1,10 @@
+import { invalidateSession, SESSION_COOKIE_NAME } from "$lib/server/utils/auth"
+import { redirect, type RequestHandler } from "@sveltejs/kit"
+
+export const POST: RequestHandler = async ({ cookies, locals }) => {
+	if (locals.sessionToken) {
+		await invalidateSession(locals.sessionToken)
+	}
+	cookies.delete(SESSION_COOKIE_NAME, { path: "/" })
+	redirect(303, "/login")
+}
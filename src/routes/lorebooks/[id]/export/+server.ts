@@ -0,0 +1,33 @@
+// Download a lorebook as SillyTavern World Info or V3 character_book JSON
+import type { RequestHandler } from "@sveltejs/kit"
+import {
+	buildLorebookExport,
+	getLorebookForExport
+} from "$lib/server/utils/worldInfoExport"
+import { LorebookExportFormats } from "$lib/shared/constants/LorebookExportFormats"
+
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	const lorebookId = Number(params.id)
+	if (!locals.user || !Number.isInteger(lorebookId)) {
+		return new Response("Not found", { status: 404 })
+	}
+	const format =
+		url.searchParams.get("format") || LorebookExportFormats.SILLYTAVERN
+	if (!LorebookExportFormats.options.some((o) => o.value === format)) {
+		return new Response("Unknown export format", { status: 400 })
+	}
+
+	const lorebook = await getLorebookForExport(lorebookId, locals.user.id)
+	if (!lorebook) {
+		return new Response("Not found", { status: 404 })
+	}
+
+	const { fileName, data } = buildLorebookExport(lorebook, format)
+	return new Response(JSON.stringify(data, null, 2), {
+		headers: {
+			"Content-Type": "application/json",
+			"Content-Disposition": `attachment; filename="${fileName}"`,
+			"Cache-Control": "no-store"
+		}
+	})
+}